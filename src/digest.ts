@@ -0,0 +1,123 @@
+import { encodeBytes } from "./encoding.js";
+import { fromHex, toHex } from "./utils.js";
+
+/**
+ * A hash together with the algorithm that produced it, as returned by `Hashery.digest`.
+ * Unlike a bare hex string, a SHA-256 and a murmur digest can't be mixed up: `equals`
+ * only matches digests of the same algorithm and `toString` carries the algorithm name.
+ *
+ * @example
+ * ```ts
+ * const digest = await hashery.digest({ id: 1 });
+ * console.log(digest.algorithm); // "SHA-256"
+ * console.log(digest.toString()); // "SHA-256:5d4f..."
+ * ```
+ */
+export class Digest {
+	private readonly _algorithm: string;
+	private readonly _bytes: Uint8Array<ArrayBuffer>;
+
+	/**
+	 * Creates a digest from its raw bytes.
+	 * @param algorithm - The name of the algorithm that produced the digest
+	 * @param bytes - The digest bytes, which are copied
+	 */
+	constructor(algorithm: string, bytes: Uint8Array) {
+		this._algorithm = algorithm;
+		this._bytes = new Uint8Array(bytes);
+	}
+
+	/**
+	 * Creates a digest from a hexadecimal hash, as returned by the hash providers.
+	 * @param algorithm - The name of the algorithm that produced the hash
+	 * @param hex - The hexadecimal hash
+	 * @returns The Digest
+	 */
+	public static fromHex(algorithm: string, hex: string): Digest {
+		return new Digest(algorithm, fromHex(hex));
+	}
+
+	/**
+	 * Gets the name of the algorithm that produced the digest, e.g. 'SHA-256'.
+	 */
+	public get algorithm(): string {
+		return this._algorithm;
+	}
+
+	/**
+	 * Gets a copy of the digest bytes.
+	 */
+	public get bytes(): Uint8Array<ArrayBuffer> {
+		return this._bytes.slice();
+	}
+
+	/**
+	 * Gets the length of the digest in bits.
+	 */
+	public get bitLength(): number {
+		return this._bytes.length * 8;
+	}
+
+	/**
+	 * Gets the digest as lowercase hex, the same string `toHash` returns.
+	 * @returns The hexadecimal digest
+	 */
+	public toHex(): string {
+		return toHex(this._bytes);
+	}
+
+	/**
+	 * Gets the digest as padded base64, e.g. for Subresource Integrity.
+	 * @returns The base64 digest
+	 */
+	public toBase64(): string {
+		return encodeBytes(this._bytes, "base64") as string;
+	}
+
+	/**
+	 * Gets the digest as an unsigned big-endian integer.
+	 * @returns The digest as a BigInt
+	 */
+	public toBigInt(): bigint {
+		return BigInt(`0x${this.toHex()}`);
+	}
+
+	/**
+	 * Compares two digests in constant time, so the comparison can be used to check
+	 * signatures without leaking how many bytes matched.
+	 * @param other - The digest to compare with
+	 * @returns True if both digests have the same algorithm and bytes
+	 */
+	public equals(other: Digest): boolean {
+		const bytes = other._bytes;
+		if (
+			other._algorithm !== this._algorithm ||
+			bytes.length !== this._bytes.length
+		) {
+			return false;
+		}
+
+		let difference = 0;
+		for (let i = 0; i < bytes.length; i++) {
+			difference |= bytes[i] ^ this._bytes[i];
+		}
+
+		return difference === 0;
+	}
+
+	/**
+	 * Gets the digest in the `algorithm:hex` format, e.g. 'SHA-256:ba7816bf...'.
+	 * @returns The formatted digest
+	 */
+	public toString(): string {
+		return `${this._algorithm}:${this.toHex()}`;
+	}
+
+	/**
+	 * Serializes the digest in the `algorithm:hex` format, see `toString`.
+	 * @returns The formatted digest
+	 */
+	public toJSON(): string {
+		return this.toString();
+	}
+}
@@ -0,0 +1,356 @@
+import type { DigestFormat, HashEncoding } from "./types.js";
+import { fromHex, toHex } from "./utils.js";
+
+const BASE64_ALPHABET =
+	"ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const BASE64URL_ALPHABET =
+	"ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
+const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
+// Bitcoin alphabet, without the look-alike characters 0, O, I and l
+const BASE58_ALPHABET =
+	"123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+const BASE36_ALPHABET = "0123456789abcdefghijklmnopqrstuvwxyz";
+
+/**
+ * Re-encodes a hexadecimal digest, as returned by the hash providers.
+ * @param hex - The hexadecimal digest
+ * @param encoding - The output encoding (defaults to 'hex', which returns the digest as-is)
+ * @returns The encoded digest, or its bytes for the 'bytes' encoding
+ * @throws {Error} If another encoding is requested and the digest is not whole bytes of hex
+ */
+export function encodeDigest(
+	hex: string,
+	encoding: HashEncoding = "hex",
+): string | Uint8Array<ArrayBuffer> {
+	if (encoding === "hex") {
+		return hex;
+	}
+
+	return encodeBytes(fromHex(hex), encoding);
+}
+
+/**
+ * Encodes digest bytes, see `HashEncoding` for the supported encodings.
+ * @param bytes - The digest bytes
+ * @param encoding - The output encoding
+ * @returns The encoded digest, or the bytes for the 'bytes' encoding
+ */
+export function encodeBytes(
+	bytes: Uint8Array<ArrayBuffer>,
+	encoding: HashEncoding,
+): string | Uint8Array<ArrayBuffer> {
+	switch (encoding) {
+		case "hex": {
+			return toHex(bytes);
+		}
+
+		case "base64": {
+			const base64 = encodeBits(bytes, BASE64_ALPHABET, 6);
+			return base64.padEnd(Math.ceil(base64.length / 4) * 4, "=");
+		}
+
+		case "base64url": {
+			return encodeBits(bytes, BASE64URL_ALPHABET, 6);
+		}
+
+		case "base32": {
+			return encodeBits(bytes, BASE32_ALPHABET, 5);
+		}
+
+		case "base58": {
+			return encodeBaseX(bytes, BASE58_ALPHABET);
+		}
+
+		case "base36": {
+			return encodeBaseX(bytes, BASE36_ALPHABET);
+		}
+
+		case "bytes": {
+			return bytes;
+		}
+	}
+}
+
+/**
+ * Decodes a string produced by `encodeBytes`. Padding is optional for base64.
+ * @param text - The encoded bytes
+ * @param encoding - The encoding of the text
+ * @returns The bytes, or undefined if the text is not valid in the encoding: unknown
+ * characters, a length no encoded string has or non-zero padding bits
+ */
+export function decodeBytes(
+	text: string,
+	encoding: Exclude<HashEncoding, "bytes">,
+): Uint8Array<ArrayBuffer> | undefined {
+	switch (encoding) {
+		case "hex": {
+			return /^(?:[0-9a-fA-F]{2})*$/.test(text) ? fromHex(text) : undefined;
+		}
+
+		case "base64": {
+			const unpadded = text.replace(/={1,2}$/, "");
+			// Padding is optional, but when present it must complete the last group of 4
+			if (unpadded !== text && text.length % 4 !== 0) {
+				return undefined;
+			}
+
+			return decodeBits(unpadded, BASE64_ALPHABET, 6);
+		}
+
+		case "base64url": {
+			return decodeBits(text, BASE64URL_ALPHABET, 6);
+		}
+
+		case "base32": {
+			return decodeBits(text, BASE32_ALPHABET, 5);
+		}
+
+		case "base58": {
+			return decodeBaseX(text, BASE58_ALPHABET);
+		}
+
+		case "base36": {
+			return decodeBaseX(text, BASE36_ALPHABET);
+		}
+	}
+}
+
+/**
+ * Truncates an encoded digest to a maximum length: characters for strings, bytes for
+ * the 'bytes' encoding.
+ * @param hash - The encoded digest
+ * @param maxLength - The maximum length, no truncation if not set
+ * @returns The truncated digest
+ */
+export function truncateDigest<T extends string | Uint8Array>(
+	hash: T,
+	maxLength?: number,
+): T {
+	if (!maxLength || hash.length <= maxLength) {
+		return hash;
+	}
+
+	return (
+		typeof hash === "string"
+			? hash.substring(0, maxLength)
+			: hash.subarray(0, maxLength)
+	) as T;
+}
+
+/**
+ * Prefixes an encoded hash with the algorithm in one of the self-describing formats.
+ * @param algorithm - The name of the algorithm, e.g. 'SHA-256'
+ * @param hash - The hex hash for 'oci', the base64 hash for 'sri'
+ * @param format - The digest format
+ * @returns The formatted digest, e.g. 'sha256:ba7816bf...'
+ */
+export function formatDigest(
+	algorithm: string,
+	hash: string,
+	format: DigestFormat,
+): string {
+	return `${digestPrefix(algorithm)}${format === "oci" ? ":" : "-"}${hash}`;
+}
+
+/**
+ * Gets the encoding a digest format uses for the hash.
+ * @param format - The digest format
+ * @returns 'hex' for 'oci', 'base64' for 'sri'
+ */
+export function formatEncoding(format: DigestFormat): HashEncoding {
+	return format === "oci" ? "hex" : "base64";
+}
+
+/**
+ * Splits a formatted digest into its algorithm prefix and hash bytes. Strings with a ':'
+ * are read as 'oci' (`algorithm:hex`), the others as 'sri' (`algorithm-base64`).
+ * @param value - The formatted digest
+ * @returns The algorithm prefix and the hash bytes, or undefined if the string is not a valid digest
+ */
+export function splitDigest(
+	value: string,
+): { prefix: string; bytes: Uint8Array<ArrayBuffer> } | undefined {
+	value = value.trim();
+
+	// base64 has no '-', so the last one separates the prefix from an 'sri' hash
+	const colon = value.indexOf(":");
+	const separator = colon === -1 ? value.lastIndexOf("-") : colon;
+	if (separator === -1) {
+		return undefined;
+	}
+
+	const bytes = decodeBytes(
+		value.substring(separator + 1),
+		colon === -1 ? "base64" : "hex",
+	);
+	if (!bytes?.length) {
+		return undefined;
+	}
+
+	return { prefix: value.substring(0, separator), bytes };
+}
+
+/**
+ * Checks whether a digest prefix names an algorithm. Case and the '-', '_' and '/'
+ * separators are ignored, so 'sha256' matches SHA-256 and 'sha512_256' matches SHA-512/256.
+ * @param algorithm - The name of the algorithm
+ * @param prefix - The algorithm prefix of a formatted digest
+ * @returns True if the prefix names the algorithm
+ */
+export function matchesDigestPrefix(
+	algorithm: string,
+	prefix: string,
+): boolean {
+	const normalize = (name: string) => name.toLowerCase().replace(/[-_/]/g, "");
+	return normalize(algorithm) === normalize(prefix);
+}
+
+/**
+ * Gets the prefix of an algorithm in the self-describing formats: the lowercase name with
+ * the dash of the SHA-1 and SHA-2 names removed and '/' replaced by '_', e.g. 'sha256',
+ * 'sha512_256' or 'sha3-256'.
+ */
+function digestPrefix(algorithm: string): string {
+	return algorithm.toLowerCase().replace(/^sha-/, "sha").replaceAll("/", "_");
+}
+
+/**
+ * Encodes bytes with a power of two alphabet, reading `bitsPerChar` bits at a time.
+ * The last character is zero-padded on the right.
+ */
+function encodeBits(
+	bytes: Uint8Array,
+	alphabet: string,
+	bitsPerChar: number,
+): string {
+	const mask = (1 << bitsPerChar) - 1;
+	let result = "";
+	let buffer = 0;
+	let bits = 0;
+
+	for (const byte of bytes) {
+		buffer = (buffer << 8) | byte;
+		bits += 8;
+		while (bits >= bitsPerChar) {
+			bits -= bitsPerChar;
+			result += alphabet[(buffer >> bits) & mask];
+		}
+	}
+
+	if (bits > 0) {
+		result += alphabet[(buffer << (bitsPerChar - bits)) & mask];
+	}
+
+	return result;
+}
+
+/**
+ * Encodes bytes as a big number in the base of the alphabet. Leading zero bytes are kept
+ * as leading zero characters, like in Bitcoin's base58.
+ */
+function encodeBaseX(bytes: Uint8Array, alphabet: string): string {
+	const base = alphabet.length;
+	let zeros = 0;
+	while (zeros < bytes.length && bytes[zeros] === 0) {
+		zeros++;
+	}
+
+	// Digits in the target base, least significant first
+	const digits: Array<number> = [];
+	for (let i = zeros; i < bytes.length; i++) {
+		let carry = bytes[i];
+		for (let j = 0; j < digits.length; j++) {
+			carry += digits[j] << 8;
+			digits[j] = carry % base;
+			carry = Math.floor(carry / base);
+		}
+
+		while (carry > 0) {
+			digits.push(carry % base);
+			carry = Math.floor(carry / base);
+		}
+	}
+
+	let result = alphabet[0].repeat(zeros);
+	for (let i = digits.length - 1; i >= 0; i--) {
+		result += alphabet[digits[i]];
+	}
+
+	return result;
+}
+
+/**
+ * Decodes text written with a power of two alphabet, the reverse of `encodeBits`.
+ * The padding bits of the last character must be zero and fill less than a character.
+ */
+function decodeBits(
+	text: string,
+	alphabet: string,
+	bitsPerChar: number,
+): Uint8Array<ArrayBuffer> | undefined {
+	const bytes: Array<number> = [];
+	let buffer = 0;
+	let bits = 0;
+
+	for (const char of text) {
+		const value = alphabet.indexOf(char);
+		if (value === -1) {
+			return undefined;
+		}
+
+		buffer = ((buffer << bitsPerChar) | value) & 0xffff;
+		bits += bitsPerChar;
+		if (bits >= 8) {
+			bits -= 8;
+			bytes.push((buffer >> bits) & 0xff);
+		}
+	}
+
+	if (bits >= bitsPerChar || (buffer & ((1 << bits) - 1)) !== 0) {
+		return undefined;
+	}
+
+	return new Uint8Array(bytes);
+}
+
+/**
+ * Decodes text written as a big number in the base of the alphabet, the reverse of
+ * `encodeBaseX`. Leading zero characters become leading zero bytes.
+ */
+function decodeBaseX(
+	text: string,
+	alphabet: string,
+): Uint8Array<ArrayBuffer> | undefined {
+	const base = alphabet.length;
+	let zeros = 0;
+	while (zeros < text.length && text[zeros] === alphabet[0]) {
+		zeros++;
+	}
+
+	// Bytes, least significant first
+	const bytes: Array<number> = [];
+	for (let i = zeros; i < text.length; i++) {
+		let carry = alphabet.indexOf(text[i]);
+		if (carry === -1) {
+			return undefined;
+		}
+
+		for (let j = 0; j < bytes.length; j++) {
+			carry += bytes[j] * base;
+			bytes[j] = carry & 0xff;
+			carry >>= 8;
+		}
+
+		while (carry > 0) {
+			bytes.push(carry & 0xff);
+			carry >>= 8;
+		}
+	}
+
+	const result = new Uint8Array(zeros + bytes.length);
+	for (let i = 0; i < bytes.length; i++) {
+		result[result.length - 1 - i] = bytes[i];
+	}
+
+	return result;
+}
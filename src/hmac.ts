@@ -0,0 +1,111 @@
+import type { HashProvider } from "./types.js";
+import { fromHex, toUint8Array } from "./utils.js";
+
+/**
+ * Computes the HMAC (RFC 2104) of data with any hash provider. Providers with a native
+ * `toHmac` (the WebCrypto SHA algorithms) use it, the others use the generic construction
+ * `H((K ^ opad) || H((K ^ ipad) || data))` driven by the provider's `blockSize`.
+ * @param provider - The hash provider
+ * @param key - The secret key
+ * @param data - The data to sign
+ * @returns A Promise resolving to the hexadecimal HMAC
+ * @throws {Error} If the key is empty or the provider does not define a block size
+ */
+export async function hmac(
+	provider: HashProvider,
+	key: BufferSource,
+	data: BufferSource,
+): Promise<string> {
+	let keyBytes = toUint8Array(key);
+	const blockSize = getBlockSize(provider, keyBytes);
+
+	if (provider.toHmac) {
+		return provider.toHmac(keyBytes, data);
+	}
+
+	// Keys longer than a block are hashed first
+	if (keyBytes.length > blockSize) {
+		keyBytes = fromHex(await provider.toHash(keyBytes));
+	}
+
+	const inner = await provider.toHash(
+		concat(pad(keyBytes, blockSize, 0x36), toUint8Array(data)),
+	);
+	return provider.toHash(
+		concat(pad(keyBytes, blockSize, 0x5c), fromHex(inner)),
+	);
+}
+
+/**
+ * Computes the HMAC of data synchronously with the generic construction, see `hmac`.
+ * @param provider - The hash provider, which must support synchronous hashing
+ * @param key - The secret key
+ * @param data - The data to sign
+ * @returns The hexadecimal HMAC
+ * @throws {Error} If the key is empty or the provider does not define a block size
+ * @throws {Error} If the provider does not support synchronous hashing
+ */
+export function hmacSync(
+	provider: HashProvider,
+	key: BufferSource,
+	data: BufferSource,
+): string {
+	let keyBytes = toUint8Array(key);
+	const blockSize = getBlockSize(provider, keyBytes);
+	const hash = provider.toHashSync?.bind(provider);
+	if (!hash) {
+		throw new Error(
+			`Hash provider '${provider.name}' does not support synchronous hashing. Use toHmac() instead or choose a different algorithm.`,
+		);
+	}
+
+	// Keys longer than a block are hashed first
+	if (keyBytes.length > blockSize) {
+		keyBytes = fromHex(hash(keyBytes));
+	}
+
+	const inner = hash(
+		concat(pad(keyBytes, blockSize, 0x36), toUint8Array(data)),
+	);
+	return hash(concat(pad(keyBytes, blockSize, 0x5c), fromHex(inner)));
+}
+
+/**
+ * Validates the key and gets the block size of the provider.
+ */
+function getBlockSize(provider: HashProvider, key: Uint8Array): number {
+	if (key.length === 0) {
+		throw new Error("HMAC key must not be empty");
+	}
+
+	if (!provider.blockSize) {
+		throw new Error(
+			`Hash provider '${provider.name}' does not define a block size, which HMAC requires. Use a cryptographic hash algorithm such as SHA-256.`,
+		);
+	}
+
+	return provider.blockSize;
+}
+
+/**
+ * Zero-pads the key to the block size and XORs it with the pad byte.
+ */
+function pad(
+	key: Uint8Array,
+	blockSize: number,
+	value: number,
+): Uint8Array<ArrayBuffer> {
+	const padded = new Uint8Array(blockSize).fill(value);
+	for (let i = 0; i < key.length; i++) {
+		padded[i] ^= key[i];
+	}
+
+	return padded;
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array<ArrayBuffer> {
+	const result = new Uint8Array(a.length + b.length);
+	result.set(a);
+	result.set(b, a.length);
+	return result;
+}
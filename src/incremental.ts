@@ -0,0 +1,126 @@
+import type { Hasher, HashProvider, HashStreamSource } from "./types.js";
+import { toUint8Array } from "./utils.js";
+
+/**
+ * An incremental hash created by `Hashery.createHash`. Data is fed in chunks with `update`
+ * and the hash is read once with `digest`.
+ *
+ * Providers with a `createHasher` method process each chunk as it arrives, so memory use
+ * stays constant no matter how much data is hashed. For other providers the chunks are
+ * buffered and hashed in one call to `toHash` when `digest` is called.
+ */
+export class IncrementalHash {
+	private readonly _provider: HashProvider;
+	private readonly _hasher?: Hasher;
+	private _chunks: Uint8Array<ArrayBuffer>[] = [];
+	private _digested = false;
+
+	constructor(provider: HashProvider) {
+		this._provider = provider;
+		this._hasher = provider.createHasher?.();
+	}
+
+	/**
+	 * Gets the name of the algorithm used to hash the data.
+	 */
+	public get algorithm(): string {
+		return this._provider.name;
+	}
+
+	/**
+	 * Gets whether chunks are hashed as they arrive (true) or buffered until `digest` (false).
+	 */
+	public get incremental(): boolean {
+		return this._hasher !== undefined;
+	}
+
+	/**
+	 * Adds a chunk of data to the hash. Strings are UTF-8 encoded.
+	 * @param data - The chunk to add
+	 * @returns The IncrementalHash, so calls can be chained
+	 * @throws {Error} If the hash has already been digested
+	 */
+	public update(data: BufferSource | string): this {
+		if (this._digested) {
+			throw new Error("Hash has already been digested");
+		}
+
+		const bytes =
+			typeof data === "string"
+				? new TextEncoder().encode(data)
+				: toUint8Array(data);
+
+		if (this._hasher) {
+			this._hasher.update(bytes);
+		} else {
+			// Copy the chunk, the caller may reuse its buffer
+			this._chunks.push(bytes.slice());
+		}
+
+		return this;
+	}
+
+	/**
+	 * Finishes the hash.
+	 * @returns A Promise that resolves to the hexadecimal hash of all chunks
+	 * @throws {Error} If the hash has already been digested
+	 */
+	public async digest(): Promise<string> {
+		if (this._digested) {
+			throw new Error("Hash has already been digested");
+		}
+
+		this._digested = true;
+
+		if (this._hasher) {
+			return this._hasher.digest();
+		}
+
+		let length = 0;
+		for (const chunk of this._chunks) {
+			length += chunk.length;
+		}
+
+		const bytes = new Uint8Array(length);
+		let offset = 0;
+		for (const chunk of this._chunks) {
+			bytes.set(chunk, offset);
+			offset += chunk.length;
+		}
+
+		this._chunks = [];
+		return this._provider.toHash(bytes);
+	}
+}
+
+/**
+ * Reads the chunks of a stream source. Blobs are read through `Blob.stream()` and
+ * ReadableStreams through a reader, because not every browser makes them async iterable.
+ * @param source - The ReadableStream, Blob or AsyncIterable to read
+ * @returns An async iterable of the chunks
+ */
+export async function* readChunks(
+	source: HashStreamSource,
+): AsyncIterable<Uint8Array | string> {
+	if ("stream" in source && typeof source.stream === "function") {
+		source = source.stream();
+	}
+
+	if ("getReader" in source) {
+		const reader = source.getReader();
+		try {
+			while (true) {
+				const { done, value } = await reader.read();
+				if (done) {
+					return;
+				}
+
+				yield value;
+			}
+		} finally {
+			reader.releaseLock();
+		}
+	}
+
+	yield* source as AsyncIterable<Uint8Array | string>;
+}
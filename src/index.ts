@@ -1,23 +1,78 @@
 import { Hookified } from "hookified";
 import { Cache } from "./cache.js";
+import { Digest } from "./digest.js";
+import {
+	encodeDigest,
+	formatDigest,
+	formatEncoding,
+	matchesDigestPrefix,
+	splitDigest,
+	truncateDigest,
+} from "./encoding.js";
+import { hmac, hmacSync } from "./hmac.js";
+import { IncrementalHash, readChunks } from "./incremental.js";
+import {
+	getStrongestIntegrity,
+	integrityAlgorithms,
+	parseIntegrity,
+} from "./integrity.js";
+import {
+	cidCodecs,
+	decodeCid,
+	decodeMultihash,
+	encodeCid,
+	encodeMultihash,
+	multihashCodes,
+} from "./multihash.js";
+import { Adler32 } from "./providers/adler32.js";
+import { Blake2b, Blake2s } from "./providers/blake2.js";
+import { Blake3 } from "./providers/blake3.js";
 import { CRC } from "./providers/crc.js";
 import { WebCrypto } from "./providers/crypto.js";
 import { DJB2 } from "./providers/djb2.js";
-import { FNV1 } from "./providers/fnv1.js";
-import { Murmur } from "./providers/murmur.js";
+import { Fletcher16, Fletcher32 } from "./providers/fletcher.js";
+import {
+	FNV1,
+	FNV1_64,
+	FNV1_128,
+	FNV1a,
+	FNV1a_64,
+	FNV1a_128,
+} from "./providers/fnv1.js";
+import { MD5, RIPEMD160 } from "./providers/legacy.js";
+import { Murmur, Murmur128, Murmur128x86 } from "./providers/murmur.js";
+import { createSha2Hasher, SHA2 } from "./providers/sha2.js";
+import { SHA3, SHAKE128, SHAKE256 } from "./providers/sha3.js";
+import { SipHash, SipHash13, SipHash24 } from "./providers/siphash.js";
+import { XXH3, XXH32, XXH64, XXH128 } from "./providers/xxhash.js";
 import { HashProviders } from "./providers.js";
+import { createObjectHashStringify } from "./serializers/object-hash.js";
+import { getSerializer } from "./serializers.js";
 import type {
+	DigestFormat,
+	HashEncoding,
+	HasheryDigestOptions,
+	HasheryDigestSyncOptions,
 	HasheryLoadProviderOptions,
 	HasheryOptions,
+	HasheryToCidOptions,
 	HasheryToHashOptions,
+	HasheryToHashStreamOptions,
 	HasheryToHashSyncOptions,
+	HasheryToHmacOptions,
+	HasheryToHmacSyncOptions,
+	HasheryToIntegrityOptions,
+	HasheryToMultihashOptions,
 	HasheryToNumberOptions,
 	HasheryToNumberSyncOptions,
+	HashInputMode,
 	HashProvider,
+	HashStreamSource,
+	ParsedCid,
 	ParseFn,
 	StringifyFn,
-	WebCryptoHashAlgorithm,
 } from "./types.js";
+import { toUint8Array } from "./utils.js";
 
 export class Hashery extends Hookified {
 	private _parse: ParseFn = JSON.parse;
@@ -26,6 +81,7 @@ export class Hashery extends Hookified {
 	private _defaultAlgorithm: string = "SHA-256";
 	private _defaultAlgorithmSync: string = "djb2";
 	private _cache: Cache;
+	private _siphashKey: Uint8Array<ArrayBuffer>;
 
 	constructor(options?: HasheryOptions) {
 		super(options);
@@ -36,21 +92,43 @@ export class Hashery extends Hookified {
 
 		if (options?.stringify) {
 			this._stringify = options.stringify;
+		} else if (options?.compat === "object-hash") {
+			this._stringify = createObjectHashStringify(options.objectHashOptions);
+		} else if (options?.serialization) {
+			this._stringify = getSerializer(options.serialization);
 		}
 
 		if (options?.defaultAlgorithm) {
 			this._defaultAlgorithm = options.defaultAlgorithm;
+		} else if (options?.compat === "object-hash") {
+			this._defaultAlgorithm = "SHA-1";
 		}
 
 		if (options?.defaultAlgorithmSync) {
 			this._defaultAlgorithmSync = options.defaultAlgorithmSync;
+		} else if (options?.compat === "object-hash") {
+			this._defaultAlgorithmSync = "SHA-1";
 		}
 
 		this._cache = new Cache(options?.cache);
 
+		if (options?.siphashKey === "random") {
+			this._siphashKey = SipHash.generateKey();
+		} else if (options?.siphashKey) {
+			this._siphashKey = toUint8Array(options.siphashKey).slice();
+		} else {
+			this._siphashKey = new Uint8Array(16);
+		}
+
 		this.loadProviders(options?.providers, {
 			includeBase: options?.includeBase ?? true,
+			includeLegacy: options?.includeLegacy,
 		});
+
+		// object-hash digests are SHA-1, which is needed even without the base providers
+		if (options?.compat === "object-hash") {
+			this._providers.add(new WebCrypto({ algorithm: "SHA-1" }));
+		}
 	}
 
 	/**
@@ -101,6 +179,16 @@ export class Hashery extends Hookified {
 		this._providers = value;
 	}
 
+	/**
+	 * Gets a copy of the key used by the built-in SipHash providers.
+	 * With the `siphashKey: 'random'` option this is the generated key, which you can
+	 * persist to keep hashes stable across instances.
+	 * @returns The 16-byte SipHash key
+	 */
+	public get siphashKey(): Uint8Array<ArrayBuffer> {
+		return this._siphashKey.slice();
+	}
+
 	/**
 	 * Gets the names of all registered hash algorithm providers.
 	 * @returns An array of provider names (e.g., ['SHA-256', 'SHA-384', 'SHA-512'])
@@ -143,7 +231,7 @@ export class Hashery extends Hookified {
 
 	/**
 	 * Sets the default synchronous hash algorithm to use when none is specified.
-	 * @param value - The default synchronous algorithm to use (e.g., 'djb2', 'fnv1', 'murmur', 'crc32')
+	 * @param value - The default synchronous algorithm to use (e.g., 'djb2', 'fnv1', 'murmur', 'crc32', 'xxh3')
 	 * @example
 	 * ```ts
 	 * const hashery = new Hashery();
@@ -199,80 +287,69 @@ export class Hashery extends Hookified {
 	 * const hash512 = await hashery.toHash({ name: 'John' }, { algorithm: 'SHA-512' });
 	 * ```
 	 */
+	public toHash(
+		data: unknown,
+		options: HasheryToHashOptions & { encoding: "bytes" },
+	): Promise<Uint8Array>;
+	public toHash(
+		data: unknown,
+		options?: HasheryToHashOptions & { encoding?: StringEncoding },
+	): Promise<string>;
+	public toHash(
+		data: unknown,
+		options?: HasheryToHashOptions,
+	): Promise<string | Uint8Array>;
 	public async toHash(
 		data: unknown,
 		options?: HasheryToHashOptions,
-	): Promise<string> {
-		// Before hook - allows modification of input data and algorithm
-		const context = {
-			data,
-			algorithm: options?.algorithm ?? this._defaultAlgorithm,
-			maxLength: options?.maxLength,
-		};
-		await this.beforeHook("toHash", context);
-
-		// Stringify the data using the configured stringify function
-		const stringified = this._stringify(context.data);
-
-		// Check cache first
-		const cacheKey = `${context.algorithm}:${stringified}`;
-		if (this._cache.enabled) {
-			const cached = this._cache.get(cacheKey);
-			if (cached !== undefined) {
-				let cachedHash = cached;
-				// Apply maxLength if specified
-				if (options?.maxLength && cachedHash.length > options.maxLength) {
-					cachedHash = cachedHash.substring(0, options.maxLength);
-				}
-
-				// After hook - run even on cache hits for consistent behavior
-				const result = {
-					hash: cachedHash,
-					data: context.data,
-					algorithm: context.algorithm,
-				};
-				await this.afterHook("toHash", result);
-
-				return result.hash;
-			}
-		}
-
-		// Convert the string to a Uint8Array
-		const encoder = new TextEncoder();
-		const dataBuffer = encoder.encode(stringified);
-
-		// Get the provider for the specified algorithm
-		let provider = this._providers.get(context.algorithm);
-		if (!provider) {
-			// Emit warning for invalid algorithm
-			this.emit(
-				"warn",
-				`Invalid algorithm '${context.algorithm}' not found. Falling back to default algorithm '${this._defaultAlgorithm}'.`,
-			);
+	): Promise<string | Uint8Array> {
+		return (await this._hash(data, options)).hash;
+	}
 
-			provider = new WebCrypto({
-				algorithm: this._defaultAlgorithm as WebCryptoHashAlgorithm,
-			});
+	/**
+	 * Hashes the bytes of a stream without buffering it in memory. Works with WHATWG
+	 * ReadableStreams, Blobs and Files, Node.js Readable streams and any AsyncIterable of
+	 * Uint8Array or string chunks (strings are UTF-8 encoded).
+	 *
+	 * The bytes are hashed as-is, so the result matches `toHash(bytes, { input: 'raw' })`.
+	 * Providers without incremental support (see `createHash`) buffer the stream before hashing.
+	 *
+	 * @param source - The stream to hash
+	 * @param options - Optional configuration object
+	 * @param options.algorithm - The hash algorithm to use (defaults to 'SHA-256')
+	 * @param options.maxLength - Optional maximum length for the hash output
+	 * @returns A Promise that resolves to the hexadecimal string representation of the hash
+	 *
+	 * @example
+	 * ```ts
+	 * const hashery = new Hashery();
+	 *
+	 * // Browser file upload
+	 * const hash = await hashery.toHashStream(input.files[0]);
+	 *
+	 * // Node.js stream
+	 * const fileHash = await hashery.toHashStream(fs.createReadStream('export.json'), {
+	 *   algorithm: 'SHA-512',
+	 * });
+	 * ```
+	 */
+	public async toHashStream(
+		source: HashStreamSource,
+		options?: HasheryToHashStreamOptions,
+	): Promise<string> {
+		const hash = this.createHash(options?.algorithm);
+		for await (const chunk of readChunks(source)) {
+			hash.update(chunk as BufferSource | string);
 		}
 
-		// Use the provider to hash the data
-		let hash = await provider.toHash(dataBuffer);
-
-		// Store the full hash in cache before truncation
-		if (this._cache.enabled) {
-			this._cache.set(cacheKey, hash);
-		}
+		let result = await hash.digest();
 
 		// if there is a max then change the hash
-		if (options?.maxLength && hash.length > options?.maxLength) {
-			hash = hash.substring(0, options.maxLength);
+		if (options?.maxLength && result.length > options.maxLength) {
+			result = result.substring(0, options.maxLength);
 		}
 
-		// After hook - allows modification/logging of result
-		const result = { hash, data: context.data, algorithm: context.algorithm };
-		await this.afterHook("toHash", result);
-
-		return result.hash;
+		return result;
 	}
 
 	/**
@@ -332,11 +409,12 @@ export class Hashery extends Hookified {
 	}
 
 	/**
-	 * Generates a hash of the provided data synchronously using a non-cryptographic hash algorithm.
+	 * Generates a hash of the provided data synchronously.
 	 * The data is first stringified using the configured stringify function, then hashed.
 	 *
-	 * Note: This method only works with synchronous hash providers (djb2, fnv1, murmur, crc32).
-	 * WebCrypto algorithms (SHA-256, SHA-384, SHA-512) are not supported and will throw an error.
+	 * Note: This method only works with providers that implement `toHashSync`. All built-in
+	 * providers do, SHA-1 and SHA-2 through the pure TypeScript implementation, so only custom
+	 * providers without `toHashSync` throw an error.
 	 *
 	 * If an invalid algorithm is provided, a 'warn' event is emitted and the method falls back
 	 * to the default synchronous algorithm. You can listen to these warnings:
@@ -363,93 +441,23 @@ export class Hashery extends Hookified {
 	 * const hashFnv1 = hashery.toHashSync({ name: 'John' }, { algorithm: 'fnv1' });
 	 * ```
 	 */
-	public toHashSync(data: unknown, options?: HasheryToHashSyncOptions): string {
-		// Before hook - allows modification of input data and algorithm (synchronous/blocking)
-		const context = {
-			data,
-			algorithm: options?.algorithm ?? this._defaultAlgorithmSync,
-			maxLength: options?.maxLength,
-		};
-		this.hookSync("before:toHashSync", context);
-
-		// Get algorithm from context (may have been modified by hook)
-		const algorithm = context.algorithm;
-
-		// Stringify the data using the configured stringify function
-		const stringified = this._stringify(context.data);
-
-		// Check cache first
-		const cacheKey = `${algorithm}:${stringified}`;
-		if (this._cache.enabled) {
-			const cached = this._cache.get(cacheKey);
-			if (cached !== undefined) {
-				let cachedHash = cached;
-				// Apply maxLength if specified
-				if (options?.maxLength && cachedHash.length > options.maxLength) {
-					cachedHash = cachedHash.substring(0, options.maxLength);
-				}
-
-				// After hook - run even on cache hits for consistent behavior
-				const result = {
-					hash: cachedHash,
-					data: context.data,
-					algorithm,
-				};
-				this.hookSync("after:toHashSync", result);
-
-				return result.hash;
-			}
-		}
-
-		// Convert the string to a Uint8Array
-		const encoder = new TextEncoder();
-		const dataBuffer = encoder.encode(stringified);
-
-		// Get the provider for the specified algorithm
-		let provider = this._providers.get(algorithm);
-		if (!provider) {
-			// Emit warning for invalid algorithm
-			this.emit(
-				"warn",
-				`Invalid algorithm '${algorithm}' not found. Falling back to default algorithm '${this._defaultAlgorithmSync}'.`,
-			);
-
-			// Fallback to default sync algorithm
-			provider = this._providers.get(this._defaultAlgorithmSync);
-
-			// If default algorithm is also not found, throw error
-			if (!provider) {
-				throw new Error(
-					`Hash provider '${this._defaultAlgorithmSync}' (default) not found`,
-				);
-			}
-		}
-
-		// Check if provider supports synchronous hashing
-		if (!provider.toHashSync) {
-			throw new Error(
-				`Hash provider '${algorithm}' does not support synchronous hashing. Use toHash() instead or choose a different algorithm (djb2, fnv1, murmur, crc32).`,
-			);
-		}
-
-		// Use the provider to hash the data synchronously
-		let hash = provider.toHashSync(dataBuffer);
-
-		// Store the full hash in cache before truncation
-		if (this._cache.enabled) {
-			this._cache.set(cacheKey, hash);
-		}
-
-		// if there is a max then change the hash
-		if (options?.maxLength && hash.length > options?.maxLength) {
-			hash = hash.substring(0, options.maxLength);
-		}
-
-		// After hook - allows modification/logging of result (synchronous/blocking)
-		const result = { hash, data: context.data, algorithm: context.algorithm };
-		this.hookSync("after:toHashSync", result);
-
-		return result.hash;
+	public toHashSync(
+		data: unknown,
+		options: HasheryToHashSyncOptions & { encoding: "bytes" },
+	): Uint8Array;
+	public toHashSync(
+		data: unknown,
+		options?: HasheryToHashSyncOptions & { encoding?: StringEncoding },
+	): string;
+	public toHashSync(
+		data: unknown,
+		options?: HasheryToHashSyncOptions,
+	): string | Uint8Array;
+	public toHashSync(
+		data: unknown,
+		options?: HasheryToHashSyncOptions,
+	): string | Uint8Array {
+		return this._hashSync(data, options).hash;
 	}
 
 	/**
@@ -457,7 +465,8 @@ export class Hashery extends Hookified {
 	 * This method uses the toHashSync function to create a consistent hash, then maps it to a number
 	 * between min and max (inclusive).
 	 *
-	 * Note: This method only works with synchronous hash providers (djb2, fnv1, murmur, crc32).
+	 * Note: This method only works with providers that implement `toHashSync`, which all
+	 * built-in providers do.
 	 *
 	 * @param data - The data to hash (will be stringified before hashing)
 	 * @param options - Configuration options (optional, defaults to min: 0, max: 100)
@@ -513,52 +522,1044 @@ export class Hashery extends Hookified {
 		return mapped;
 	}
 
-	public loadProviders(
-		providers?: Array<HashProvider>,
-		options: HasheryLoadProviderOptions = { includeBase: true },
-	): void {
-		if (providers) {
-			for (const provider of providers) {
-				this._providers.add(provider);
+	/**
+	 * Generates an HMAC of the provided data, e.g. to sign webhook payloads or cache keys.
+	 * The data is serialized like in `toHash`, and the toHmac hooks and the cache apply.
+	 *
+	 * The WebCrypto SHA algorithms sign with `crypto.subtle`. Any other provider with a
+	 * `blockSize` (SHA-224, SHA-512/256, SHA-3, BLAKE, MD5, RIPEMD-160) uses the generic
+	 * HMAC construction, so the result is the standard HMAC for that hash.
+	 *
+	 * If an invalid algorithm is provided, a 'warn' event is emitted and the method falls back
+	 * to the default algorithm.
+	 *
+	 * @param data - The data to sign (will be stringified before signing)
+	 * @param options - Configuration object
+	 * @param options.key - The secret key, strings are UTF-8 encoded
+	 * @param options.algorithm - The hash algorithm to use (defaults to 'SHA-256')
+	 * @param options.maxLength - Optional maximum length for the HMAC output
+	 * @returns A Promise that resolves to the hexadecimal string representation of the HMAC
+	 *
+	 * @throws {Error} If the key is empty
+	 * @throws {Error} If the provider does not define a block size
+	 * @throws {Error} If the default algorithm is not found
+	 *
+	 * @example
+	 * ```ts
+	 * const hashery = new Hashery();
+	 * const signature = await hashery.toHmac(body, {
+	 *   key: process.env.WEBHOOK_SECRET,
+	 *   input: 'raw',
+	 * });
+	 *
+	 * // Using a different algorithm
+	 * const mac = await hashery.toHmac({ id: 1 }, { key: secret, algorithm: 'SHA3-256' });
+	 * ```
+	 */
+	public toHmac(
+		data: unknown,
+		options: HasheryToHmacOptions & { encoding: "bytes" },
+	): Promise<Uint8Array>;
+	public toHmac(
+		data: unknown,
+		options: HasheryToHmacOptions & { encoding?: StringEncoding },
+	): Promise<string>;
+	public toHmac(
+		data: unknown,
+		options: HasheryToHmacOptions,
+	): Promise<string | Uint8Array>;
+	public async toHmac(
+		data: unknown,
+		options: HasheryToHmacOptions,
+	): Promise<string | Uint8Array> {
+		// Before hook - allows modification of input data and algorithm
+		const context = {
+			data,
+			algorithm: options.algorithm ?? this._defaultAlgorithm,
+			maxLength: options.maxLength,
+		};
+		await this.beforeHook("toHmac", context);
+
+		const key = toKeyBytes(options.key);
+		const serialized = this._serialize(context.data, options.input);
+
+		// Check cache first under the resolved provider name, the key is only stored as a fingerprint
+		const name = this._getProviderName(
+			context.algorithm,
+			this._defaultAlgorithm,
+		);
+		const cacheKey =
+			serialized.key === undefined
+				? undefined
+				: `hmac:${name}:${keyFingerprint(key)}:${serialized.key}`;
+		let hash =
+			this._cache.enabled && cacheKey !== undefined
+				? this._cache.get(cacheKey)
+				: undefined;
+
+		if (hash === undefined) {
+			const provider = this._getProvider(
+				context.algorithm,
+				this._defaultAlgorithm,
+			);
+			hash = await hmac(provider, key, serialized.bytes);
+
+			// Store the full HMAC in cache before truncation
+			if (this._cache.enabled && cacheKey !== undefined) {
+				this._cache.set(cacheKey, hash);
 			}
 		}
 
-		// load all the providers
-		if (options.includeBase) {
-			this.providers.add(new WebCrypto({ algorithm: "SHA-256" }));
-			this.providers.add(new WebCrypto({ algorithm: "SHA-384" }));
-			this.providers.add(new WebCrypto({ algorithm: "SHA-512" }));
-			this.providers.add(new CRC());
-			this.providers.add(new DJB2());
-			this.providers.add(new FNV1());
-			this.providers.add(new Murmur());
+		// Encode the HMAC and apply maxLength if specified
+		const encoded = truncateDigest(
+			encodeDigest(hash, options.encoding),
+			options.maxLength,
+		);
+
+		// After hook - allows modification/logging of result
+		const result = {
+			hash: encoded,
+			data: context.data,
+			algorithm: context.algorithm,
+		};
+		await this.afterHook("toHmac", result);
+
+		return result.hash;
+	}
+
+	/**
+	 * Generates an HMAC of the provided data synchronously, see `toHmac`. Unlike
+	 * `toHashSync` this defaults to the (cryptographic) `defaultAlgorithm`, and it always
+	 * uses the generic HMAC construction, which gives the same result as `crypto.subtle`.
+	 *
+	 * @param data - The data to sign (will be stringified before signing)
+	 * @param options - Configuration object
+	 * @param options.key - The secret key, strings are UTF-8 encoded
+	 * @param options.algorithm - The hash algorithm to use (defaults to 'SHA-256')
+	 * @param options.maxLength - Optional maximum length for the HMAC output
+	 * @returns The hexadecimal string representation of the HMAC
+	 *
+	 * @throws {Error} If the key is empty
+	 * @throws {Error} If the provider does not define a block size
+	 * @throws {Error} If the specified algorithm does not support synchronous hashing
+	 * @throws {Error} If the default algorithm is not found
+	 *
+	 * @example
+	 * ```ts
+	 * const hashery = new Hashery();
+	 * const cacheKey = hashery.toHmacSync({ userId: 42 }, { key: secret, maxLength: 32 });
+	 * ```
+	 */
+	public toHmacSync(
+		data: unknown,
+		options: HasheryToHmacSyncOptions & { encoding: "bytes" },
+	): Uint8Array;
+	public toHmacSync(
+		data: unknown,
+		options: HasheryToHmacSyncOptions & { encoding?: StringEncoding },
+	): string;
+	public toHmacSync(
+		data: unknown,
+		options: HasheryToHmacSyncOptions,
+	): string | Uint8Array;
+	public toHmacSync(
+		data: unknown,
+		options: HasheryToHmacSyncOptions,
+	): string | Uint8Array {
+		// Before hook - allows modification of input data and algorithm (synchronous/blocking)
+		const context = {
+			data,
+			algorithm: options.algorithm ?? this._defaultAlgorithm,
+			maxLength: options.maxLength,
+		};
+		this.hookSync("before:toHmacSync", context);
+
+		const key = toKeyBytes(options.key);
+		const serialized = this._serialize(context.data, options.input);
+
+		// Check cache first under the resolved provider name, the key is only stored as a fingerprint
+		const name = this._getProviderName(
+			context.algorithm,
+			this._defaultAlgorithm,
+		);
+		const cacheKey =
+			serialized.key === undefined
+				? undefined
+				: `hmac:${name}:${keyFingerprint(key)}:${serialized.key}`;
+		let hash =
+			this._cache.enabled && cacheKey !== undefined
+				? this._cache.get(cacheKey)
+				: undefined;
+
+		if (hash === undefined) {
+			const provider = this._getProvider(
+				context.algorithm,
+				this._defaultAlgorithm,
+			);
+			hash = hmacSync(provider, key, serialized.bytes);
+
+			// Store the full HMAC in cache before truncation
+			if (this._cache.enabled && cacheKey !== undefined) {
+				this._cache.set(cacheKey, hash);
+			}
 		}
+
+		// Encode the HMAC and apply maxLength if specified
+		const encoded = truncateDigest(
+			encodeDigest(hash, options.encoding),
+			options.maxLength,
+		);
+
+		// After hook - allows modification/logging of result (synchronous/blocking)
+		const result = {
+			hash: encoded,
+			data: context.data,
+			algorithm: context.algorithm,
+		};
+		this.hookSync("after:toHmacSync", result);
+
+		return result.hash;
 	}
-}
 
-// Types
-export type { CacheOptions } from "./cache.js";
-// Classes
-export { Cache } from "./cache.js";
-export { CRC } from "./providers/crc.js";
-export type { WebCryptoOptions } from "./providers/crypto.js";
-export { WebCrypto } from "./providers/crypto.js";
-export { DJB2 } from "./providers/djb2.js";
-export { FNV1 } from "./providers/fnv1.js";
-export { Murmur } from "./providers/murmur.js";
+	/**
+	 * Hashes the data like `toHash` and returns a Digest, which keeps the name of the algorithm
+	 * with the hash bytes. The toHash hooks and the cache apply.
+	 *
+	 * If an invalid algorithm is provided, a 'warn' event is emitted and the method falls back
+	 * to the default algorithm.
+	 *
+	 * @param data - The data to hash (will be stringified before hashing)
+	 * @param options - Optional configuration object
+	 * @param options.algorithm - The hash algorithm to use (defaults to 'SHA-256')
+	 * @returns A Promise that resolves to the Digest
+	 *
+	 * @throws {Error} If the default algorithm is not found
+	 *
+	 * @example
+	 * ```ts
+	 * const hashery = new Hashery();
+	 * const digest = await hashery.digest({ name: 'John' });
+	 * console.log(digest.toString()); // "SHA-256:..."
+	 *
+	 * // Constant-time comparison
+	 * const matches = digest.equals(await hashery.digest(received));
+	 * ```
+	 */
+	public async digest(
+		data: unknown,
+		options?: HasheryDigestOptions,
+	): Promise<Digest> {
+		const { hash, algorithm } = await this._hash(data, {
+			algorithm: options?.algorithm,
+			input: options?.input,
+		});
+
+		return Digest.fromHex(algorithm, hash as string);
+	}
+
+	/**
+	 * Hashes the data like `toHashSync` and returns a Digest, see `digest`.
+	 *
+	 * @param data - The data to hash (will be stringified before hashing)
+	 * @param options - Optional configuration object
+	 * @param options.algorithm - The hash algorithm to use (defaults to 'djb2')
+	 * @returns The Digest
+	 *
+	 * @throws {Error} If the specified algorithm does not support synchronous hashing
+	 * @throws {Error} If the default algorithm is not found
+	 *
+	 * @example
+	 * ```ts
+	 * const hashery = new Hashery();
+	 * const digest = hashery.digestSync({ name: 'John' }, { algorithm: 'murmur' });
+	 * console.log(digest.toString()); // "murmur:..."
+	 * ```
+	 */
+	public digestSync(data: unknown, options?: HasheryDigestSyncOptions): Digest {
+		const { hash, algorithm } = this._hashSync(data, {
+			algorithm: options?.algorithm,
+			input: options?.input,
+		});
+
+		return Digest.fromHex(algorithm, hash as string);
+	}
+
+	/**
+	 * Parses a self-describing digest string, as returned by `toHash` with the 'oci' or 'sri'
+	 * format. The algorithm prefix is resolved with `providers.get`, then compared with the
+	 * provider names without case and separators ('sha256' finds SHA-256, 'sha512_256' finds
+	 * SHA-512/256). `Digest.toString` output (`SHA-256:<hex>`) is read as 'oci'. The length of
+	 * the hash is checked against providers with `toHashSync`.
+	 *
+	 * @param value - The digest string, e.g. 'sha256:ba7816bf...' or 'sha256-ungWv48B...'
+	 * @returns The Digest, named after the matching provider
+	 *
+	 * @throws {Error} If the string is not a valid digest
+	 * @throws {Error} If no provider matches the algorithm prefix
+	 * @throws {Error} If the hash does not have the digest length of the provider
+	 *
+	 * @example
+	 * ```ts
+	 * const hashery = new Hashery();
+	 * const stored = await hashery.toHash(file, { input: 'raw', format: 'oci' });
+	 *
+	 * // Later, verify with the algorithm from the stored string
+	 * const expected = hashery.parseDigest(stored);
+	 * const actual = await hashery.digest(file, { algorithm: expected.algorithm, input: 'raw' });
+	 * console.log(actual.equals(expected)); // true
+	 * ```
+	 */
+	public parseDigest(value: string): Digest {
+		const parts = splitDigest(value);
+		if (!parts) {
+			throw new Error(
+				`Invalid digest '${value}'. Expected 'algorithm:hex' or 'algorithm-base64'.`,
+			);
+		}
+
+		const provider =
+			this._providers.get(parts.prefix) ??
+			[...this._providers.providers.values()].find((candidate) =>
+				matchesDigestPrefix(candidate.name, parts.prefix),
+			);
+		if (!provider) {
+			throw new Error(`Hash provider '${parts.prefix}' not found`);
+		}
+
+		// Hashing the empty input is cheap and gives the digest length of the provider
+		const hexLength = provider.toHashSync?.(new Uint8Array()).length;
+		if (hexLength !== undefined && parts.bytes.length * 2 !== hexLength) {
+			throw new Error(
+				`Invalid ${provider.name} digest '${value}'. Expected ${hexLength / 2} bytes, got ${parts.bytes.length}.`,
+			);
+		}
+
+		return new Digest(provider.name, parts.bytes);
+	}
+
+	/**
+	 * Hashes the data like `toHash` and returns a multihash: the varint multicodec code of the
+	 * algorithm, the varint digest length and the digest. Built-in providers with a code are
+	 * listed in `multihashCodes`, custom providers can set `multihashCode`.
+	 *
+	 * @param data - The data to hash (will be stringified before hashing)
+	 * @param options - Optional configuration object
+	 * @param options.algorithm - The hash algorithm to use (defaults to 'SHA-256')
+	 * @returns A Promise that resolves to the multihash bytes
+	 *
+	 * @throws {Error} If the algorithm has no multicodec code
+	 *
+	 * @example
+	 * ```ts
+	 * const hashery = new Hashery();
+	 * const multihash = await hashery.toMultihash('abc', { input: 'raw' });
+	 * console.log(multihash.subarray(0, 2)); // Uint8Array [0x12, 0x20], sha2-256 and 32 bytes
+	 * ```
+	 */
+	public async toMultihash(
+		data: unknown,
+		options?: HasheryToMultihashOptions,
+	): Promise<Uint8Array<ArrayBuffer>> {
+		const digest = await this.digest(data, options);
+		const code = this._getMultihashCode(digest.algorithm);
+		if (code === undefined) {
+			throw new Error(
+				`Hash provider '${digest.algorithm}' has no multihash code. Set 'multihashCode' on the provider or choose a different algorithm.`,
+			);
+		}
+
+		return encodeMultihash(code, digest.bytes);
+	}
+
+	/**
+	 * Parses a multihash into a Digest, named after the provider with its code.
+	 *
+	 * @param multihash - The multihash bytes
+	 * @returns The Digest
+	 *
+	 * @throws {Error} If the multihash is not valid
+	 * @throws {Error} If no provider has the multicodec code
+	 *
+	 * @example
+	 * ```ts
+	 * const hashery = new Hashery();
+	 * const digest = hashery.parseMultihash(multihash);
+	 * console.log(digest.algorithm); // "SHA-256"
+	 * ```
+	 */
+	public parseMultihash(multihash: Uint8Array): Digest {
+		const { code, digest } = decodeMultihash(multihash);
+		const name = this.names.find(
+			(name) => this._getMultihashCode(name) === code,
+		);
+		if (name === undefined) {
+			throw new Error(
+				`No hash provider has the multihash code 0x${code.toString(16)}`,
+			);
+		}
+
+		return new Digest(name, digest);
+	}
+
+	/**
+	 * Hashes the data and returns its CID (content identifier), as used by IPFS. The data is
+	 * hashed as a single block: with `input: 'raw'` and the default 'raw' codec the CID matches
+	 * `ipfs add --cid-version 1` for files up to the 256 KiB chunk size.
+	 *
+	 * @param data - The data to hash (will be stringified before hashing)
+	 * @param options - Optional configuration object
+	 * @param options.version - The CID version (defaults to 1)
+	 * @param options.codec - The content codec (defaults to 'raw')
+	 * @param options.algorithm - The hash algorithm to use (defaults to 'SHA-256')
+	 * @returns A Promise that resolves to the base32 CIDv1, or the base58 CIDv0
+	 *
+	 * @throws {Error} If the algorithm has no multicodec code
+	 * @throws {Error} If version 0 is used with another codec or algorithm than dag-pb and SHA-256
+	 *
+	 * @example
+	 * ```ts
+	 * const hashery = new Hashery();
+	 * const cid = await hashery.toCid('hello world', { input: 'raw' });
+	 * console.log(cid); // "bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e"
+	 * ```
+	 */
+	public async toCid(
+		data: unknown,
+		options?: HasheryToCidOptions,
+	): Promise<string> {
+		const codec = options?.codec ?? "raw";
+		const multihash = await this.toMultihash(data, options);
+
+		return encodeCid(
+			options?.version ?? 1,
+			typeof codec === "number" ? codec : cidCodecs[codec],
+			multihash,
+		);
+	}
+
+	/**
+	 * Parses a CIDv0 ('Qm...') or a base32 CIDv1 ('b...'), e.g. to verify content fetched
+	 * from IPFS against its CID.
+	 *
+	 * @param cid - The CID string
+	 * @returns The CID version, the content codec and the Digest of the content
+	 *
+	 * @throws {Error} If the CID is not valid or uses another multibase than base32
+	 * @throws {Error} If no provider has the multicodec code of its multihash
+	 *
+	 * @example
+	 * ```ts
+	 * const hashery = new Hashery();
+	 * const { digest } = hashery.parseCid(cid);
+	 * const actual = await hashery.digest(bytes, { algorithm: digest.algorithm, input: 'raw' });
+	 * console.log(actual.equals(digest)); // true
+	 * ```
+	 */
+	public parseCid(cid: string): ParsedCid {
+		const { version, codec, multihash } = decodeCid(cid);
+		return { version, codec, digest: this.parseMultihash(multihash) };
+	}
+
+	/**
+	 * Generates W3C Subresource Integrity metadata for the bytes of a file, for the
+	 * `integrity` attribute of script and link tags. Strings are UTF-8 encoded.
+	 *
+	 * @param data - The file contents
+	 * @param options - Optional configuration object
+	 * @param options.algorithms - The algorithms to hash with (defaults to ['SHA-384'])
+	 * @returns A Promise that resolves to the space-separated integrity metadata
+	 *
+	 * @throws {Error} If no algorithm is given or an algorithm is not SHA-256, SHA-384 or SHA-512
+	 *
+	 * @example
+	 * ```ts
+	 * const hashery = new Hashery();
+	 * const integrity = await hashery.toIntegrity(await fs.readFile('dist/app.js'), {
+	 *   algorithms: ['SHA-384', 'SHA-512'],
+	 * });
+	 * console.log(integrity); // "sha384-... sha512-..."
+	 * ```
+	 */
+	public async toIntegrity(
+		data: BufferSource | string,
+		options?: HasheryToIntegrityOptions,
+	): Promise<string> {
+		const algorithms = options?.algorithms ?? ["SHA-384"];
+		if (algorithms.length === 0) {
+			throw new Error("At least one integrity algorithm is required");
+		}
+
+		for (const algorithm of algorithms) {
+			if (!integrityAlgorithms.includes(algorithm)) {
+				throw new Error(
+					`Unsupported integrity algorithm '${algorithm}'. Use SHA-256, SHA-384 or SHA-512.`,
+				);
+			}
+		}
+
+		const hashes = await Promise.all(
+			algorithms.map((algorithm) =>
+				this.toHash(data, { algorithm, input: "raw", format: "sri" }),
+			),
+		);
+
+		return hashes.join(" ");
+	}
+
+	/**
+	 * Verifies the bytes of a file against W3C Subresource Integrity metadata. Like browsers,
+	 * only the hashes of the strongest algorithm in the metadata are checked, and the data
+	 * matches if it equals any of them. Hashes with unknown algorithms are ignored.
+	 *
+	 * Unlike browsers, which skip the check when no hash is usable, this throws, so a typo in
+	 * the metadata can't turn the verification off.
+	 *
+	 * @param data - The file contents, strings are UTF-8 encoded
+	 * @param integrity - The integrity metadata, e.g. 'sha384-oqVu... sha512-Q2bF...'
+	 * @returns A Promise that resolves to true if the data matches the metadata
+	 *
+	 * @throws {Error} If the metadata has no SHA-256, SHA-384 or SHA-512 hash
+	 *
+	 * @example
+	 * ```ts
+	 * const hashery = new Hashery();
+	 * const response = await fetch(url);
+	 * const bytes = new Uint8Array(await response.arrayBuffer());
+	 *
+	 * if (!(await hashery.verifyIntegrity(bytes, integrity))) {
+	 *   throw new Error(`Integrity check failed for ${url}`);
+	 * }
+	 * ```
+	 */
+	public async verifyIntegrity(
+		data: BufferSource | string,
+		integrity: string,
+	): Promise<boolean> {
+		const expected = getStrongestIntegrity(parseIntegrity(integrity));
+		if (expected.length === 0) {
+			throw new Error(
+				`Integrity metadata '${integrity}' has no supported hash. Expected 'sha256-', 'sha384-' or 'sha512-' followed by the base64 hash.`,
+			);
+		}
+
+		const actual = await this.digest(data, {
+			algorithm: expected[0].algorithm,
+			input: "raw",
+		});
+
+		return expected.some((digest) => digest.equals(actual));
+	}
+
+	/**
+	 * Creates an incremental hash for data that is too large to hold in memory at once.
+	 * Feed the data in chunks with `update` and read the hash with `digest`. The bytes are
+	 * hashed as-is, so the result matches `toHash(bytes, { input: 'raw' })` for the same bytes.
+	 *
+	 * Providers with incremental support (crc32, djb2, the fnv1 family, murmur, SHA-256, SHA-384,
+	 * SHA-512) hash each chunk as it arrives. Other providers buffer the chunks until `digest` is called.
+	 *
+	 * If an invalid algorithm is provided, a 'warn' event is emitted and the method falls back
+	 * to the default algorithm.
+	 *
+	 * @param algorithm - The hash algorithm to use (defaults to the default algorithm)
+	 * @returns An IncrementalHash with `update(chunk)` and `digest()` methods
+	 *
+	 * @throws {Error} If the default algorithm is not found
+	 *
+	 * @example
+	 * ```ts
+	 * const hashery = new Hashery();
+	 * const hash = hashery.createHash('SHA-256');
+	 *
+	 * for await (const chunk of fs.createReadStream('export.json')) {
+	 *   hash.update(chunk);
+	 * }
+	 *
+	 * console.log(await hash.digest());
+	 * ```
+	 */
+	public createHash(
+		algorithm: string = this._defaultAlgorithm,
+	): IncrementalHash {
+		const provider = this._getProvider(algorithm, this._defaultAlgorithm);
+		return new IncrementalHash(provider);
+	}
+
+	public loadProviders(
+		providers?: Array<HashProvider>,
+		options: HasheryLoadProviderOptions = { includeBase: true },
+	): void {
+		if (providers) {
+			for (const provider of providers) {
+				this._providers.add(provider);
+			}
+		}
+
+		// load all the providers
+		if (options.includeBase) {
+			this.providers.add(new WebCrypto({ algorithm: "SHA-1" }));
+			this.providers.add(new WebCrypto({ algorithm: "SHA-256" }));
+			this.providers.add(new WebCrypto({ algorithm: "SHA-384" }));
+			this.providers.add(new WebCrypto({ algorithm: "SHA-512" }));
+			this.providers.add(new SHA2({ algorithm: "SHA-224" }));
+			this.providers.add(new SHA2({ algorithm: "SHA-512/224" }));
+			this.providers.add(new SHA2({ algorithm: "SHA-512/256" }));
+			this.providers.add(new SHA3({ algorithm: "SHA3-224" }));
+			this.providers.add(new SHA3({ algorithm: "SHA3-256" }));
+			this.providers.add(new SHA3({ algorithm: "SHA3-384" }));
+			this.providers.add(new SHA3({ algorithm: "SHA3-512" }));
+			this.providers.add(new SHA3({ algorithm: "Keccak-256" }));
+			this.providers.add(new SHAKE128());
+			this.providers.add(new SHAKE256());
+			this.providers.add(new Blake2b());
+			this.providers.add(new Blake2b({ outputLength: 32 }));
+			this.providers.add(new Blake2s());
+			this.providers.add(new Blake3());
+			this.providers.add(new CRC());
+			this.providers.add(new CRC("crc32c"));
+			this.providers.add(new CRC("crc16-ccitt"));
+			this.providers.add(new CRC("crc16-kermit"));
+			this.providers.add(new CRC("crc16-modbus"));
+			this.providers.add(new CRC("crc64-ecma"));
+			this.providers.add(new CRC("crc64-xz"));
+			this.providers.add(new Adler32());
+			this.providers.add(new Fletcher16());
+			this.providers.add(new Fletcher32());
+			this.providers.add(new DJB2());
+			this.providers.add(new FNV1());
+			this.providers.add(new FNV1a());
+			this.providers.add(new FNV1_64());
+			this.providers.add(new FNV1a_64());
+			this.providers.add(new FNV1_128());
+			this.providers.add(new FNV1a_128());
+			this.providers.add(new Murmur());
+			this.providers.add(new Murmur128());
+			this.providers.add(new Murmur128x86());
+			this.providers.add(new XXH32());
+			this.providers.add(new XXH64());
+			this.providers.add(new XXH3());
+			this.providers.add(new XXH128());
+			this.providers.add(new SipHash24(this._siphashKey));
+			this.providers.add(new SipHash24(this._siphashKey, 128));
+			this.providers.add(new SipHash13(this._siphashKey));
+			this.providers.add(new SipHash13(this._siphashKey, 128));
+		}
+
+		if (options.includeLegacy) {
+			this.providers.add(new MD5());
+			this.providers.add(new RIPEMD160());
+		}
+	}
+
+	/**
+	 * Gets the provider for an algorithm. If it is not registered, a 'warn' event is emitted
+	 * and the provider of the fallback algorithm is returned.
+	 * @param algorithm - The requested algorithm
+	 * @param fallback - The algorithm to fall back to
+	 * @returns The hash provider
+	 * @throws {Error} If the fallback algorithm is not found either
+	 */
+	private _getProvider(algorithm: string, fallback: string): HashProvider {
+		const provider = this._providers.get(algorithm);
+		if (provider) {
+			return provider;
+		}
+
+		this.emit(
+			"warn",
+			`Invalid algorithm '${algorithm}' not found. Falling back to default algorithm '${fallback}'.`,
+		);
+
+		const fallbackProvider = this._providers.get(fallback);
+		if (!fallbackProvider) {
+			throw new Error(`Hash provider '${fallback}' (default) not found`);
+		}
+
+		return fallbackProvider;
+	}
+
+	/**
+	 * Hashes the data for `toHash` and `digest`.
+	 * @returns The encoded hash and the name of the provider that hashed it, after the hooks ran
+	 */
+	private async _hash(
+		data: unknown,
+		options?: HasheryToHashOptions,
+	): Promise<{ hash: string | Uint8Array; algorithm: string }> {
+		// Before hook - allows modification of input data and algorithm
+		const context = {
+			data,
+			algorithm: options?.algorithm ?? this._defaultAlgorithm,
+			maxLength: options?.maxLength,
+		};
+		await this.beforeHook("toHash", context);
+
+		// The provider the algorithm resolves to, which names the cache entry and the result
+		const name = this._getProviderName(
+			context.algorithm,
+			this._defaultAlgorithm,
+		);
+
+		// Serialize the data (or pass raw input through) into the bytes to hash
+		const serialized = this._serialize(context.data, options?.input);
+
+		// Check cache first
+		const cacheKey =
+			serialized.key === undefined ? undefined : `${name}:${serialized.key}`;
+		if (this._cache.enabled && cacheKey !== undefined) {
+			const cached = this._cache.get(cacheKey);
+			if (cached !== undefined) {
+				// Encode and apply maxLength if specified
+				const cachedHash = this._encodeHash(
+					cached,
+					context.algorithm,
+					this._defaultAlgorithm,
+					options,
+				);
+
+				// After hook - run even on cache hits for consistent behavior
+				const result = {
+					hash: cachedHash,
+					data: context.data,
+					algorithm: context.algorithm,
+				};
+				await this.afterHook("toHash", result);
+
+				return {
+					hash: result.hash,
+					algorithm: name,
+				};
+			}
+		}
+
+		// Get the provider for the specified algorithm, warning when it falls back to the default
+		const provider = this._getProvider(
+			context.algorithm,
+			this._defaultAlgorithm,
+		);
+
+		// Use the provider to hash the data
+		const hash = await provider.toHash(serialized.bytes);
+
+		// Store the full hash in cache before truncation
+		if (this._cache.enabled && cacheKey !== undefined) {
+			this._cache.set(cacheKey, hash);
+		}
+
+		// Encode the hash and apply maxLength if specified
+		const encoded = this._encodeHash(
+			hash,
+			context.algorithm,
+			this._defaultAlgorithm,
+			options,
+		);
+
+		// After hook - allows modification/logging of result
+		const result = {
+			hash: encoded,
+			data: context.data,
+			algorithm: context.algorithm,
+		};
+		await this.afterHook("toHash", result);
+
+		return {
+			hash: result.hash,
+			algorithm: name,
+		};
+	}
+
+	/**
+	 * Hashes the data for `toHashSync` and `digestSync`.
+	 * @returns The encoded hash and the name of the provider that hashed it, after the hooks ran
+	 */
+	private _hashSync(
+		data: unknown,
+		options?: HasheryToHashSyncOptions,
+	): { hash: string | Uint8Array; algorithm: string } {
+		// Before hook - allows modification of input data and algorithm (synchronous/blocking)
+		const context = {
+			data,
+			algorithm: options?.algorithm ?? this._defaultAlgorithmSync,
+			maxLength: options?.maxLength,
+		};
+		this.hookSync("before:toHashSync", context);
+
+		// Get algorithm from context (may have been modified by hook)
+		const algorithm = context.algorithm;
+
+		// The provider the algorithm resolves to, which names the cache entry and the result
+		const name = this._getProviderName(algorithm, this._defaultAlgorithmSync);
+
+		// Serialize the data (or pass raw input through) into the bytes to hash
+		const serialized = this._serialize(context.data, options?.input);
+
+		// Check cache first
+		const cacheKey =
+			serialized.key === undefined ? undefined : `${name}:${serialized.key}`;
+		if (this._cache.enabled && cacheKey !== undefined) {
+			const cached = this._cache.get(cacheKey);
+			if (cached !== undefined) {
+				// Encode and apply maxLength if specified
+				const cachedHash = this._encodeHash(
+					cached,
+					algorithm,
+					this._defaultAlgorithmSync,
+					options,
+				);
+
+				// After hook - run even on cache hits for consistent behavior
+				const result = {
+					hash: cachedHash,
+					data: context.data,
+					algorithm,
+				};
+				this.hookSync("after:toHashSync", result);
+
+				return {
+					hash: result.hash,
+					algorithm: name,
+				};
+			}
+		}
+
+		// Get the provider for the specified algorithm, or the default sync algorithm
+		const provider = this._getProvider(algorithm, this._defaultAlgorithmSync);
+
+		// Check if provider supports synchronous hashing
+		if (!provider.toHashSync) {
+			throw new Error(
+				`Hash provider '${algorithm}' does not support synchronous hashing. Use toHash() instead or choose a built-in algorithm, which all support synchronous hashing.`,
+			);
+		}
+
+		// Use the provider to hash the data synchronously
+		const hash = provider.toHashSync(serialized.bytes);
+
+		// Store the full hash in cache before truncation
+		if (this._cache.enabled && cacheKey !== undefined) {
+			this._cache.set(cacheKey, hash);
+		}
+
+		// Encode the hash and apply maxLength if specified
+		const encoded = this._encodeHash(
+			hash,
+			algorithm,
+			this._defaultAlgorithmSync,
+			options,
+		);
+
+		// After hook - allows modification/logging of result (synchronous/blocking)
+		const result = {
+			hash: encoded,
+			data: context.data,
+			algorithm: context.algorithm,
+		};
+		this.hookSync("after:toHashSync", result);
+
+		return {
+			hash: result.hash,
+			algorithm: name,
+		};
+	}
+
+	/**
+	 * Gets the name of the provider an algorithm resolves to, with fuzzy matching.
+	 * @param algorithm - The requested algorithm
+	 * @param fallback - The algorithm used when the requested one is not registered
+	 * @returns The provider name
+	 */
+	private _getProviderName(algorithm: string, fallback: string): string {
+		return this._providers.get(algorithm)?.name ?? fallback;
+	}
+
+	/**
+	 * Gets the multicodec code of a provider, from its `multihashCode` or `multihashCodes`.
+	 * @param name - The name of the provider
+	 * @returns The code, or undefined if the provider has none
+	 */
+	private _getMultihashCode(name: string): number | undefined {
+		return (
+			this._providers.providers.get(name)?.multihashCode ?? multihashCodes[name]
+		);
+	}
+
+	/**
+	 * Encodes a hex hash with the encoding, format and maxLength options.
+	 * @param hash - The hex hash from the provider or the cache
+	 * @param algorithm - The requested algorithm, named in the format prefix
+	 * @param fallback - The algorithm used when the requested one is not registered
+	 * @param options - The encoding, format and maxLength options
+	 * @returns The encoded hash
+	 * @throws {Error} If the format is combined with an encoding it does not use
+	 */
+	private _encodeHash(
+		hash: string,
+		algorithm: string,
+		fallback: string,
+		options?: {
+			encoding?: HashEncoding;
+			format?: DigestFormat;
+			maxLength?: number;
+		},
+	): string | Uint8Array {
+		if (!options?.format) {
+			return truncateDigest(
+				encodeDigest(hash, options?.encoding),
+				options?.maxLength,
+			);
+		}
+
+		const encoding = formatEncoding(options.format);
+		if (options.encoding && options.encoding !== encoding) {
+			throw new Error(
+				`The '${options.format}' format requires the '${encoding}' encoding`,
+			);
+		}
+
+		const name = this._getProviderName(algorithm, fallback);
+		const encoded = encodeDigest(hash, encoding) as string;
+		return formatDigest(
+			name,
+			truncateDigest(encoded, options.maxLength),
+			options.format,
+		);
+	}
+
+	/**
+	 * Converts data into the bytes handed to a hash provider, plus the key its hash is cached under.
+	 * In 'raw' input mode strings are UTF-8 encoded as-is and BufferSource values are passed
+	 * through untouched (binary input is not cached). Everything else is stringified.
+	 * @param data - The data to convert
+	 * @param input - The input mode (defaults to 'json')
+	 * @returns The bytes to hash and the cache key, if the result can be cached
+	 */
+	private _serialize(
+		data: unknown,
+		input: HashInputMode = "json",
+	): { bytes: BufferSource; key?: string } {
+		if (input === "raw") {
+			if (typeof data === "string") {
+				return { bytes: new TextEncoder().encode(data), key: `raw:${data}` };
+			}
+
+			if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+				return { bytes: data as BufferSource };
+			}
+		}
+
+		const stringified = this._stringify(data);
+		return { bytes: new TextEncoder().encode(stringified), key: stringified };
+	}
+}
+
+/**
+ * The encodings that return a string.
+ */
+type StringEncoding = Exclude<HashEncoding, "bytes">;
+
+/**
+ * Converts an HMAC key to bytes, strings are UTF-8 encoded.
+ */
+function toKeyBytes(key: string | BufferSource): Uint8Array<ArrayBuffer> {
+	return typeof key === "string"
+		? new TextEncoder().encode(key)
+		: toUint8Array(key);
+}
+
+/**
+ * Gets the SHA-256 of an HMAC key, so cached HMACs are told apart by key without
+ * keeping the secret in the cache.
+ */
+function keyFingerprint(key: Uint8Array<ArrayBuffer>): string {
+	return createSha2Hasher("SHA-256").update(key).digest();
+}
+
+// Types
+export type { CacheOptions } from "./cache.js";
+// Classes
+export { Cache } from "./cache.js";
+export { Digest } from "./digest.js";
+export { IncrementalHash } from "./incremental.js";
+export {
+	cidCodecs,
+	decodeCid,
+	decodeMultihash,
+	encodeCid,
+	encodeMultihash,
+	multihashCodes,
+} from "./multihash.js";
+export { Adler32 } from "./providers/adler32.js";
+export type { Blake2Options } from "./providers/blake2.js";
+export { Blake2b, Blake2s } from "./providers/blake2.js";
+export type { Blake3Options } from "./providers/blake3.js";
+export { Blake3 } from "./providers/blake3.js";
+export type { CRCOptions, CRCPreset } from "./providers/crc.js";
+export { CRC, crcPresets } from "./providers/crc.js";
+export type { WebCryptoOptions } from "./providers/crypto.js";
+export { WebCrypto } from "./providers/crypto.js";
+export { DJB2 } from "./providers/djb2.js";
+export { Fletcher16, Fletcher32 } from "./providers/fletcher.js";
+export {
+	FNV1,
+	FNV1_64,
+	FNV1_128,
+	FNV1a,
+	FNV1a_64,
+	FNV1a_128,
+} from "./providers/fnv1.js";
+export { MD5, RIPEMD160 } from "./providers/legacy.js";
+export { Murmur, Murmur128, Murmur128x86 } from "./providers/murmur.js";
+export type { SHA2Options, Sha2Algorithm } from "./providers/sha2.js";
+export { SHA2 } from "./providers/sha2.js";
+export type {
+	SHA3Algorithm,
+	SHA3Options,
+	SHAKEOptions,
+} from "./providers/sha3.js";
+export { SHA3, SHAKE, SHAKE128, SHAKE256 } from "./providers/sha3.js";
+export type { SipHashOptions } from "./providers/siphash.js";
+export { SipHash, SipHash13, SipHash24 } from "./providers/siphash.js";
+export { XXH3, XXH32, XXH64, XXH128 } from "./providers/xxhash.js";
 export { HashProviders } from "./providers.js";
+export { canonicalStringify } from "./serializers/canonical.js";
+export { canonicalize } from "./serializers/jcs.js";
+export type { ObjectHashOptions } from "./serializers/object-hash.js";
+export {
+	createObjectHashStringify,
+	objectHashStringify,
+} from "./serializers/object-hash.js";
+export { typedStringify } from "./serializers/typed.js";
+export { getSerializer } from "./serializers.js";
 export type {
+	CidCodec,
+	CompatMode,
+	DigestFormat,
 	HashAlgorithm,
+	HashEncoding,
+	Hasher,
+	HasheryDigestOptions,
+	HasheryDigestSyncOptions,
 	HasheryLoadProviderOptions,
 	HasheryOptions,
+	HasheryToCidOptions,
 	HasheryToHashOptions,
+	HasheryToHashStreamOptions,
 	HasheryToHashSyncOptions,
+	HasheryToHmacOptions,
+	HasheryToHmacSyncOptions,
+	HasheryToIntegrityOptions,
+	HasheryToMultihashOptions,
 	HasheryToNumberOptions,
 	HasheryToNumberSyncOptions,
+	HashInputMode,
 	HashProvider,
 	HashProvidersGetOptions,
 	HashProvidersOptions,
+	HashStreamSource,
+	IntegrityAlgorithm,
+	ParsedCid,
 	ParseFn,
+	SerializationMode,
 	StringifyFn,
 	WebCryptoHashAlgorithm,
 } from "./types.js";
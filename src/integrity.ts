@@ -0,0 +1,52 @@
+import { Digest } from "./digest.js";
+import { decodeBytes } from "./encoding.js";
+import type { IntegrityAlgorithm } from "./types.js";
+
+/**
+ * The hash algorithms of Subresource Integrity, weakest first.
+ */
+export const integrityAlgorithms: ReadonlyArray<IntegrityAlgorithm> = [
+	"SHA-256",
+	"SHA-384",
+	"SHA-512",
+];
+
+/**
+ * Parses W3C Subresource Integrity metadata, e.g. 'sha384-oqVu... sha512-Q2bF...'. Like
+ * browsers, hashes with an unknown algorithm or an invalid value are ignored, option
+ * expressions ('?...') are dropped and base64url values are accepted. A value is invalid
+ * when it is not base64 or doesn't decode to the digest length of its algorithm.
+ * @param integrity - The integrity metadata
+ * @returns The digests of the supported hashes
+ */
+export function parseIntegrity(integrity: string): Array<Digest> {
+	const digests: Array<Digest> = [];
+	for (const token of integrity.trim().split(/\s+/)) {
+		const match = /^sha(256|384|512)-([A-Za-z0-9+/_-]+={0,2})(?:\?.*)?$/i.exec(
+			token,
+		);
+		if (match) {
+			const base64 = match[2].replaceAll("-", "+").replaceAll("_", "/");
+			const bytes = decodeBytes(base64, "base64");
+			// A truncated digest can never match, so it must not count as the strongest hash
+			if (bytes && bytes.length * 8 === Number(match[1])) {
+				digests.push(new Digest(`SHA-${match[1]}`, bytes));
+			}
+		}
+	}
+
+	return digests;
+}
+
+/**
+ * Gets the digests of the strongest algorithm, as browsers only check those.
+ * @param digests - The parsed integrity digests
+ * @returns The digests with the strongest algorithm among them
+ */
+export function getStrongestIntegrity(digests: Array<Digest>): Array<Digest> {
+	const strength = (digest: Digest) =>
+		integrityAlgorithms.indexOf(digest.algorithm as IntegrityAlgorithm);
+	const strongest = Math.max(...digests.map(strength));
+
+	return digests.filter((digest) => strength(digest) === strongest);
+}
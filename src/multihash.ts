@@ -0,0 +1,204 @@
+import { decodeBytes, encodeBytes } from "./encoding.js";
+import type { CidCodec } from "./types.js";
+
+/**
+ * Multicodec codes of the built-in providers, see
+ * https://github.com/multiformats/multicodec/blob/master/table.csv
+ */
+export const multihashCodes: Readonly<Record<string, number>> = {
+	"SHA-1": 0x11,
+	"SHA-256": 0x12,
+	"SHA-512": 0x13,
+	"SHA-384": 0x20,
+	"SHA-224": 0x1013,
+	"SHA-512/224": 0x1014,
+	"SHA-512/256": 0x1015,
+	"SHA3-512": 0x14,
+	"SHA3-384": 0x15,
+	"SHA3-256": 0x16,
+	"SHA3-224": 0x17,
+	SHAKE128: 0x18,
+	SHAKE256: 0x19,
+	"Keccak-256": 0x1b,
+	blake3: 0x1e,
+	blake2b: 0xb240,
+	"blake2b-256": 0xb220,
+	blake2s: 0xb260,
+	md5: 0xd5,
+	ripemd160: 0x1053,
+	murmur: 0x23,
+	crc32: 0x0132,
+};
+
+/**
+ * Multicodec codes of the content types a CID can point to.
+ */
+export const cidCodecs: Readonly<Record<CidCodec, number>> = {
+	raw: 0x55,
+	json: 0x0200,
+	"dag-pb": 0x70,
+	"dag-cbor": 0x71,
+	"dag-json": 0x0129,
+};
+
+// murmur3-32 multihashes store the 32-bit hash little-endian, unlike the hex digest
+const LITTLE_ENDIAN_CODES = new Set([0x23]);
+
+const SHA2_256 = 0x12;
+const DAG_PB = 0x70;
+
+/**
+ * Encodes a digest as a multihash: the varint code, the varint digest length and the digest.
+ * @param code - The multicodec code of the hash function
+ * @param digest - The digest bytes, in the byte order of the hex digest
+ * @returns The multihash bytes
+ */
+export function encodeMultihash(
+	code: number,
+	digest: Uint8Array,
+): Uint8Array<ArrayBuffer> {
+	const bytes = LITTLE_ENDIAN_CODES.has(code)
+		? digest.slice().reverse()
+		: digest;
+	return concat(encodeVarint(code), encodeVarint(bytes.length), bytes);
+}
+
+/**
+ * Decodes a multihash into its code and digest.
+ * @param multihash - The multihash bytes
+ * @returns The multicodec code and the digest bytes, in the byte order of the hex digest
+ * @throws {Error} If the multihash is truncated or has bytes after the digest
+ */
+export function decodeMultihash(multihash: Uint8Array): {
+	code: number;
+	digest: Uint8Array<ArrayBuffer>;
+} {
+	const [code, codeLength] = decodeVarint(multihash, 0);
+	const [length, lengthLength] = decodeVarint(multihash, codeLength);
+	const offset = codeLength + lengthLength;
+	if (multihash.length !== offset + length) {
+		throw new Error(
+			`Invalid multihash: expected a ${length}-byte digest, got ${multihash.length - offset} bytes`,
+		);
+	}
+
+	const digest = multihash.slice(offset);
+	return {
+		code,
+		digest: LITTLE_ENDIAN_CODES.has(code) ? digest.reverse() : digest,
+	};
+}
+
+/**
+ * Encodes a CID. Version 1 is the multibase base32 string ('b' prefix) of the version, the
+ * content codec and the multihash. Version 0 is the base58 multihash and only supports
+ * SHA-256 dag-pb content.
+ * @param version - The CID version, 0 or 1
+ * @param codec - The multicodec code of the content
+ * @param multihash - The multihash of the content
+ * @returns The CID string
+ * @throws {Error} If version 0 is used with another codec or hash function than dag-pb and SHA-256
+ */
+export function encodeCid(
+	version: 0 | 1,
+	codec: number,
+	multihash: Uint8Array<ArrayBuffer>,
+): string {
+	if (version === 0) {
+		if (codec !== DAG_PB || decodeMultihash(multihash).code !== SHA2_256) {
+			throw new Error(
+				"CIDv0 only supports the dag-pb codec with SHA-256. Use version 1 instead.",
+			);
+		}
+
+		return encodeBytes(multihash, "base58") as string;
+	}
+
+	const bytes = concat(encodeVarint(1), encodeVarint(codec), multihash);
+	return `b${encodeBytes(bytes, "base32")}`;
+}
+
+/**
+ * Decodes a CIDv0 ('Qm...') or a base32 CIDv1 ('b...').
+ * @param cid - The CID string
+ * @returns The version, the content codec and the multihash
+ * @throws {Error} If the CID is not valid or not base32 encoded
+ */
+export function decodeCid(cid: string): {
+	version: 0 | 1;
+	codec: number;
+	multihash: Uint8Array<ArrayBuffer>;
+} {
+	if (cid.length === 46 && cid.startsWith("Qm")) {
+		const multihash = decodeBytes(cid, "base58");
+		if (multihash) {
+			return { version: 0, codec: DAG_PB, multihash };
+		}
+	}
+
+	const bytes = cid.startsWith("b")
+		? decodeBytes(cid.substring(1), "base32")
+		: undefined;
+	if (!bytes) {
+		throw new Error(
+			`Invalid CID '${cid}'. Expected a CIDv0 or a base32 CIDv1 starting with 'b'.`,
+		);
+	}
+
+	const [version, versionLength] = decodeVarint(bytes, 0);
+	if (version !== 1) {
+		throw new Error(`Unsupported CID version ${version}`);
+	}
+
+	const [codec, codecLength] = decodeVarint(bytes, versionLength);
+	return {
+		version,
+		codec,
+		multihash: bytes.slice(versionLength + codecLength),
+	};
+}
+
+/**
+ * Encodes an unsigned integer as an unsigned LEB128 varint, as used by multiformats.
+ */
+function encodeVarint(value: number): Uint8Array<ArrayBuffer> {
+	const bytes: Array<number> = [];
+	while (value >= 0x80) {
+		bytes.push((value & 0x7f) | 0x80);
+		value = Math.floor(value / 128);
+	}
+
+	bytes.push(value);
+	return new Uint8Array(bytes);
+}
+
+/**
+ * Decodes an unsigned varint.
+ * @returns The value and the number of bytes read
+ * @throws {Error} If the varint is truncated or longer than 7 bytes
+ */
+function decodeVarint(bytes: Uint8Array, offset: number): [number, number] {
+	let value = 0;
+	for (let i = 0; i < 7 && offset + i < bytes.length; i++) {
+		const byte = bytes[offset + i];
+		value += (byte & 0x7f) * 2 ** (7 * i);
+		if (byte < 0x80) {
+			return [value, i + 1];
+		}
+	}
+
+	throw new Error("Invalid varint: truncated or too long");
+}
+
+function concat(...parts: Array<Uint8Array>): Uint8Array<ArrayBuffer> {
+	const result = new Uint8Array(
+		parts.reduce((length, part) => length + part.length, 0),
+	);
+	let offset = 0;
+	for (const part of parts) {
+		result.set(part, offset);
+		offset += part.length;
+	}
+
+	return result;
+}
@@ -0,0 +1,142 @@
+import type { Hasher, HashProvider } from "../types.ts";
+import { toUint8Array } from "../utils.js";
+
+/**
+ * The largest prime smaller than 65536.
+ */
+const BASE = 65521;
+
+/**
+ * The largest number of bytes that can be summed before the sums have to be reduced,
+ * matching zlib's NMAX so the sums stay within 32 bits.
+ */
+const NMAX = 5552;
+
+/**
+ * Adler-32 checksum implementation, as used by zlib and PNG.
+ *
+ * Adler-32 was designed by Mark Adler. It is faster than CRC-32 but weaker for short inputs,
+ * which makes it a good fit for lightweight integrity checks. NOT for cryptographic purposes.
+ *
+ * Algorithm: A = 1 + sum of bytes, B = sum of A after each byte (both modulo 65521),
+ * checksum = B * 65536 + A
+ *
+ * @example
+ * ```typescript
+ * import { Adler32 } from 'hashery';
+ *
+ * const adler32 = new Adler32();
+ * adler32.toHashSync(new TextEncoder().encode('Wikipedia')); // "11e60398"
+ * ```
+ */
+export class Adler32 implements HashProvider {
+	/**
+	 * The name identifier for this hash provider.
+	 */
+	public get name(): string {
+		return "adler32";
+	}
+
+	/**
+	 * Computes the Adler-32 checksum of the provided data synchronously.
+	 *
+	 * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+	 * @returns An 8-character lowercase hexadecimal string
+	 */
+	public toHashSync(data: BufferSource): string {
+		return this.createHasher().update(data).digest();
+	}
+
+	/**
+	 * Computes the Adler-32 checksum of the provided data.
+	 *
+	 * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+	 * @returns A Promise resolving to an 8-character lowercase hexadecimal string
+	 */
+	public async toHash(data: BufferSource): Promise<string> {
+		return this.toHashSync(data);
+	}
+
+	/**
+	 * Creates an incremental Adler-32 hasher, so large data can be hashed in chunks.
+	 *
+	 * @returns A hasher that can be fed data in chunks
+	 */
+	public createHasher(): Hasher {
+		return new Adler32Hasher();
+	}
+
+	/**
+	 * Combines the checksums of two adjacent chunks into the checksum of both chunks,
+	 * without access to the data, like zlib's `adler32_combine`.
+	 *
+	 * @param checksum1 - The Adler-32 checksum of the first chunk
+	 * @param checksum2 - The Adler-32 checksum of the second chunk
+	 * @param length2 - The length of the second chunk in bytes
+	 * @returns The Adler-32 checksum of the first chunk followed by the second
+	 *
+	 * @example
+	 * ```typescript
+	 * const adler32 = new Adler32();
+	 * const a = adler32.toHashSync(new TextEncoder().encode('Wiki'));
+	 * const b = adler32.toHashSync(new TextEncoder().encode('pedia'));
+	 * Adler32.combine(a, b, 5); // "11e60398"
+	 * ```
+	 */
+	public static combine(
+		checksum1: string,
+		checksum2: string,
+		length2: number,
+	): string {
+		const adler1 = Number.parseInt(checksum1, 16);
+		const adler2 = Number.parseInt(checksum2, 16);
+		const a1 = adler1 & 0xffff;
+		const remainder = length2 % BASE;
+
+		// Every A of the second chunk is offset by the first chunk's A minus its initial 1,
+		// and B sums one A per byte of the second chunk
+		const a = (a1 + (adler2 & 0xffff) + BASE - 1) % BASE;
+		const b =
+			((adler1 >>> 16) +
+				(adler2 >>> 16) +
+				((remainder * (a1 + BASE - 1)) % BASE)) %
+			BASE;
+
+		return format(a, b);
+	}
+}
+
+class Adler32Hasher implements Hasher {
+	private _a = 1;
+	private _b = 0;
+
+	public update(data: BufferSource): Hasher {
+		const bytes = toUint8Array(data);
+		let a = this._a;
+		let b = this._b;
+
+		// Only reduce the sums once per NMAX bytes, which is what makes Adler-32 fast
+		for (let start = 0; start < bytes.length; start += NMAX) {
+			const end = Math.min(start + NMAX, bytes.length);
+			for (let i = start; i < end; i++) {
+				a += bytes[i];
+				b += a;
+			}
+
+			a %= BASE;
+			b %= BASE;
+		}
+
+		this._a = a;
+		this._b = b;
+		return this;
+	}
+
+	public digest(): string {
+		return format(this._a, this._b);
+	}
+}
+
+function format(a: number, b: number): string {
+	return (((b << 16) | a) >>> 0).toString(16).padStart(8, "0");
+}
@@ -0,0 +1,581 @@
+import type { Hasher, HashProvider } from "../types.ts";
+import { toHex, toUint8Array } from "../utils.js";
+
+/**
+ * Options for the BLAKE2b and BLAKE2s providers. Byte lengths are given as
+ * BLAKE2b / BLAKE2s limits.
+ */
+export type Blake2Options = {
+	/**
+	 * Digest length in bytes, 1-64 / 1-32. Defaults to the maximum (64 / 32).
+	 * The digest length is part of the parameter block, so a shorter digest is not
+	 * a truncated longer one.
+	 */
+	outputLength?: number;
+
+	/**
+	 * Key for keyed hashing (a MAC), 1-64 / 1-32 bytes.
+	 */
+	key?: BufferSource;
+
+	/**
+	 * Salt, up to 16 / 8 bytes. Shorter salts are zero padded.
+	 */
+	salt?: BufferSource;
+
+	/**
+	 * Personalization string, up to 16 / 8 bytes. Shorter values are zero padded.
+	 */
+	personalization?: BufferSource;
+};
+
+// Same as the SHA-512 initial hash values, as little-endian [low, high] word pairs
+const IV2B = new Uint32Array([
+	0xf3bcc908, 0x6a09e667, 0x84caa73b, 0xbb67ae85, 0xfe94f82b, 0x3c6ef372,
+	0x5f1d36f1, 0xa54ff53a, 0xade682d1, 0x510e527f, 0x2b3e6c1f, 0x9b05688c,
+	0xfb41bd6b, 0x1f83d9ab, 0x137e2179, 0x5be0cd19,
+]);
+
+// Same as the SHA-256 initial hash values
+const IV2S = new Uint32Array([
+	0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c,
+	0x1f83d9ab, 0x5be0cd19,
+]);
+
+// Message word permutations, BLAKE2b uses the first two again for rounds 11 and 12
+const SIGMA = [
+	[0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
+	[14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3],
+	[11, 8, 12, 0, 5, 2, 15, 13, 10, 14, 3, 6, 7, 1, 9, 4],
+	[7, 9, 3, 1, 13, 12, 11, 14, 2, 6, 5, 10, 4, 0, 15, 8],
+	[9, 0, 5, 7, 2, 4, 10, 15, 14, 1, 11, 12, 6, 8, 3, 13],
+	[2, 12, 6, 10, 0, 11, 8, 3, 4, 13, 7, 5, 15, 14, 1, 9],
+	[12, 5, 1, 15, 14, 13, 4, 10, 0, 7, 6, 3, 9, 2, 8, 11],
+	[13, 11, 7, 14, 12, 1, 3, 9, 5, 0, 15, 4, 8, 6, 2, 10],
+	[6, 15, 14, 9, 11, 3, 0, 8, 12, 2, 13, 7, 1, 4, 10, 5],
+	[10, 2, 8, 4, 7, 6, 1, 5, 15, 11, 9, 14, 3, 12, 13, 0],
+];
+
+/**
+ * Byte limits of a BLAKE2 variant.
+ */
+type Blake2Limits = {
+	outputLength: number;
+	saltLength: number;
+};
+
+/**
+ * BLAKE2b hash algorithm implementation (RFC 7693).
+ *
+ * BLAKE2b is a cryptographic hash function optimized for 64-bit platforms. It is faster
+ * than SHA-2 while being at least as secure, and supports keyed hashing (a MAC without
+ * HMAC), salts and personalization. Digests are 1 to 64 bytes long.
+ *
+ * The provider name is 'blake2b' for 64-byte digests and 'blake2b-<bits>' otherwise
+ * (e.g. 'blake2b-256').
+ *
+ * @example
+ * ```typescript
+ * import { Blake2b } from 'hashery';
+ *
+ * const blake2b = new Blake2b({ outputLength: 32 });
+ * blake2b.toHashSync(new TextEncoder().encode('abc'));
+ * // "bddd813c634239723171ef3fee98579b94964e3bb1cb3e427262c8c068d52319"
+ * ```
+ */
+export class Blake2b implements HashProvider {
+	private readonly _options: ResolvedBlake2Options;
+
+	/**
+	 * Creates a new BLAKE2b instance.
+	 *
+	 * @param options - Digest length, key, salt and personalization
+	 * @throws {Error} If a length is out of range
+	 */
+	constructor(options?: Blake2Options) {
+		this._options = resolveOptions(options, "BLAKE2b", {
+			outputLength: 64,
+			saltLength: 16,
+		});
+	}
+
+	/**
+	 * The name identifier for this hash provider.
+	 */
+	public get name(): string {
+		const { outputLength } = this._options;
+		return outputLength === 64 ? "blake2b" : `blake2b-${outputLength * 8}`;
+	}
+
+	/**
+	 * Gets the digest length in bytes.
+	 */
+	public get outputLength(): number {
+		return this._options.outputLength;
+	}
+
+	/**
+	 * Gets the block size in bytes.
+	 */
+	public get blockSize(): number {
+		return 128;
+	}
+
+	/**
+	 * Computes the BLAKE2b hash of the provided data synchronously.
+	 *
+	 * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+	 * @returns A lowercase hexadecimal string of twice the digest length
+	 */
+	public toHashSync(data: BufferSource): string {
+		return this.createHasher().update(data).digest();
+	}
+
+	/**
+	 * Computes the BLAKE2b hash of the provided data.
+	 *
+	 * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+	 * @returns A Promise resolving to a lowercase hexadecimal string
+	 */
+	public async toHash(data: BufferSource): Promise<string> {
+		return this.toHashSync(data);
+	}
+
+	/**
+	 * Creates an incremental BLAKE2b hasher, so large data can be hashed in chunks.
+	 *
+	 * @returns A hasher that can be fed data in chunks
+	 */
+	public createHasher(): Hasher {
+		return new Blake2bHasher(this._options);
+	}
+}
+
+/**
+ * BLAKE2s hash algorithm implementation (RFC 7693).
+ *
+ * BLAKE2s is the 32-bit sibling of BLAKE2b, optimized for 8 to 32-bit platforms and
+ * small inputs. It supports keyed hashing, salts and personalization. Digests are
+ * 1 to 32 bytes long.
+ *
+ * The provider name is 'blake2s' for 32-byte digests and 'blake2s-<bits>' otherwise
+ * (e.g. 'blake2s-128').
+ *
+ * @example
+ * ```typescript
+ * import { Blake2s } from 'hashery';
+ *
+ * const blake2s = new Blake2s();
+ * blake2s.toHashSync(new TextEncoder().encode('abc'));
+ * // "508c5e8c327c14e2e1a72ba34eeb452f37458b209ed63a294d999b4c86675982"
+ * ```
+ */
+export class Blake2s implements HashProvider {
+	private readonly _options: ResolvedBlake2Options;
+
+	/**
+	 * Creates a new BLAKE2s instance.
+	 *
+	 * @param options - Digest length, key, salt and personalization
+	 * @throws {Error} If a length is out of range
+	 */
+	constructor(options?: Blake2Options) {
+		this._options = resolveOptions(options, "BLAKE2s", {
+			outputLength: 32,
+			saltLength: 8,
+		});
+	}
+
+	/**
+	 * The name identifier for this hash provider.
+	 */
+	public get name(): string {
+		const { outputLength } = this._options;
+		return outputLength === 32 ? "blake2s" : `blake2s-${outputLength * 8}`;
+	}
+
+	/**
+	 * Gets the digest length in bytes.
+	 */
+	public get outputLength(): number {
+		return this._options.outputLength;
+	}
+
+	/**
+	 * Gets the block size in bytes.
+	 */
+	public get blockSize(): number {
+		return 64;
+	}
+
+	/**
+	 * Computes the BLAKE2s hash of the provided data synchronously.
+	 *
+	 * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+	 * @returns A lowercase hexadecimal string of twice the digest length
+	 */
+	public toHashSync(data: BufferSource): string {
+		return this.createHasher().update(data).digest();
+	}
+
+	/**
+	 * Computes the BLAKE2s hash of the provided data.
+	 *
+	 * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+	 * @returns A Promise resolving to a lowercase hexadecimal string
+	 */
+	public async toHash(data: BufferSource): Promise<string> {
+		return this.toHashSync(data);
+	}
+
+	/**
+	 * Creates an incremental BLAKE2s hasher, so large data can be hashed in chunks.
+	 *
+	 * @returns A hasher that can be fed data in chunks
+	 */
+	public createHasher(): Hasher {
+		return new Blake2sHasher(this._options);
+	}
+}
+
+type ResolvedBlake2Options = {
+	outputLength: number;
+	key: Uint8Array;
+	salt: Uint8Array;
+	personalization: Uint8Array;
+};
+
+function resolveOptions(
+	options: Blake2Options | undefined,
+	algorithm: string,
+	limits: Blake2Limits,
+): ResolvedBlake2Options {
+	const outputLength = options?.outputLength ?? limits.outputLength;
+	if (
+		!Number.isInteger(outputLength) ||
+		outputLength < 1 ||
+		outputLength > limits.outputLength
+	) {
+		throw new Error(
+			`${algorithm} output length must be between 1 and ${limits.outputLength} bytes, got ${outputLength}`,
+		);
+	}
+
+	// Copy the key so later changes to the caller's buffer do not change the hashes
+	const key = options?.key
+		? toUint8Array(options.key).slice()
+		: new Uint8Array(0);
+	if (key.length > limits.outputLength) {
+		throw new Error(
+			`${algorithm} key must be at most ${limits.outputLength} bytes, got ${key.length}`,
+		);
+	}
+
+	return {
+		outputLength,
+		key,
+		salt: padParameter(options?.salt, "salt", algorithm, limits.saltLength),
+		personalization: padParameter(
+			options?.personalization,
+			"personalization",
+			algorithm,
+			limits.saltLength,
+		),
+	};
+}
+
+function padParameter(
+	value: BufferSource | undefined,
+	parameter: string,
+	algorithm: string,
+	length: number,
+): Uint8Array {
+	const padded = new Uint8Array(length);
+	if (value) {
+		const bytes = toUint8Array(value);
+		if (bytes.length > length) {
+			throw new Error(
+				`${algorithm} ${parameter} must be at most ${length} bytes, got ${bytes.length}`,
+			);
+		}
+
+		padded.set(bytes);
+	}
+
+	return padded;
+}
+
+/**
+ * Block buffering shared by BLAKE2b and BLAKE2s. Unlike SHA-2 there is no padding, instead
+ * the last block is compressed with a finalization flag, so a full block is only
+ * compressed once more data arrives.
+ */
+abstract class Blake2Hasher implements Hasher {
+	protected readonly _block: Uint8Array;
+	protected readonly _view: DataView;
+	protected _length = 0;
+	private readonly _outputLength: number;
+	private _blockLength = 0;
+
+	constructor(blockSize: number, options: ResolvedBlake2Options) {
+		this._block = new Uint8Array(blockSize);
+		this._view = new DataView(this._block.buffer);
+		this._outputLength = options.outputLength;
+
+		// A key is processed as a full first block
+		if (options.key.length > 0) {
+			this._block.set(options.key);
+			this._blockLength = blockSize;
+		}
+	}
+
+	public update(data: BufferSource): Hasher {
+		const bytes = toUint8Array(data);
+		const blockSize = this._block.length;
+
+		for (let offset = 0; offset < bytes.length; ) {
+			if (this._blockLength === blockSize) {
+				this._length += blockSize;
+				this._compress(false);
+				this._blockLength = 0;
+			}
+
+			const take = Math.min(
+				blockSize - this._blockLength,
+				bytes.length - offset,
+			);
+			this._block.set(bytes.subarray(offset, offset + take), this._blockLength);
+			this._blockLength += take;
+			offset += take;
+		}
+
+		return this;
+	}
+
+	public digest(): string {
+		this._block.fill(0, this._blockLength);
+		this._length += this._blockLength;
+		this._compress(true);
+
+		return toHex(this._output().subarray(0, this._outputLength));
+	}
+
+	/**
+	 * Processes the current block. `_length` holds the number of bytes hashed so far,
+	 * including the block.
+	 */
+	protected abstract _compress(last: boolean): void;
+
+	/**
+	 * Gets the state as little-endian bytes.
+	 */
+	protected abstract _output(): Uint8Array;
+}
+
+class Blake2bHasher extends Blake2Hasher {
+	// State and working vector as [low, high] word pairs
+	private readonly _h = new Uint32Array(16);
+	private readonly _v = new Uint32Array(32);
+	private readonly _m = new Uint32Array(32);
+
+	constructor(options: ResolvedBlake2Options) {
+		super(128, options);
+		this._h.set(IV2B);
+		this._h[0] ^= 0x01010000 ^ (options.key.length << 8) ^ options.outputLength;
+
+		const salt = new DataView(options.salt.buffer);
+		const personalization = new DataView(options.personalization.buffer);
+		for (let i = 0; i < 4; i++) {
+			this._h[8 + i] ^= salt.getUint32(i * 4, true);
+			this._h[12 + i] ^= personalization.getUint32(i * 4, true);
+		}
+	}
+
+	protected _compress(last: boolean): void {
+		const v = this._v;
+		const m = this._m;
+		const h = this._h;
+
+		for (let i = 0; i < 32; i++) {
+			m[i] = this._view.getUint32(i * 4, true);
+		}
+
+		v.set(h);
+		v.set(IV2B, 16);
+		// The byte counter is 128 bits, lengths beyond 2^53 are not supported
+		v[24] ^= this._length >>> 0;
+		v[25] ^= Math.floor(this._length / 0x100000000);
+		if (last) {
+			v[28] = ~v[28];
+			v[29] = ~v[29];
+		}
+
+		for (let round = 0; round < 12; round++) {
+			const s = SIGMA[round % 10];
+			blake2bMix(v, m, 0, 8, 16, 24, s[0], s[1]);
+			blake2bMix(v, m, 2, 10, 18, 26, s[2], s[3]);
+			blake2bMix(v, m, 4, 12, 20, 28, s[4], s[5]);
+			blake2bMix(v, m, 6, 14, 22, 30, s[6], s[7]);
+			blake2bMix(v, m, 0, 10, 20, 30, s[8], s[9]);
+			blake2bMix(v, m, 2, 12, 22, 24, s[10], s[11]);
+			blake2bMix(v, m, 4, 14, 16, 26, s[12], s[13]);
+			blake2bMix(v, m, 6, 8, 18, 28, s[14], s[15]);
+		}
+
+		for (let i = 0; i < 16; i++) {
+			h[i] ^= v[i] ^ v[i + 16];
+		}
+	}
+
+	protected _output(): Uint8Array {
+		return littleEndianBytes(this._h);
+	}
+}
+
+class Blake2sHasher extends Blake2Hasher {
+	private readonly _h = new Uint32Array(8);
+	private readonly _v = new Uint32Array(16);
+	private readonly _m = new Uint32Array(16);
+
+	constructor(options: ResolvedBlake2Options) {
+		super(64, options);
+		this._h.set(IV2S);
+		this._h[0] ^= 0x01010000 ^ (options.key.length << 8) ^ options.outputLength;
+
+		const salt = new DataView(options.salt.buffer);
+		const personalization = new DataView(options.personalization.buffer);
+		for (let i = 0; i < 2; i++) {
+			this._h[4 + i] ^= salt.getUint32(i * 4, true);
+			this._h[6 + i] ^= personalization.getUint32(i * 4, true);
+		}
+	}
+
+	protected _compress(last: boolean): void {
+		const v = this._v;
+		const m = this._m;
+		const h = this._h;
+
+		for (let i = 0; i < 16; i++) {
+			m[i] = this._view.getUint32(i * 4, true);
+		}
+
+		v.set(h);
+		v.set(IV2S, 8);
+		// The byte counter is 64 bits, lengths beyond 2^53 are not supported
+		v[12] ^= this._length >>> 0;
+		v[13] ^= Math.floor(this._length / 0x100000000);
+		if (last) {
+			v[14] = ~v[14];
+		}
+
+		for (let round = 0; round < 10; round++) {
+			const s = SIGMA[round];
+			blake2sMix(v, 0, 4, 8, 12, m[s[0]], m[s[1]]);
+			blake2sMix(v, 1, 5, 9, 13, m[s[2]], m[s[3]]);
+			blake2sMix(v, 2, 6, 10, 14, m[s[4]], m[s[5]]);
+			blake2sMix(v, 3, 7, 11, 15, m[s[6]], m[s[7]]);
+			blake2sMix(v, 0, 5, 10, 15, m[s[8]], m[s[9]]);
+			blake2sMix(v, 1, 6, 11, 12, m[s[10]], m[s[11]]);
+			blake2sMix(v, 2, 7, 8, 13, m[s[12]], m[s[13]]);
+			blake2sMix(v, 3, 4, 9, 14, m[s[14]], m[s[15]]);
+		}
+
+		for (let i = 0; i < 8; i++) {
+			h[i] ^= v[i] ^ v[i + 8];
+		}
+	}
+
+	protected _output(): Uint8Array {
+		return littleEndianBytes(this._h);
+	}
+}
+
+/**
+ * The BLAKE2b G function on [low, high] word pairs. a, b, c and d are indexes of
+ * word pairs in v, x and y are the indexes of the message words.
+ */
+function blake2bMix(
+	v: Uint32Array,
+	m: Uint32Array,
+	a: number,
+	b: number,
+	c: number,
+	d: number,
+	x: number,
+	y: number,
+): void {
+	add64(v, a, v[b], v[b + 1]);
+	add64(v, a, m[x * 2], m[x * 2 + 1]);
+	// d = (d ^ a) >>> 32
+	let low = v[d] ^ v[a];
+	let high = v[d + 1] ^ v[a + 1];
+	v[d] = high;
+	v[d + 1] = low;
+
+	add64(v, c, v[d], v[d + 1]);
+	// b = (b ^ c) >>> 24
+	low = v[b] ^ v[c];
+	high = v[b + 1] ^ v[c + 1];
+	v[b] = (low >>> 24) | (high << 8);
+	v[b + 1] = (high >>> 24) | (low << 8);
+
+	add64(v, a, v[b], v[b + 1]);
+	add64(v, a, m[y * 2], m[y * 2 + 1]);
+	// d = (d ^ a) >>> 16
+	low = v[d] ^ v[a];
+	high = v[d + 1] ^ v[a + 1];
+	v[d] = (low >>> 16) | (high << 16);
+	v[d + 1] = (high >>> 16) | (low << 16);
+
+	add64(v, c, v[d], v[d + 1]);
+	// b = (b ^ c) >>> 63, which is a left rotation by 1
+	low = v[b] ^ v[c];
+	high = v[b + 1] ^ v[c + 1];
+	v[b] = (high >>> 31) | (low << 1);
+	v[b + 1] = (low >>> 31) | (high << 1);
+}
+
+/**
+ * The BLAKE2s G function. a, b, c and d are indexes of words in v.
+ */
+function blake2sMix(
+	v: Uint32Array,
+	a: number,
+	b: number,
+	c: number,
+	d: number,
+	x: number,
+	y: number,
+): void {
+	v[a] = v[a] + v[b] + x;
+	v[d] = rotr(v[d] ^ v[a], 16);
+	v[c] = v[c] + v[d];
+	v[b] = rotr(v[b] ^ v[c], 12);
+	v[a] = v[a] + v[b] + y;
+	v[d] = rotr(v[d] ^ v[a], 8);
+	v[c] = v[c] + v[d];
+	v[b] = rotr(v[b] ^ v[c], 7);
+}
+
+/**
+ * Adds a 64-bit [low, high] value to the word pair at index i of v.
+ */
+function add64(v: Uint32Array, i: number, low: number, high: number): void {
+	const sum = v[i] + low;
+	v[i + 1] = v[i + 1] + high + (sum > 0xffffffff ? 1 : 0);
+	v[i] = sum;
+}
+
+function rotr(x: number, n: number): number {
+	return (x >>> n) | (x << (32 - n));
+}
+
+function littleEndianBytes(words: Uint32Array): Uint8Array {
+	const bytes = new Uint8Array(words.length * 4);
+	const view = new DataView(bytes.buffer);
+	for (let i = 0; i < words.length; i++) {
+		view.setUint32(i * 4, words[i], true);
+	}
+
+	return bytes;
+}
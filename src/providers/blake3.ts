@@ -0,0 +1,423 @@
+import type { Hasher, HashProvider } from "../types.ts";
+import { toHex, toUint8Array } from "../utils.js";
+
+/**
+ * Options for the BLAKE3 provider.
+ */
+export type Blake3Options = {
+	/**
+	 * Digest length in bytes, any positive integer. Defaults to 32. BLAKE3 is an
+	 * extendable output function, shorter digests are prefixes of longer ones.
+	 */
+	outputLength?: number;
+
+	/**
+	 * A 32-byte key, which switches to the keyed hash mode (a MAC or PRF).
+	 */
+	key?: BufferSource;
+
+	/**
+	 * A context string, which switches to the key derivation mode. The context should be
+	 * hardcoded, globally unique and application specific, e.g.
+	 * 'example.com 2025-01-01 session tokens v1'. The hashed data is the key material.
+	 */
+	context?: string;
+};
+
+/**
+ * The BLAKE3 key size in bytes.
+ */
+const KEY_LENGTH = 32;
+const BLOCK_LENGTH = 64;
+const CHUNK_LENGTH = 1024;
+
+// Domain separation flags
+const CHUNK_START = 1;
+const CHUNK_END = 2;
+const PARENT = 4;
+const ROOT = 8;
+const KEYED_HASH = 16;
+const DERIVE_KEY_CONTEXT = 32;
+const DERIVE_KEY_MATERIAL = 64;
+
+// Same as the SHA-256 initial hash values
+const IV = new Uint32Array([
+	0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c,
+	0x1f83d9ab, 0x5be0cd19,
+]);
+
+// Message word permutation applied between rounds
+const PERMUTATION = [2, 6, 3, 10, 7, 0, 4, 13, 1, 11, 12, 5, 9, 14, 15, 8];
+
+/**
+ * BLAKE3 hash algorithm implementation.
+ *
+ * BLAKE3 is a cryptographic hash function derived from BLAKE2s that splits its input
+ * into 1 KiB chunks hashed as a Merkle tree. Besides regular hashing it has a keyed mode
+ * (a MAC), a key derivation mode and extendable output of any length.
+ *
+ * The provider name is 'blake3' for 32-byte digests and 'blake3-<bits>' otherwise
+ * (e.g. 'blake3-512').
+ *
+ * @example
+ * ```typescript
+ * import { Blake3 } from 'hashery';
+ *
+ * const blake3 = new Blake3();
+ * blake3.toHashSync(new TextEncoder().encode('abc'));
+ * // "6437b3ac38465133ffb63b75273a8db548c558465d79db03fd359c6cd5bd9d85"
+ *
+ * const kdf = new Blake3({ context: 'example.com 2025-01-01 session tokens v1' });
+ * kdf.toHashSync(masterKey); // a 32-byte subkey as hex
+ * ```
+ */
+export class Blake3 implements HashProvider {
+	private readonly _outputLength: number;
+	private readonly _key?: Uint32Array;
+	private readonly _context?: string;
+
+	/**
+	 * Creates a new BLAKE3 instance.
+	 *
+	 * @param options - Digest length, and a key or context to select the mode
+	 * @throws {Error} If the output length or key length is invalid, or both a key and a context are given
+	 */
+	constructor(options?: Blake3Options) {
+		this._outputLength = options?.outputLength ?? 32;
+		if (!Number.isInteger(this._outputLength) || this._outputLength < 1) {
+			throw new Error(
+				`BLAKE3 output length must be a positive integer, got ${this._outputLength}`,
+			);
+		}
+
+		if (options?.key && options.context !== undefined) {
+			throw new Error("BLAKE3 key and context cannot be used together");
+		}
+
+		if (options?.key) {
+			const key = toUint8Array(options.key);
+			if (key.length !== KEY_LENGTH) {
+				throw new Error(
+					`BLAKE3 key must be ${KEY_LENGTH} bytes, got ${key.length}`,
+				);
+			}
+
+			this._key = toWords(key);
+		}
+
+		this._context = options?.context;
+	}
+
+	/**
+	 * The name identifier for this hash provider.
+	 */
+	public get name(): string {
+		return this._outputLength === 32
+			? "blake3"
+			: `blake3-${this._outputLength * 8}`;
+	}
+
+	/**
+	 * Gets the digest length in bytes.
+	 */
+	public get outputLength(): number {
+		return this._outputLength;
+	}
+
+	/**
+	 * Gets the block size in bytes.
+	 */
+	public get blockSize(): number {
+		return 64;
+	}
+
+	/**
+	 * Computes the BLAKE3 hash of the provided data synchronously.
+	 *
+	 * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+	 * @returns A lowercase hexadecimal string of twice the digest length
+	 */
+	public toHashSync(data: BufferSource): string {
+		return this.createHasher().update(data).digest();
+	}
+
+	/**
+	 * Computes the BLAKE3 hash of the provided data.
+	 *
+	 * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+	 * @returns A Promise resolving to a lowercase hexadecimal string
+	 */
+	public async toHash(data: BufferSource): Promise<string> {
+		return this.toHashSync(data);
+	}
+
+	/**
+	 * Creates an incremental BLAKE3 hasher, so large data can be hashed in chunks.
+	 *
+	 * @returns A hasher that can be fed data in chunks
+	 */
+	public createHasher(): Hasher {
+		if (this._key) {
+			return new Blake3Hasher(this._key, KEYED_HASH, this._outputLength);
+		}
+
+		if (this._context !== undefined) {
+			// The context is hashed first, its hash is the key for hashing the key material
+			const contextHasher = new Blake3Hasher(
+				IV,
+				DERIVE_KEY_CONTEXT,
+				KEY_LENGTH,
+			);
+			contextHasher.update(new TextEncoder().encode(this._context));
+			return new Blake3Hasher(
+				toWords(contextHasher.output()),
+				DERIVE_KEY_MATERIAL,
+				this._outputLength,
+			);
+		}
+
+		return new Blake3Hasher(IV, 0, this._outputLength);
+	}
+}
+
+/**
+ * Input for the last compression of a node, kept so the root node can be compressed
+ * again with the ROOT flag, once per 64 bytes of output.
+ */
+type Blake3Output = {
+	chainingValue: Uint32Array;
+	block: Uint32Array;
+	counter: number;
+	blockLength: number;
+	flags: number;
+};
+
+class Blake3Hasher implements Hasher {
+	private readonly _key: Uint32Array;
+	private readonly _flags: number;
+	private readonly _outputLength: number;
+	// Chaining values of completed subtrees, one per set bit of the chunk count
+	private readonly _stack: Uint32Array[] = [];
+	private readonly _block = new Uint8Array(BLOCK_LENGTH);
+	private readonly _view = new DataView(this._block.buffer);
+	private _chainingValue: Uint32Array;
+	private _chunkCounter = 0;
+	private _blockLength = 0;
+	private _blocksCompressed = 0;
+
+	constructor(key: Uint32Array, flags: number, outputLength: number) {
+		this._key = key;
+		this._flags = flags;
+		this._outputLength = outputLength;
+		this._chainingValue = key.slice();
+	}
+
+	public update(data: BufferSource): Hasher {
+		const bytes = toUint8Array(data);
+
+		for (let offset = 0; offset < bytes.length; ) {
+			// Only finish a chunk once more data arrives, the last chunk may be the root
+			if (this._chunkLength() === CHUNK_LENGTH) {
+				this._pushChunk(chainingValue(this._chunkOutput()));
+				this._chunkCounter++;
+				this._chainingValue = this._key.slice();
+				this._blocksCompressed = 0;
+				this._blockLength = 0;
+			}
+
+			// Same for a full block, the last block of a chunk gets the CHUNK_END flag
+			if (this._blockLength === BLOCK_LENGTH) {
+				this._chainingValue = chainingValue({
+					chainingValue: this._chainingValue,
+					block: this._words(),
+					counter: this._chunkCounter,
+					blockLength: BLOCK_LENGTH,
+					flags: this._chunkFlags(),
+				});
+				this._blocksCompressed++;
+				this._blockLength = 0;
+			}
+
+			const take = Math.min(
+				BLOCK_LENGTH - this._blockLength,
+				bytes.length - offset,
+			);
+			this._block.set(bytes.subarray(offset, offset + take), this._blockLength);
+			this._blockLength += take;
+			offset += take;
+		}
+
+		return this;
+	}
+
+	public digest(): string {
+		return toHex(this.output());
+	}
+
+	/**
+	 * Finishes the hash and gets the digest bytes.
+	 */
+	public output(): Uint8Array {
+		let output = this._chunkOutput();
+		for (let i = this._stack.length - 1; i >= 0; i--) {
+			output = this._parentOutput(this._stack[i], chainingValue(output));
+		}
+
+		const bytes = new Uint8Array(
+			Math.ceil(this._outputLength / BLOCK_LENGTH) * BLOCK_LENGTH,
+		);
+		const view = new DataView(bytes.buffer);
+		for (let block = 0; block * BLOCK_LENGTH < bytes.length; block++) {
+			const words = compress(
+				output.chainingValue,
+				output.block,
+				block,
+				output.blockLength,
+				output.flags | ROOT,
+			);
+			for (let i = 0; i < 16; i++) {
+				view.setUint32(block * BLOCK_LENGTH + i * 4, words[i], true);
+			}
+		}
+
+		return bytes.subarray(0, this._outputLength);
+	}
+
+	private _chunkLength(): number {
+		return this._blocksCompressed * BLOCK_LENGTH + this._blockLength;
+	}
+
+	private _chunkFlags(): number {
+		return this._flags | (this._blocksCompressed === 0 ? CHUNK_START : 0);
+	}
+
+	private _chunkOutput(): Blake3Output {
+		this._block.fill(0, this._blockLength);
+		return {
+			chainingValue: this._chainingValue,
+			block: this._words(),
+			counter: this._chunkCounter,
+			blockLength: this._blockLength,
+			flags: this._chunkFlags() | CHUNK_END,
+		};
+	}
+
+	private _parentOutput(left: Uint32Array, right: Uint32Array): Blake3Output {
+		const block = new Uint32Array(16);
+		block.set(left);
+		block.set(right, 8);
+		return {
+			chainingValue: this._key,
+			block,
+			counter: 0,
+			blockLength: BLOCK_LENGTH,
+			flags: this._flags | PARENT,
+		};
+	}
+
+	/**
+	 * Adds the chaining value of a completed chunk, merging completed subtrees.
+	 * The chunk count's trailing zero bits tell how many subtrees are complete.
+	 */
+	private _pushChunk(chunk: Uint32Array): void {
+		let value = chunk;
+		for (let total = this._chunkCounter + 1; total % 2 === 0; total /= 2) {
+			const left = this._stack.pop() as Uint32Array;
+			value = chainingValue(this._parentOutput(left, value));
+		}
+
+		this._stack.push(value);
+	}
+
+	private _words(): Uint32Array {
+		const words = new Uint32Array(16);
+		for (let i = 0; i < 16; i++) {
+			words[i] = this._view.getUint32(i * 4, true);
+		}
+
+		return words;
+	}
+}
+
+function chainingValue(output: Blake3Output): Uint32Array {
+	return compress(
+		output.chainingValue,
+		output.block,
+		output.counter,
+		output.blockLength,
+		output.flags,
+	).subarray(0, 8);
+}
+
+/**
+ * The BLAKE3 compression function, 7 rounds of the BLAKE2s G function.
+ */
+function compress(
+	chainingValue: Uint32Array,
+	block: Uint32Array,
+	counter: number,
+	blockLength: number,
+	flags: number,
+): Uint32Array {
+	const v = new Uint32Array(16);
+	v.set(chainingValue);
+	v.set(IV.subarray(0, 4), 8);
+	// The counter is 64 bits, counts beyond 2^53 are not supported
+	v[12] = counter >>> 0;
+	v[13] = Math.floor(counter / 0x100000000);
+	v[14] = blockLength;
+	v[15] = flags;
+
+	let m = block;
+	for (let round = 0; round < 7; round++) {
+		mix(v, 0, 4, 8, 12, m[0], m[1]);
+		mix(v, 1, 5, 9, 13, m[2], m[3]);
+		mix(v, 2, 6, 10, 14, m[4], m[5]);
+		mix(v, 3, 7, 11, 15, m[6], m[7]);
+		mix(v, 0, 5, 10, 15, m[8], m[9]);
+		mix(v, 1, 6, 11, 12, m[10], m[11]);
+		mix(v, 2, 7, 8, 13, m[12], m[13]);
+		mix(v, 3, 4, 9, 14, m[14], m[15]);
+		m = Uint32Array.from(PERMUTATION, (i) => m[i]);
+	}
+
+	for (let i = 0; i < 8; i++) {
+		v[i] ^= v[i + 8];
+		v[i + 8] ^= chainingValue[i];
+	}
+
+	return v;
+}
+
+function mix(
+	v: Uint32Array,
+	a: number,
+	b: number,
+	c: number,
+	d: number,
+	x: number,
+	y: number,
+): void {
+	v[a] = v[a] + v[b] + x;
+	v[d] = rotr(v[d] ^ v[a], 16);
+	v[c] = v[c] + v[d];
+	v[b] = rotr(v[b] ^ v[c], 12);
+	v[a] = v[a] + v[b] + y;
+	v[d] = rotr(v[d] ^ v[a], 8);
+	v[c] = v[c] + v[d];
+	v[b] = rotr(v[b] ^ v[c], 7);
+}
+
+function rotr(x: number, n: number): number {
+	return (x >>> n) | (x << (32 - n));
+}
+
+function toWords(bytes: Uint8Array): Uint32Array {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	const words = new Uint32Array(bytes.length / 4);
+	for (let i = 0; i < words.length; i++) {
+		words[i] = view.getUint32(i * 4, true);
+	}
+
+	return words;
+}
@@ -1,46 +1,328 @@
-import type { HashProvider } from "../types.ts";
+import type { Hasher, HashProvider } from "../types.ts";
+import { toUint8Array } from "../utils.js";
 
+/**
+ * Parameters of a CRC in the Rocksoft model, as listed in the CRC RevEng catalogue.
+ * Values may be given as numbers or, for widths above 32 bits, as BigInt.
+ */
+export type CRCOptions = {
+    /**
+     * The provider name the CRC is registered under (e.g. 'crc24-openpgp').
+     */
+    name: string;
+
+    /**
+     * The width of the CRC in bits, from 1 to 64.
+     */
+    width: number;
+
+    /**
+     * The generator polynomial, without the leading x^width term.
+     */
+    poly: number | bigint;
+
+    /**
+     * The initial register value.
+     */
+    init: number | bigint;
+
+    /**
+     * Whether each input byte is reflected (processed least significant bit first).
+     */
+    refin: boolean;
+
+    /**
+     * Whether the final register value is reflected.
+     */
+    refout: boolean;
+
+    /**
+     * The value XORed into the final register value.
+     */
+    xorout: number | bigint;
+};
+
+/**
+ * Names of the built-in CRC presets.
+ */
+export type CRCPreset =
+    | "crc32"
+    | "crc32c"
+    | "crc16-ccitt"
+    | "crc16-kermit"
+    | "crc16-modbus"
+    | "crc64-ecma"
+    | "crc64-xz";
+
+/**
+ * Parameters of the built-in CRC presets.
+ *
+ * - `crc32` - CRC-32/ISO-HDLC (zlib, PNG, Ethernet, PHP's `crc32()`)
+ * - `crc32c` - CRC-32/ISCSI, the Castagnoli CRC used by iSCSI, Kafka, ext4 and Google Cloud Storage
+ * - `crc16-ccitt` - CRC-16/IBM-3740, commonly called CRC-16/CCITT-FALSE
+ * - `crc16-kermit` - CRC-16/KERMIT, the reflected CCITT CRC (true CCITT)
+ * - `crc16-modbus` - CRC-16/MODBUS
+ * - `crc64-ecma` - CRC-64/ECMA-182
+ * - `crc64-xz` - CRC-64/XZ (xz, Go's `crc64.ECMA` table)
+ */
+export const crcPresets: Readonly<Record<CRCPreset, Readonly<CRCOptions>>> = {
+    crc32: { name: "crc32", width: 32, poly: 0x04c11db7, init: 0xffffffff, refin: true, refout: true, xorout: 0xffffffff },
+    crc32c: { name: "crc32c", width: 32, poly: 0x1edc6f41, init: 0xffffffff, refin: true, refout: true, xorout: 0xffffffff },
+    "crc16-ccitt": { name: "crc16-ccitt", width: 16, poly: 0x1021, init: 0xffff, refin: false, refout: false, xorout: 0 },
+    "crc16-kermit": { name: "crc16-kermit", width: 16, poly: 0x1021, init: 0, refin: true, refout: true, xorout: 0 },
+    "crc16-modbus": { name: "crc16-modbus", width: 16, poly: 0x8005, init: 0xffff, refin: true, refout: true, xorout: 0 },
+    "crc64-ecma": { name: "crc64-ecma", width: 64, poly: 0x42f0e1eba9ea3693n, init: 0n, refin: false, refout: false, xorout: 0n },
+    "crc64-xz": { name: "crc64-xz", width: 64, poly: 0x42f0e1eba9ea3693n, init: 0xffffffffffffffffn, refin: true, refout: true, xorout: 0xffffffffffffffffn },
+};
+
+/**
+ * CRC (Cyclic Redundancy Check) provider for any CRC in the Rocksoft model.
+ *
+ * Without arguments this is CRC-32 (IEEE 802.3), registered as `crc32`. Pass a preset name
+ * or your own parameters for other CRCs. Data is processed a byte at a time with a lookup
+ * table that is built on first use. CRCs up to 32 bits wide use number arithmetic, wider
+ * CRCs use BigInt.
+ *
+ * @example
+ * ```typescript
+ * import { CRC } from 'hashery';
+ *
+ * const data = new TextEncoder().encode('123456789');
+ * new CRC().toHashSync(data); // "cbf43926"
+ * new CRC('crc32c').toHashSync(data); // "e3069283"
+ *
+ * // CRC-8/SMBUS
+ * const crc8 = new CRC({ name: 'crc8', width: 8, poly: 0x07, init: 0, refin: false, refout: false, xorout: 0 });
+ * crc8.toHashSync(data); // "f4"
+ * ```
+ */
 export class CRC implements HashProvider {
+    private readonly _options: Readonly<CRCOptions>;
+    private _model?: CRCModel;
+
+    /**
+     * Creates a new CRC instance.
+     *
+     * @param options - A preset name or the CRC parameters (default: 'crc32')
+     * @throws {Error} If the preset is unknown or the width is not between 1 and 64
+     */
+    constructor(options: CRCPreset | CRCOptions = "crc32") {
+        const resolved = typeof options === "string" ? crcPresets[options] : options;
+        if (!resolved) {
+            throw new Error(`Unknown CRC preset '${options}'`);
+        }
+
+        if (!Number.isInteger(resolved.width) || resolved.width < 1 || resolved.width > 64) {
+            throw new Error(`CRC width must be an integer between 1 and 64, got ${resolved.width}`);
+        }
+
+        this._options = resolved;
+    }
+
+    /**
+     * The name identifier for this hash provider.
+     */
     public get name(): string {
-        return "crc32";
+        return this._options.name;
+    }
+
+    /**
+     * Gets the CRC parameters.
+     */
+    public get options(): Readonly<CRCOptions> {
+        return this._options;
     }
 
+    /**
+     * Computes the CRC of the provided data synchronously.
+     *
+     * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+     * @returns The CRC as a lowercase hexadecimal string, one character per 4 bits of width
+     */
     public toHashSync(data: BufferSource): string {
-        // Convert BufferSource to Uint8Array
-        let bytes: Uint8Array;
-
-        if (data instanceof Uint8Array) {
-            bytes = data;
-        } else if (data instanceof ArrayBuffer) {
-            bytes = new Uint8Array(data);
-        } else if (data instanceof DataView) {
-            bytes = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
-        } else {
-            const view = data as ArrayBufferView;
-            bytes = new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
-        }
+        return this.createHasher().update(data).digest();
+    }
+
+    /**
+     * Computes the CRC of the provided data.
+     *
+     * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+     * @returns A Promise resolving to the CRC as a lowercase hexadecimal string
+     */
+    public async toHash(data: BufferSource): Promise<string> {
+        return this.toHashSync(data);
+    }
+
+    /**
+     * Creates an incremental CRC hasher.
+     *
+     * @returns A hasher that can be fed data in chunks
+     */
+    public createHasher(): Hasher {
+        this._model ??= createModel(this._options);
+        return this._model.width > 32
+            ? new CRC64Hasher(this._model)
+            : new CRC32Hasher(this._model);
+    }
+}
+
+/**
+ * Normalized CRC parameters plus the lookup table, shared by all hashers of a provider.
+ *
+ * Reflected CRCs keep the register reflected so bytes can be shifted in from the low end.
+ * Other CRCs narrower than 8 bits keep the register shifted left by `shift` bits, so the
+ * top of the register always lines up with the top of a byte.
+ */
+type CRCModel = {
+    width: number;
+    refin: boolean;
+    refout: boolean;
+    xorout: bigint;
+    shift: number;
+    register: bigint;
+    table: Array<bigint>;
+    // The table as numbers, only filled for CRCs up to 32 bits wide
+    table32: Uint32Array;
+};
 
-        // CRC-32 algorithm (IEEE 802.3 polynomial)
-        // This is the same algorithm used by PHP's crc32() function
-        const CRC32_POLYNOMIAL = 0xEDB88320;
-        let crc = 0xFFFFFFFF;
+function createModel(options: Readonly<CRCOptions>): CRCModel {
+    const { width, refin, refout } = options;
+    const mask = (1n << BigInt(width)) - 1n;
+    const poly = BigInt(options.poly) & mask;
+    const init = BigInt(options.init) & mask;
+    const xorout = BigInt(options.xorout) & mask;
+    const table: Array<bigint> = [];
 
-        for (let i = 0; i < bytes.length; i++) {
-            crc = crc ^ bytes[i];
+    if (refin) {
+        const reflectedPoly = reflect(poly, width);
+        for (let i = 0; i < 256; i++) {
+            let crc = BigInt(i);
             for (let j = 0; j < 8; j++) {
-                crc = (crc >>> 1) ^ (CRC32_POLYNOMIAL & -(crc & 1));
+                crc = crc & 1n ? (crc >> 1n) ^ reflectedPoly : crc >> 1n;
             }
+
+            table.push(crc);
         }
 
-        // Finalize CRC
-        crc = (crc ^ 0xFFFFFFFF) >>> 0;
+        return { width, refin, refout, xorout, shift: 0, register: reflect(init, width), table, table32: toTable32(table, width) };
+    }
 
-        // Convert to hexadecimal string (8 characters, zero-padded)
-        const hashHex = crc.toString(16).padStart(8, "0");
-        return hashHex;
+    const shift = Math.max(8 - width, 0);
+    const registerWidth = BigInt(width + shift);
+    const registerMask = (1n << registerWidth) - 1n;
+    const top = 1n << (registerWidth - 1n);
+    const shiftedPoly = poly << BigInt(shift);
+    for (let i = 0; i < 256; i++) {
+        let crc = BigInt(i) << (registerWidth - 8n);
+        for (let j = 0; j < 8; j++) {
+            crc = crc & top ? ((crc << 1n) ^ shiftedPoly) & registerMask : crc << 1n;
+        }
+
+        table.push(crc);
     }
 
-    public async toHash(data: BufferSource): Promise<string> {
-        return this.toHashSync(data);
+    return { width, refin, refout, xorout, shift, register: init << BigInt(shift), table, table32: toTable32(table, width) };
+}
+
+function toTable32(table: Array<bigint>, width: number): Uint32Array {
+    return width > 32 ? new Uint32Array(0) : Uint32Array.from(table, Number);
+}
+
+/**
+ * Converts the final register value to the CRC, applying refout and xorout.
+ */
+function finalize(model: CRCModel, register: bigint): string {
+    let crc = model.refin ? register : register >> BigInt(model.shift);
+    if (model.refin !== model.refout) {
+        crc = reflect(crc, model.width);
+    }
+
+    return (crc ^ model.xorout).toString(16).padStart(Math.ceil(model.width / 4), "0");
+}
+
+function reflect(value: bigint, width: number): bigint {
+    let reflected = 0n;
+    for (let i = 0; i < width; i++) {
+        reflected = (reflected << 1n) | ((value >> BigInt(i)) & 1n);
+    }
+
+    return reflected;
+}
+
+/**
+ * Table-driven hasher for CRCs up to 32 bits wide, using number arithmetic.
+ */
+class CRC32Hasher implements Hasher {
+    private readonly _model: CRCModel;
+    private _crc: number;
+
+    constructor(model: CRCModel) {
+        this._model = model;
+        this._crc = Number(model.register);
+    }
+
+    public update(data: BufferSource): Hasher {
+        const bytes = toUint8Array(data);
+        const table = this._model.table32;
+        let crc = this._crc;
+
+        if (this._model.refin) {
+            for (let i = 0; i < bytes.length; i++) {
+                crc = table[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+            }
+        } else {
+            const registerWidth = this._model.width + this._model.shift;
+            const top = registerWidth - 8;
+            // Keep the register within its width, `<< 8` would carry bits past the top
+            const mask = registerWidth === 32 ? 0xffffffff : 2 ** registerWidth - 1;
+            for (let i = 0; i < bytes.length; i++) {
+                crc = (table[((crc >>> top) ^ bytes[i]) & 0xff] ^ (crc << 8)) & mask;
+            }
+        }
+
+        this._crc = crc >>> 0;
+        return this;
+    }
+
+    public digest(): string {
+        return finalize(this._model, BigInt(this._crc));
+    }
+}
+
+/**
+ * Table-driven hasher for CRCs wider than 32 bits, using BigInt arithmetic.
+ */
+class CRC64Hasher implements Hasher {
+    private readonly _model: CRCModel;
+    private _crc: bigint;
+
+    constructor(model: CRCModel) {
+        this._model = model;
+        this._crc = model.register;
+    }
+
+    public update(data: BufferSource): Hasher {
+        const bytes = toUint8Array(data);
+        const { table, width } = this._model;
+        let crc = this._crc;
+
+        if (this._model.refin) {
+            for (let i = 0; i < bytes.length; i++) {
+                crc = table[Number((crc ^ BigInt(bytes[i])) & 0xffn)] ^ (crc >> 8n);
+            }
+        } else {
+            const top = BigInt(width - 8);
+            const mask = (1n << BigInt(width)) - 1n;
+            for (let i = 0; i < bytes.length; i++) {
+                crc = table[Number(((crc >> top) ^ BigInt(bytes[i])) & 0xffn)] ^ ((crc << 8n) & mask);
+            }
+        }
+
+        this._crc = crc;
+        return this;
+    }
+
+    public digest(): string {
+        return finalize(this._model, this._crc);
     }
 }
@@ -1,4 +1,6 @@
-import type { WebCryptoHashAlgorithm, HashProvider } from "../types.js";
+import type { WebCryptoHashAlgorithm, HashProvider, Hasher } from "../types.js";
+import { toHex } from "../utils.js";
+import { createSha2Hasher } from "./sha2.js";
 
 
 export type WebCryptoOptions = {
@@ -7,17 +9,31 @@ export type WebCryptoOptions = {
 
 export class WebCrypto implements HashProvider {
 	private _algorithm: WebCryptoHashAlgorithm = "SHA-256";
+
 	constructor(options?: WebCryptoOptions) {
 		if(options?.algorithm) {
 			this._algorithm = options?.algorithm;
 		}
-
 	}
 
 	public get name(): string {
 		return this._algorithm;
 	}
 
+	/**
+	 * SHA-1 is not collision resistant and must not be used for security.
+	 */
+	public get secure(): boolean {
+		return this._algorithm !== "SHA-1";
+	}
+
+	/**
+	 * The block size in bytes: 64 for SHA-1 and SHA-256, 128 for SHA-384 and SHA-512.
+	 */
+	public get blockSize(): number {
+		return this._algorithm === "SHA-384" || this._algorithm === "SHA-512" ? 128 : 64;
+	}
+
 	public async toHash(data: BufferSource): Promise<string> {
 		// Hash the data using Web Crypto API
 		const hashBuffer = await crypto.subtle.digest(this._algorithm, data);
@@ -30,4 +46,36 @@ export class WebCrypto implements HashProvider {
 
 		return hashHex;
 	}
-}
\ No newline at end of file
+
+	/**
+	 * Computes the HMAC of the data with `crypto.subtle.sign`.
+	 */
+	public async toHmac(key: BufferSource, data: BufferSource): Promise<string> {
+		const cryptoKey = await crypto.subtle.importKey(
+			"raw",
+			key,
+			{ name: "HMAC", hash: this._algorithm },
+			false,
+			["sign"],
+		);
+		const signature = await crypto.subtle.sign("HMAC", cryptoKey, data);
+
+		return toHex(new Uint8Array(signature));
+	}
+
+	/**
+	 * Hashes synchronously with the pure TypeScript SHA-1 / SHA-2 implementation, which
+	 * gives the same digests as `crypto.subtle.digest`.
+	 */
+	public toHashSync(data: BufferSource): string {
+		return this.createHasher().update(data).digest();
+	}
+
+	/**
+	 * Creates an incremental hasher. `crypto.subtle.digest` can only hash a complete buffer,
+	 * so this uses the pure TypeScript implementation with identical output.
+	 */
+	public createHasher(): Hasher {
+		return createSha2Hasher(this._algorithm);
+	}
+}
@@ -1,4 +1,5 @@
-import type { HashProvider } from "../types.ts";
+import type { Hasher, HashProvider } from "../types.ts";
+import { toUint8Array } from "../utils.js";
 
 /**
  * DJB2 hash algorithm implementation.
@@ -45,36 +46,7 @@ export class DJB2 implements HashProvider {
 	 * ```
 	 */
 	public toHashSync(data: BufferSource): string {
-		// Convert BufferSource to Uint8Array for consistent processing
-		let bytes: Uint8Array;
-
-		if (data instanceof Uint8Array) {
-			bytes = data;
-		} else if (data instanceof ArrayBuffer) {
-			bytes = new Uint8Array(data);
-		} else if (data instanceof DataView) {
-			bytes = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
-		} else {
-			// Fallback for other ArrayBufferView types (e.g., Int8Array, Uint16Array, etc.)
-			const view = data as ArrayBufferView;
-			bytes = new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
-		}
-
-		// DJB2 algorithm
-		// Initial hash value: 5381
-		let hash = 5381;
-
-		// Process each byte: hash = hash * 33 + byte
-		for (let i = 0; i < bytes.length; i++) {
-			hash = ((hash << 5) + hash) + bytes[i]; // hash * 33 + c
-			// Keep it as a 32-bit unsigned integer
-			hash = hash >>> 0;
-		}
-
-		// Convert to 8-character lowercase hexadecimal string
-		const hashHex = hash.toString(16).padStart(8, "0");
-
-		return hashHex;
+		return this.createHasher().update(data).digest();
 	}
 
 	/**
@@ -94,4 +66,46 @@ export class DJB2 implements HashProvider {
 	public async toHash(data: BufferSource): Promise<string> {
 		return this.toHashSync(data);
 	}
+
+	/**
+	 * Creates an incremental DJB2 hasher, so large data can be hashed in chunks.
+	 *
+	 * @returns A hasher that can be fed data in chunks
+	 *
+	 * @example
+	 * ```typescript
+	 * const hasher = new DJB2().createHasher();
+	 * hasher.update(new TextEncoder().encode('hel'));
+	 * hasher.update(new TextEncoder().encode('lo'));
+	 * console.log(hasher.digest()); // same as djb2.toHashSync(encode('hello'))
+	 * ```
+	 */
+	public createHasher(): Hasher {
+		return new DJB2Hasher();
+	}
+}
+
+class DJB2Hasher implements Hasher {
+	// Initial hash value: 5381
+	private _hash = 5381;
+
+	public update(data: BufferSource): Hasher {
+		const bytes = toUint8Array(data);
+		let hash = this._hash;
+
+		// Process each byte: hash = hash * 33 + byte
+		for (let i = 0; i < bytes.length; i++) {
+			hash = ((hash << 5) + hash) + bytes[i]; // hash * 33 + c
+			// Keep it as a 32-bit unsigned integer
+			hash = hash >>> 0;
+		}
+
+		this._hash = hash;
+		return this;
+	}
+
+	public digest(): string {
+		// Convert to 8-character lowercase hexadecimal string
+		return this._hash.toString(16).padStart(8, "0");
+	}
 }
@@ -0,0 +1,266 @@
+import type { Hasher, HashProvider } from "../types.ts";
+import { toUint8Array } from "../utils.js";
+
+/**
+ * The number of values summed before the sums are reduced. Sums are kept in doubles,
+ * which stay exact far beyond the largest sum a block can reach.
+ */
+const BLOCK_SIZE = 4096;
+
+/**
+ * Fletcher-16 checksum implementation.
+ *
+ * Sums the bytes of the data modulo 255 into two 8-bit sums, both starting at 0.
+ * A very cheap integrity check for short messages. NOT for cryptographic purposes.
+ *
+ * Algorithm: sum1 = sum1 + byte, sum2 = sum2 + sum1 (both modulo 255),
+ * checksum = sum2 * 256 + sum1
+ *
+ * @example
+ * ```typescript
+ * import { Fletcher16 } from 'hashery';
+ *
+ * const fletcher16 = new Fletcher16();
+ * fletcher16.toHashSync(new TextEncoder().encode('abcde')); // "c8f0"
+ * ```
+ */
+export class Fletcher16 implements HashProvider {
+	/**
+	 * The name identifier for this hash provider.
+	 */
+	public get name(): string {
+		return "fletcher16";
+	}
+
+	/**
+	 * Computes the Fletcher-16 checksum of the provided data synchronously.
+	 *
+	 * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+	 * @returns A 4-character lowercase hexadecimal string
+	 */
+	public toHashSync(data: BufferSource): string {
+		return this.createHasher().update(data).digest();
+	}
+
+	/**
+	 * Computes the Fletcher-16 checksum of the provided data.
+	 *
+	 * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+	 * @returns A Promise resolving to a 4-character lowercase hexadecimal string
+	 */
+	public async toHash(data: BufferSource): Promise<string> {
+		return this.toHashSync(data);
+	}
+
+	/**
+	 * Creates an incremental Fletcher-16 hasher, so large data can be hashed in chunks.
+	 *
+	 * @returns A hasher that can be fed data in chunks
+	 */
+	public createHasher(): Hasher {
+		return new Fletcher16Hasher();
+	}
+
+	/**
+	 * Combines the checksums of two adjacent chunks into the checksum of both chunks,
+	 * without access to the data.
+	 *
+	 * @param checksum1 - The Fletcher-16 checksum of the first chunk
+	 * @param checksum2 - The Fletcher-16 checksum of the second chunk
+	 * @param length2 - The length of the second chunk in bytes
+	 * @returns The Fletcher-16 checksum of the first chunk followed by the second
+	 */
+	public static combine(
+		checksum1: string,
+		checksum2: string,
+		length2: number,
+	): string {
+		return combine(checksum1, checksum2, length2, 8);
+	}
+}
+
+/**
+ * Fletcher-32 checksum implementation.
+ *
+ * Sums the data as little-endian 16-bit words modulo 65535 into two 16-bit sums, both
+ * starting at 0. Data with an odd length is padded with a zero byte. NOT for cryptographic
+ * purposes.
+ *
+ * Algorithm: sum1 = sum1 + word, sum2 = sum2 + sum1 (both modulo 65535),
+ * checksum = sum2 * 65536 + sum1
+ *
+ * @example
+ * ```typescript
+ * import { Fletcher32 } from 'hashery';
+ *
+ * const fletcher32 = new Fletcher32();
+ * fletcher32.toHashSync(new TextEncoder().encode('abcde')); // "f04fc729"
+ * ```
+ */
+export class Fletcher32 implements HashProvider {
+	/**
+	 * The name identifier for this hash provider.
+	 */
+	public get name(): string {
+		return "fletcher32";
+	}
+
+	/**
+	 * Computes the Fletcher-32 checksum of the provided data synchronously.
+	 *
+	 * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+	 * @returns An 8-character lowercase hexadecimal string
+	 */
+	public toHashSync(data: BufferSource): string {
+		return this.createHasher().update(data).digest();
+	}
+
+	/**
+	 * Computes the Fletcher-32 checksum of the provided data.
+	 *
+	 * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+	 * @returns A Promise resolving to an 8-character lowercase hexadecimal string
+	 */
+	public async toHash(data: BufferSource): Promise<string> {
+		return this.toHashSync(data);
+	}
+
+	/**
+	 * Creates an incremental Fletcher-32 hasher, so large data can be hashed in chunks.
+	 * Chunks may have any length, an odd byte is kept until the next chunk arrives.
+	 *
+	 * @returns A hasher that can be fed data in chunks
+	 */
+	public createHasher(): Hasher {
+		return new Fletcher32Hasher();
+	}
+
+	/**
+	 * Combines the checksums of two adjacent chunks into the checksum of both chunks,
+	 * without access to the data. The first chunk must have an even length, otherwise
+	 * its padding byte would end up in the middle of the data.
+	 *
+	 * @param checksum1 - The Fletcher-32 checksum of the first chunk
+	 * @param checksum2 - The Fletcher-32 checksum of the second chunk
+	 * @param length2 - The length of the second chunk in bytes
+	 * @returns The Fletcher-32 checksum of the first chunk followed by the second
+	 */
+	public static combine(
+		checksum1: string,
+		checksum2: string,
+		length2: number,
+	): string {
+		return combine(checksum1, checksum2, Math.ceil(length2 / 2), 16);
+	}
+}
+
+class Fletcher16Hasher implements Hasher {
+	private _sum1 = 0;
+	private _sum2 = 0;
+
+	public update(data: BufferSource): Hasher {
+		const bytes = toUint8Array(data);
+		let sum1 = this._sum1;
+		let sum2 = this._sum2;
+
+		for (let start = 0; start < bytes.length; start += BLOCK_SIZE) {
+			const end = Math.min(start + BLOCK_SIZE, bytes.length);
+			for (let i = start; i < end; i++) {
+				sum1 += bytes[i];
+				sum2 += sum1;
+			}
+
+			sum1 %= 255;
+			sum2 %= 255;
+		}
+
+		this._sum1 = sum1;
+		this._sum2 = sum2;
+		return this;
+	}
+
+	public digest(): string {
+		return format(this._sum1, this._sum2, 8);
+	}
+}
+
+class Fletcher32Hasher implements Hasher {
+	private _sum1 = 0;
+	private _sum2 = 0;
+	// The low byte of a word split across chunks
+	private _pending?: number;
+
+	public update(data: BufferSource): Hasher {
+		const bytes = toUint8Array(data);
+		let sum1 = this._sum1;
+		let sum2 = this._sum2;
+		let offset = 0;
+
+		if (this._pending !== undefined && bytes.length > 0) {
+			sum1 = (sum1 + (this._pending | (bytes[0] << 8))) % 65535;
+			sum2 = (sum2 + sum1) % 65535;
+			this._pending = undefined;
+			offset = 1;
+		}
+
+		const end = offset + ((bytes.length - offset) & ~1);
+		for (let start = offset; start < end; start += BLOCK_SIZE * 2) {
+			const blockEnd = Math.min(start + BLOCK_SIZE * 2, end);
+			for (let i = start; i < blockEnd; i += 2) {
+				sum1 += bytes[i] | (bytes[i + 1] << 8);
+				sum2 += sum1;
+			}
+
+			sum1 %= 65535;
+			sum2 %= 65535;
+		}
+
+		if (end < bytes.length) {
+			this._pending = bytes[end];
+		}
+
+		this._sum1 = sum1;
+		this._sum2 = sum2;
+		return this;
+	}
+
+	public digest(): string {
+		let sum1 = this._sum1;
+		let sum2 = this._sum2;
+		// Pad an odd length with a zero byte
+		if (this._pending !== undefined) {
+			sum1 = (sum1 + this._pending) % 65535;
+			sum2 = (sum2 + sum1) % 65535;
+		}
+
+		return format(sum1, sum2, 16);
+	}
+}
+
+/**
+ * Combines two Fletcher checksums. Both sums start at 0, so every sum1 of the second chunk
+ * is offset by the first chunk's sum1, once per value of the second chunk.
+ */
+function combine(
+	checksum1: string,
+	checksum2: string,
+	length2: number,
+	bits: number,
+): string {
+	const modulus = 2 ** bits - 1;
+	const fletcher1 = Number.parseInt(checksum1, 16);
+	const fletcher2 = Number.parseInt(checksum2, 16);
+	const sum1 = fletcher1 % 2 ** bits;
+	const sum2 = Math.floor(fletcher1 / 2 ** bits);
+
+	return format(
+		(sum1 + (fletcher2 % 2 ** bits)) % modulus,
+		(sum2 + Math.floor(fletcher2 / 2 ** bits) + (length2 % modulus) * sum1) %
+			modulus,
+		bits,
+	);
+}
+
+function format(sum1: number, sum2: number, bits: number): string {
+	return (sum2 * 2 ** bits + sum1).toString(16).padStart(bits / 2, "0");
+}
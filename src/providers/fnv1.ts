@@ -1,4 +1,5 @@
-import type { HashProvider } from "../types.ts";
+import type { Hasher, HashProvider } from "../types.ts";
+import { toUint8Array } from "../utils.js";
 
 /**
  * FNV-1 (Fowler-Noll-Vo) hash algorithm implementation.
@@ -10,6 +11,10 @@ import type { HashProvider } from "../types.ts";
  * Algorithm: hash = (hash * FNV_prime) XOR octet_of_data
  * FNV-1 32-bit offset basis: 2166136261
  * FNV-1 32-bit prime: 16777619
+ *
+ * Note: this provider multiplies with floating point numbers, so its digests differ from
+ * the published FNV-1 test vectors and other FNV-1 implementations. It is kept as-is so
+ * existing digests stay stable; use `FNV1a` or the 64 and 128-bit variants to interoperate.
  */
 export class FNV1 implements HashProvider {
     /**
@@ -26,27 +31,37 @@ export class FNV1 implements HashProvider {
      * @returns An 8-character lowercase hexadecimal string
      */
     public toHashSync(data: BufferSource): string {
-        // Convert BufferSource to Uint8Array for consistent processing
-        let bytes: Uint8Array;
-
-        if (data instanceof Uint8Array) {
-            bytes = data;
-        } else if (data instanceof ArrayBuffer) {
-            bytes = new Uint8Array(data);
-        } else if (data instanceof DataView) {
-            bytes = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
-        } else {
-            // Fallback for other ArrayBufferView types (e.g., Int8Array, Uint16Array, etc.)
-            const view = data as ArrayBufferView;
-            bytes = new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
-        }
+        return this.createHasher().update(data).digest();
+    }
 
-        // FNV-1 algorithm constants
-        const FNV_OFFSET_BASIS = 2166136261; // 32-bit offset basis
-        const FNV_PRIME = 16777619; // 32-bit FNV prime
+    /**
+     * Computes the FNV-1 hash of the provided data.
+     *
+     * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+     * @returns A Promise resolving to an 8-character lowercase hexadecimal string
+     */
+    public async toHash(data: BufferSource): Promise<string> {
+        return this.toHashSync(data);
+    }
+
+    /**
+     * Creates an incremental FNV-1 hasher, so large data can be hashed in chunks.
+     *
+     * @returns A hasher that can be fed data in chunks
+     */
+    public createHasher(): Hasher {
+        return new FNV1Hasher();
+    }
+}
 
-        // Initialize hash with FNV offset basis
-        let hash = FNV_OFFSET_BASIS;
+class FNV1Hasher implements Hasher {
+    // Initialize hash with FNV offset basis (32-bit)
+    private _hash = 2166136261;
+
+    public update(data: BufferSource): Hasher {
+        const bytes = toUint8Array(data);
+        const FNV_PRIME = 16777619; // 32-bit FNV prime
+        let hash = this._hash;
 
         // Process each byte: hash = (hash * FNV_prime) XOR byte
         for (let i = 0; i < bytes.length; i++) {
@@ -56,14 +71,53 @@ export class FNV1 implements HashProvider {
             hash = hash >>> 0;
         }
 
+        this._hash = hash;
+        return this;
+    }
+
+    public digest(): string {
         // Convert to 8-character lowercase hexadecimal string
-        const hashHex = hash.toString(16).padStart(8, "0");
+        return this._hash.toString(16).padStart(8, "0");
+    }
+}
 
-        return hashHex;
+/**
+ * FNV-1a (Fowler-Noll-Vo) 32-bit hash algorithm implementation.
+ *
+ * FNV-1a XORs each byte into the hash before multiplying, which gives it much better
+ * avalanche behaviour than FNV-1. Digests match the published FNV test vectors.
+ * NOT for cryptographic purposes.
+ *
+ * Algorithm: hash = (hash XOR octet_of_data) * FNV_prime
+ *
+ * @example
+ * ```typescript
+ * import { FNV1a } from 'hashery';
+ *
+ * const fnv1a = new FNV1a();
+ * fnv1a.toHashSync(new TextEncoder().encode('a')); // "e40c292c"
+ * ```
+ */
+export class FNV1a implements HashProvider {
+    /**
+     * The name identifier for this hash provider.
+     */
+    public get name(): string {
+        return "fnv1a";
     }
 
     /**
-     * Computes the FNV-1 hash of the provided data.
+     * Computes the FNV-1a hash of the provided data synchronously.
+     *
+     * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+     * @returns An 8-character lowercase hexadecimal string
+     */
+    public toHashSync(data: BufferSource): string {
+        return this.createHasher().update(data).digest();
+    }
+
+    /**
+     * Computes the FNV-1a hash of the provided data.
      *
      * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
      * @returns A Promise resolving to an 8-character lowercase hexadecimal string
@@ -71,4 +125,298 @@ export class FNV1 implements HashProvider {
     public async toHash(data: BufferSource): Promise<string> {
         return this.toHashSync(data);
     }
+
+    /**
+     * Creates an incremental FNV-1a hasher, so large data can be hashed in chunks.
+     *
+     * @returns A hasher that can be fed data in chunks
+     */
+    public createHasher(): Hasher {
+        return new FNV1aHasher();
+    }
+}
+
+class FNV1aHasher implements Hasher {
+    private _hash = 0x811c9dc5;
+
+    public update(data: BufferSource): Hasher {
+        const bytes = toUint8Array(data);
+        let hash = this._hash;
+
+        for (let i = 0; i < bytes.length; i++) {
+            // Math.imul keeps the multiplication exact in 32 bits
+            hash = Math.imul(hash ^ bytes[i], 0x01000193);
+        }
+
+        this._hash = hash >>> 0;
+        return this;
+    }
+
+    public digest(): string {
+        return this._hash.toString(16).padStart(8, "0");
+    }
+}
+
+const FNV_OFFSET_64 = 0xcbf29ce484222325n;
+const FNV_PRIME_64 = 0x100000001b3n;
+const FNV_OFFSET_128 = 0x6c62272e07bb014262b821756295c58dn;
+const FNV_PRIME_128 = 0x13bn + (1n << 88n);
+
+/**
+ * FNV-1 64-bit hash algorithm implementation.
+ *
+ * The 64-bit FNV-1 used by Go's `hash/fnv` (`fnv.New64`) and many other libraries.
+ * NOT for cryptographic purposes.
+ *
+ * FNV-1 64-bit offset basis: 0xcbf29ce484222325
+ * FNV-1 64-bit prime: 0x100000001b3
+ *
+ * @example
+ * ```typescript
+ * import { FNV1_64 } from 'hashery';
+ *
+ * const fnv = new FNV1_64();
+ * fnv.toHashSync(new TextEncoder().encode('a')); // "af63bd4c8601b7be"
+ * ```
+ */
+export class FNV1_64 implements HashProvider {
+    /**
+     * The name identifier for this hash provider.
+     */
+    public get name(): string {
+        return "fnv1-64";
+    }
+
+    /**
+     * Computes the FNV-1 64-bit hash of the provided data synchronously.
+     *
+     * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+     * @returns A 16-character lowercase hexadecimal string
+     */
+    public toHashSync(data: BufferSource): string {
+        return this.createHasher().update(data).digest();
+    }
+
+    /**
+     * Computes the FNV-1 64-bit hash of the provided data.
+     *
+     * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+     * @returns A Promise resolving to a 16-character lowercase hexadecimal string
+     */
+    public async toHash(data: BufferSource): Promise<string> {
+        return this.toHashSync(data);
+    }
+
+    /**
+     * Creates an incremental FNV-1 64-bit hasher, so large data can be hashed in chunks.
+     *
+     * @returns A hasher that can be fed data in chunks
+     */
+    public createHasher(): Hasher {
+        return new FNVWideHasher(64, FNV_OFFSET_64, FNV_PRIME_64, false);
+    }
+}
+
+/**
+ * FNV-1a 64-bit hash algorithm implementation.
+ *
+ * The 64-bit FNV-1a used by Go's `hash/fnv` (`fnv.New64a`) and many other libraries.
+ * NOT for cryptographic purposes.
+ *
+ * @example
+ * ```typescript
+ * import { FNV1a_64 } from 'hashery';
+ *
+ * const fnv = new FNV1a_64();
+ * fnv.toHashSync(new TextEncoder().encode('a')); // "af63dc4c8601ec8c"
+ * ```
+ */
+export class FNV1a_64 implements HashProvider {
+    /**
+     * The name identifier for this hash provider.
+     */
+    public get name(): string {
+        return "fnv1a-64";
+    }
+
+    /**
+     * Computes the FNV-1a 64-bit hash of the provided data synchronously.
+     *
+     * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+     * @returns A 16-character lowercase hexadecimal string
+     */
+    public toHashSync(data: BufferSource): string {
+        return this.createHasher().update(data).digest();
+    }
+
+    /**
+     * Computes the FNV-1a 64-bit hash of the provided data.
+     *
+     * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+     * @returns A Promise resolving to a 16-character lowercase hexadecimal string
+     */
+    public async toHash(data: BufferSource): Promise<string> {
+        return this.toHashSync(data);
+    }
+
+    /**
+     * Creates an incremental FNV-1a 64-bit hasher, so large data can be hashed in chunks.
+     *
+     * @returns A hasher that can be fed data in chunks
+     */
+    public createHasher(): Hasher {
+        return new FNVWideHasher(64, FNV_OFFSET_64, FNV_PRIME_64, true);
+    }
+}
+
+/**
+ * FNV-1 128-bit hash algorithm implementation.
+ *
+ * Matches Go's `fnv.New128`. NOT for cryptographic purposes.
+ *
+ * FNV-1 128-bit offset basis: 0x6c62272e07bb014262b821756295c58d
+ * FNV-1 128-bit prime: 2^88 + 0x13b
+ *
+ * @example
+ * ```typescript
+ * import { FNV1_128 } from 'hashery';
+ *
+ * const fnv = new FNV1_128();
+ * fnv.toHashSync(new TextEncoder().encode('a')); // "d228cb69101a8caf78912b704e4a141e"
+ * ```
+ */
+export class FNV1_128 implements HashProvider {
+    /**
+     * The name identifier for this hash provider.
+     */
+    public get name(): string {
+        return "fnv1-128";
+    }
+
+    /**
+     * Computes the FNV-1 128-bit hash of the provided data synchronously.
+     *
+     * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+     * @returns A 32-character lowercase hexadecimal string
+     */
+    public toHashSync(data: BufferSource): string {
+        return this.createHasher().update(data).digest();
+    }
+
+    /**
+     * Computes the FNV-1 128-bit hash of the provided data.
+     *
+     * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+     * @returns A Promise resolving to a 32-character lowercase hexadecimal string
+     */
+    public async toHash(data: BufferSource): Promise<string> {
+        return this.toHashSync(data);
+    }
+
+    /**
+     * Creates an incremental FNV-1 128-bit hasher, so large data can be hashed in chunks.
+     *
+     * @returns A hasher that can be fed data in chunks
+     */
+    public createHasher(): Hasher {
+        return new FNVWideHasher(128, FNV_OFFSET_128, FNV_PRIME_128, false);
+    }
+}
+
+/**
+ * FNV-1a 128-bit hash algorithm implementation.
+ *
+ * Matches Go's `fnv.New128a`. NOT for cryptographic purposes.
+ *
+ * @example
+ * ```typescript
+ * import { FNV1a_128 } from 'hashery';
+ *
+ * const fnv = new FNV1a_128();
+ * fnv.toHashSync(new TextEncoder().encode('a')); // "d228cb696f1a8caf78912b704e4a8964"
+ * ```
+ */
+export class FNV1a_128 implements HashProvider {
+    /**
+     * The name identifier for this hash provider.
+     */
+    public get name(): string {
+        return "fnv1a-128";
+    }
+
+    /**
+     * Computes the FNV-1a 128-bit hash of the provided data synchronously.
+     *
+     * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+     * @returns A 32-character lowercase hexadecimal string
+     */
+    public toHashSync(data: BufferSource): string {
+        return this.createHasher().update(data).digest();
+    }
+
+    /**
+     * Computes the FNV-1a 128-bit hash of the provided data.
+     *
+     * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+     * @returns A Promise resolving to a 32-character lowercase hexadecimal string
+     */
+    public async toHash(data: BufferSource): Promise<string> {
+        return this.toHashSync(data);
+    }
+
+    /**
+     * Creates an incremental FNV-1a 128-bit hasher, so large data can be hashed in chunks.
+     *
+     * @returns A hasher that can be fed data in chunks
+     */
+    public createHasher(): Hasher {
+        return new FNVWideHasher(128, FNV_OFFSET_128, FNV_PRIME_128, true);
+    }
+}
+
+/**
+ * FNV-1 and FNV-1a hasher for 64 and 128-bit digests, using BigInt arithmetic.
+ */
+class FNVWideHasher implements Hasher {
+    private readonly _bits: number;
+    private readonly _prime: bigint;
+    private readonly _alternate: boolean;
+    private _hash: bigint;
+
+    /**
+     * @param bits - The digest size in bits
+     * @param offset - The FNV offset basis
+     * @param prime - The FNV prime
+     * @param alternate - Whether to XOR before multiplying (FNV-1a) instead of after (FNV-1)
+     */
+    constructor(bits: number, offset: bigint, prime: bigint, alternate: boolean) {
+        this._bits = bits;
+        this._prime = prime;
+        this._alternate = alternate;
+        this._hash = offset;
+    }
+
+    public update(data: BufferSource): Hasher {
+        const bytes = toUint8Array(data);
+        const bits = this._bits;
+        const prime = this._prime;
+        let hash = this._hash;
+
+        if (this._alternate) {
+            for (let i = 0; i < bytes.length; i++) {
+                hash = BigInt.asUintN(bits, (hash ^ BigInt(bytes[i])) * prime);
+            }
+        } else {
+            for (let i = 0; i < bytes.length; i++) {
+                hash = BigInt.asUintN(bits, hash * prime) ^ BigInt(bytes[i]);
+            }
+        }
+
+        this._hash = hash;
+        return this;
+    }
+
+    public digest(): string {
+        return this._hash.toString(16).padStart(this._bits / 4, "0");
+    }
 }
@@ -0,0 +1,403 @@
+import type { Hasher, HashProvider } from "../types.ts";
+import { toHex, toUint8Array } from "../utils.js";
+
+// Integer parts of 2^32 * |sin(i + 1)|
+const MD5_K = new Int32Array([
+	0xd76aa478, 0xe8c7b756, 0x242070db, 0xc1bdceee, 0xf57c0faf, 0x4787c62a,
+	0xa8304613, 0xfd469501, 0x698098d8, 0x8b44f7af, 0xffff5bb1, 0x895cd7be,
+	0x6b901122, 0xfd987193, 0xa679438e, 0x49b40821, 0xf61e2562, 0xc040b340,
+	0x265e5a51, 0xe9b6c7aa, 0xd62f105d, 0x02441453, 0xd8a1e681, 0xe7d3fbc8,
+	0x21e1cde6, 0xc33707d6, 0xf4d50d87, 0x455a14ed, 0xa9e3e905, 0xfcefa3f8,
+	0x676f02d9, 0x8d2a4c8a, 0xfffa3942, 0x8771f681, 0x6d9d6122, 0xfde5380c,
+	0xa4beea44, 0x4bdecfa9, 0xf6bb4b60, 0xbebfbc70, 0x289b7ec6, 0xeaa127fa,
+	0xd4ef3085, 0x04881d05, 0xd9d4d039, 0xe6db99e5, 0x1fa27cf8, 0xc4ac5665,
+	0xf4292244, 0x432aff97, 0xab9423a7, 0xfc93a039, 0x655b59c3, 0x8f0ccc92,
+	0xffeff47d, 0x85845dd1, 0x6fa87e4f, 0xfe2ce6e0, 0xa3014314, 0x4e0811a1,
+	0xf7537e82, 0xbd3af235, 0x2ad7d2bb, 0xeb86d391,
+]);
+
+// Left rotation amounts of the four MD5 rounds
+const MD5_S = [
+	7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 5, 9, 14, 20, 5,
+	9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11,
+	16, 23, 4, 11, 16, 23, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15,
+	21,
+];
+
+// Message word order and rotation amounts of the left and right RIPEMD-160 lines
+const RIPEMD_R = [
+	0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 7, 4, 13, 1, 10, 6, 15,
+	3, 12, 0, 9, 5, 2, 14, 11, 8, 3, 10, 14, 4, 9, 15, 8, 1, 2, 7, 0, 6, 13, 11,
+	5, 12, 1, 9, 11, 10, 0, 8, 12, 4, 13, 3, 7, 15, 14, 5, 6, 2, 4, 0, 5, 9, 7,
+	12, 2, 10, 14, 1, 3, 8, 11, 6, 15, 13,
+];
+const RIPEMD_R_RIGHT = [
+	5, 14, 7, 0, 9, 2, 11, 4, 13, 6, 15, 8, 1, 10, 3, 12, 6, 11, 3, 7, 0, 13, 5,
+	10, 14, 15, 8, 12, 4, 9, 1, 2, 15, 5, 1, 3, 7, 14, 6, 9, 11, 8, 12, 2, 10, 0,
+	4, 13, 8, 6, 4, 1, 3, 11, 15, 0, 5, 12, 2, 13, 9, 7, 10, 14, 12, 15, 10, 4, 1,
+	5, 8, 7, 6, 2, 13, 14, 0, 3, 9, 11,
+];
+const RIPEMD_S = [
+	11, 14, 15, 12, 5, 8, 7, 9, 11, 13, 14, 15, 6, 7, 9, 8, 7, 6, 8, 13, 11, 9, 7,
+	15, 7, 12, 15, 9, 11, 7, 13, 12, 11, 13, 6, 7, 14, 9, 13, 15, 14, 8, 13, 6, 5,
+	12, 7, 5, 11, 12, 14, 15, 14, 15, 9, 8, 9, 14, 5, 6, 8, 6, 5, 12, 9, 15, 5,
+	11, 6, 8, 13, 12, 5, 12, 13, 14, 11, 8, 5, 6,
+];
+const RIPEMD_S_RIGHT = [
+	8, 9, 9, 11, 13, 15, 15, 5, 7, 7, 8, 11, 14, 14, 12, 6, 9, 13, 15, 7, 12, 8,
+	9, 11, 7, 7, 12, 7, 6, 15, 13, 11, 9, 7, 15, 11, 8, 6, 6, 14, 12, 13, 5, 14,
+	13, 13, 7, 5, 15, 5, 8, 11, 14, 14, 6, 14, 6, 9, 12, 9, 12, 5, 15, 8, 8, 5,
+	12, 9, 12, 5, 14, 6, 8, 13, 6, 5, 15, 13, 11, 11,
+];
+
+// Round constants of the left and right RIPEMD-160 lines
+const RIPEMD_K = [0x00000000, 0x5a827999, 0x6ed9eba1, 0x8f1bbcdc, 0xa953fd4e];
+const RIPEMD_K_RIGHT = [0x50a28be6, 0x5c4dd124, 0x6d703ef3, 0x7a6d76e9, 0];
+
+const IV_MD5 = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476];
+const IV_RIPEMD160 = [
+	0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0,
+];
+
+/**
+ * MD5 hash provider with a pure TypeScript implementation (RFC 1321).
+ *
+ * MD5 is broken: collisions can be computed in seconds, so it is flagged with
+ * `secure: false` and is not part of the base providers. Use it only where a
+ * protocol requires it, such as `Content-MD5` headers or S3 ETags.
+ *
+ * @example
+ * ```typescript
+ * import { Hashery, MD5 } from 'hashery';
+ *
+ * const hashery = new Hashery();
+ * hashery.loadProviders([new MD5()], { includeBase: false });
+ * hashery.toHashSync('abc', { algorithm: 'md5' });
+ * ```
+ */
+export class MD5 implements HashProvider {
+	/**
+	 * The name identifier for this hash provider.
+	 */
+	public get name(): string {
+		return "md5";
+	}
+
+	/**
+	 * MD5 is not collision resistant and must not be used for security.
+	 */
+	public get secure(): boolean {
+		return false;
+	}
+
+	/**
+	 * Gets the block size in bytes.
+	 */
+	public get blockSize(): number {
+		return 64;
+	}
+
+	/**
+	 * Computes the MD5 hash of the provided data synchronously.
+	 *
+	 * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+	 * @returns A 32 character lowercase hexadecimal string
+	 */
+	public toHashSync(data: BufferSource): string {
+		return this.createHasher().update(data).digest();
+	}
+
+	/**
+	 * Computes the MD5 hash of the provided data.
+	 *
+	 * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+	 * @returns A Promise resolving to a 32 character lowercase hexadecimal string
+	 */
+	public async toHash(data: BufferSource): Promise<string> {
+		return this.toHashSync(data);
+	}
+
+	/**
+	 * Creates an incremental MD5 hasher, so large data can be hashed in chunks.
+	 *
+	 * @returns A hasher that can be fed data in chunks
+	 */
+	public createHasher(): Hasher {
+		return new Md5Hasher();
+	}
+}
+
+/**
+ * RIPEMD-160 hash provider with a pure TypeScript implementation.
+ *
+ * RIPEMD-160 is a legacy 160-bit hash, flagged with `secure: false` and not part of
+ * the base providers. It is still needed for Bitcoin-style addresses, which hash the
+ * SHA-256 digest again with RIPEMD-160.
+ *
+ * @example
+ * ```typescript
+ * import { RIPEMD160 } from 'hashery';
+ *
+ * const ripemd160 = new RIPEMD160();
+ * ripemd160.toHashSync(new TextEncoder().encode('abc'));
+ * // "8eb208f7e05d987a9b044a8e98c6b087f15a0bfc"
+ * ```
+ */
+export class RIPEMD160 implements HashProvider {
+	/**
+	 * The name identifier for this hash provider.
+	 */
+	public get name(): string {
+		return "ripemd160";
+	}
+
+	/**
+	 * RIPEMD-160 is a legacy algorithm and should not be used for new security work.
+	 */
+	public get secure(): boolean {
+		return false;
+	}
+
+	/**
+	 * Gets the block size in bytes.
+	 */
+	public get blockSize(): number {
+		return 64;
+	}
+
+	/**
+	 * Computes the RIPEMD-160 hash of the provided data synchronously.
+	 *
+	 * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+	 * @returns A 40 character lowercase hexadecimal string
+	 */
+	public toHashSync(data: BufferSource): string {
+		return this.createHasher().update(data).digest();
+	}
+
+	/**
+	 * Computes the RIPEMD-160 hash of the provided data.
+	 *
+	 * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+	 * @returns A Promise resolving to a 40 character lowercase hexadecimal string
+	 */
+	public async toHash(data: BufferSource): Promise<string> {
+		return this.toHashSync(data);
+	}
+
+	/**
+	 * Creates an incremental RIPEMD-160 hasher, so large data can be hashed in chunks.
+	 *
+	 * @returns A hasher that can be fed data in chunks
+	 */
+	public createHasher(): Hasher {
+		return new Ripemd160Hasher();
+	}
+}
+
+/**
+ * Merkle–Damgård block buffering and padding shared by MD5 and RIPEMD-160. Both derive
+ * from MD4, so unlike SHA-2 they read words and append the length in little-endian order.
+ */
+abstract class Md4BlockHasher implements Hasher {
+	protected readonly _h: Int32Array;
+	protected readonly _x = new Int32Array(16);
+	private readonly _block = new Uint8Array(64);
+	private readonly _view = new DataView(this._block.buffer);
+	private _blockLength = 0;
+	private _length = 0;
+
+	constructor(iv: Array<number>) {
+		this._h = new Int32Array(iv);
+	}
+
+	public update(data: BufferSource): Hasher {
+		const bytes = toUint8Array(data);
+		let offset = 0;
+
+		while (offset < bytes.length) {
+			const take = Math.min(64 - this._blockLength, bytes.length - offset);
+			this._block.set(bytes.subarray(offset, offset + take), this._blockLength);
+			this._blockLength += take;
+			offset += take;
+
+			if (this._blockLength === 64) {
+				this._processBlock();
+				this._blockLength = 0;
+			}
+		}
+
+		this._length += bytes.length;
+		return this;
+	}
+
+	public digest(): string {
+		this._block[this._blockLength++] = 0x80;
+		if (this._blockLength > 56) {
+			this._block.fill(0, this._blockLength);
+			this._processBlock();
+			this._blockLength = 0;
+		}
+
+		this._block.fill(0, this._blockLength);
+		this._view.setUint32(56, (this._length << 3) >>> 0, true);
+		this._view.setUint32(60, Math.floor(this._length / 0x20000000), true);
+		this._processBlock();
+
+		const output = new Uint8Array(this._h.length * 4);
+		const outputView = new DataView(output.buffer);
+		for (let i = 0; i < this._h.length; i++) {
+			outputView.setInt32(i * 4, this._h[i], true);
+		}
+
+		return toHex(output);
+	}
+
+	private _processBlock(): void {
+		for (let i = 0; i < 16; i++) {
+			this._x[i] = this._view.getInt32(i * 4, true);
+		}
+
+		this._compress();
+	}
+
+	/**
+	 * Processes the message words of the current block in `_x`.
+	 */
+	protected abstract _compress(): void;
+}
+
+class Md5Hasher extends Md4BlockHasher {
+	constructor() {
+		super(IV_MD5);
+	}
+
+	protected _compress(): void {
+		const x = this._x;
+		const h = this._h;
+		let a = h[0];
+		let b = h[1];
+		let c = h[2];
+		let d = h[3];
+
+		for (let i = 0; i < 64; i++) {
+			let f: number;
+			let g: number;
+			if (i < 16) {
+				f = (b & c) | (~b & d);
+				g = i;
+			} else if (i < 32) {
+				f = (d & b) | (~d & c);
+				g = (5 * i + 1) % 16;
+			} else if (i < 48) {
+				f = b ^ c ^ d;
+				g = (3 * i + 5) % 16;
+			} else {
+				f = c ^ (b | ~d);
+				g = (7 * i) % 16;
+			}
+
+			const t = (a + f + MD5_K[i] + x[g]) | 0;
+			a = d;
+			d = c;
+			c = b;
+			b = (b + rotl(t, MD5_S[i])) | 0;
+		}
+
+		h[0] += a;
+		h[1] += b;
+		h[2] += c;
+		h[3] += d;
+	}
+}
+
+class Ripemd160Hasher extends Md4BlockHasher {
+	constructor() {
+		super(IV_RIPEMD160);
+	}
+
+	protected _compress(): void {
+		const x = this._x;
+		const h = this._h;
+		let al = h[0];
+		let bl = h[1];
+		let cl = h[2];
+		let dl = h[3];
+		let el = h[4];
+		let ar = al;
+		let br = bl;
+		let cr = cl;
+		let dr = dl;
+		let er = el;
+
+		for (let i = 0; i < 80; i++) {
+			const round = Math.floor(i / 16);
+
+			let t =
+				rotl(
+					(al + ripemdF(round, bl, cl, dl) + x[RIPEMD_R[i]] + RIPEMD_K[round]) |
+						0,
+					RIPEMD_S[i],
+				) + el;
+			al = el;
+			el = dl;
+			dl = rotl(cl, 10);
+			cl = bl;
+			bl = t | 0;
+
+			// The right line applies the boolean functions in reverse order
+			t =
+				rotl(
+					(ar +
+						ripemdF(4 - round, br, cr, dr) +
+						x[RIPEMD_R_RIGHT[i]] +
+						RIPEMD_K_RIGHT[round]) |
+						0,
+					RIPEMD_S_RIGHT[i],
+				) + er;
+			ar = er;
+			er = dr;
+			dr = rotl(cr, 10);
+			cr = br;
+			br = t | 0;
+		}
+
+		const t = (h[1] + cl + dr) | 0;
+		h[1] = h[2] + dl + er;
+		h[2] = h[3] + el + ar;
+		h[3] = h[4] + al + br;
+		h[4] = h[0] + bl + cr;
+		h[0] = t;
+	}
+}
+
+/**
+ * The boolean function of a RIPEMD-160 round.
+ */
+function ripemdF(round: number, x: number, y: number, z: number): number {
+	switch (round) {
+		case 0: {
+			return x ^ y ^ z;
+		}
+
+		case 1: {
+			return (x & y) | (~x & z);
+		}
+
+		case 2: {
+			return (x | ~y) ^ z;
+		}
+
+		case 3: {
+			return (x & z) | (y & ~z);
+		}
+
+		default: {
+			return x ^ (y | ~z);
+		}
+	}
+}
+
+function rotl(x: number, n: number): number {
+	return (x << n) | (x >>> (32 - n));
+}
@@ -1,4 +1,5 @@
-import type { HashProvider } from "../types.ts";
+import type { Hasher, HashProvider } from "../types.ts";
+import { toUint8Array } from "../utils.js";
 
 /**
  * Murmur 32-bit hash algorithm implementation.
@@ -63,132 +64,442 @@ export class Murmur implements HashProvider {
 	 * ```
 	 */
 	public toHashSync(data: BufferSource): string {
-		// Convert BufferSource to Uint8Array for consistent processing
-		let bytes: Uint8Array;
-
-		if (data instanceof Uint8Array) {
-			bytes = data;
-		} else if (data instanceof ArrayBuffer) {
-			bytes = new Uint8Array(data);
-		} else if (data instanceof DataView) {
-			bytes = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
-		} else {
-			// Fallback for other ArrayBufferView types (e.g., Int8Array, Uint16Array, etc.)
-			const view = data as ArrayBufferView;
-			bytes = new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+		return this.createHasher().update(data).digest();
+	}
+
+	/**
+	 * Computes the Murmur 32-bit hash of the provided data.
+	 *
+	 * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+	 * @returns A Promise resolving to an 8-character lowercase hexadecimal string
+	 *
+	 * @example
+	 * ```typescript
+	 * const murmur = new Murmur();
+	 * const data = new TextEncoder().encode('hello');
+	 * const hash = await murmur.toHash(data);
+	 * console.log(hash); // "248bfa47"
+	 * ```
+	 */
+	public async toHash(data: BufferSource): Promise<string> {
+		return this.toHashSync(data);
+	}
+
+	/**
+	 * Creates an incremental Murmur hasher using the configured seed,
+	 * so large data can be hashed in chunks.
+	 *
+	 * @returns A hasher that can be fed data in chunks
+	 *
+	 * @example
+	 * ```typescript
+	 * const hasher = new Murmur().createHasher();
+	 * hasher.update(new TextEncoder().encode('hel')).update(new TextEncoder().encode('lo'));
+	 * console.log(hasher.digest()); // "248bfa47"
+	 * ```
+	 */
+	public createHasher(): Hasher {
+		return new MurmurHasher(this._seed);
+	}
+}
+
+const C1 = 0xcc9e2d51;
+const C2 = 0x1b873593;
+
+/**
+ * Incremental MurmurHash3_x86_32. Bytes that do not fill a 4-byte block are kept
+ * until the next update or the final digest.
+ */
+class MurmurHasher implements Hasher {
+	private _h1: number;
+	private _length = 0;
+	private _tail = 0;
+	private _tailLength = 0;
+
+	constructor(seed: number) {
+		this._h1 = seed;
+	}
+
+	public update(data: BufferSource): Hasher {
+		const bytes = toUint8Array(data);
+		let h1 = this._h1;
+		let tail = this._tail;
+		let tailLength = this._tailLength;
+
+		for (let i = 0; i < bytes.length; i++) {
+			// Collect little-endian 4-byte blocks
+			tail |= bytes[i] << (tailLength * 8);
+			tailLength++;
+
+			if (tailLength === 4) {
+				h1 ^= mixK1(tail);
+				h1 = rotl32(h1, 13);
+				h1 = (Math.imul(h1, 5) + 0xe6546b64) | 0;
+				tail = 0;
+				tailLength = 0;
+			}
+		}
+
+		this._h1 = h1;
+		this._tail = tail;
+		this._tailLength = tailLength;
+		this._length += bytes.length;
+		return this;
+	}
+
+	public digest(): string {
+		let h1 = this._h1;
+
+		// Process remaining bytes
+		if (this._tailLength > 0) {
+			h1 ^= mixK1(this._tail);
 		}
 
-		// MurmurHash3_x86_32 algorithm
-		const c1 = 0xcc9e2d51;
-		const c2 = 0x1b873593;
+		// Finalization (the length is mixed in modulo 2^32)
+		h1 ^= this._length;
+		h1 = fmix32(h1);
+
+		// Convert to 8-character lowercase hexadecimal string
+		return (h1 >>> 0).toString(16).padStart(8, "0");
+	}
+}
+
+function mixK1(k1: number): number {
+	k1 = Math.imul(k1, C1);
+	k1 = rotl32(k1, 15);
+	return Math.imul(k1, C2);
+}
+
+/**
+ * Left rotate a 32-bit integer.
+ */
+function rotl32(x: number, r: number): number {
+	return (x << r) | (x >>> (32 - r));
+}
+
+const MASK_64 = 0xffffffffffffffffn;
+
+/**
+ * Murmur 128-bit hash algorithm implementation (MurmurHash3_x64_128).
+ *
+ * The x64 variant is optimized for 64-bit platforms and is the 128-bit MurmurHash3 most
+ * libraries use (e.g. Cassandra, Python's `mmh3.hash128`). Its much lower collision rate than
+ * the 32-bit variant makes it a good fit for bloom filters and deduplication keys.
+ * NOT for cryptographic purposes.
+ *
+ * The digest is h1 followed by h2, each as 16 hexadecimal characters.
+ *
+ * @example
+ * ```typescript
+ * import { Murmur128 } from 'hashery';
+ *
+ * const murmur128 = new Murmur128();
+ * const data = new TextEncoder().encode('The quick brown fox jumps over the lazy dog');
+ * murmur128.toHashSync(data); // "e34bbc7bbc071b6c7a433ca9c49a9347"
+ * ```
+ */
+export class Murmur128 implements HashProvider {
+	private _seed: number;
+
+	/**
+	 * Creates a new Murmur128 instance.
+	 *
+	 * @param seed - Optional seed value for the hash (default: 0)
+	 */
+	constructor(seed: number = 0) {
+		this._seed = seed >>> 0; // Ensure it's a 32-bit unsigned integer
+	}
+
+	/**
+	 * The name identifier for this hash provider.
+	 */
+	public get name(): string {
+		return "murmur128";
+	}
+
+	/**
+	 * Gets the current seed value used for hashing.
+	 */
+	public get seed(): number {
+		return this._seed;
+	}
+
+	/**
+	 * Computes the Murmur 128-bit (x64) hash of the provided data synchronously.
+	 *
+	 * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+	 * @returns A 32-character lowercase hexadecimal string
+	 */
+	public toHashSync(data: BufferSource): string {
+		const bytes = toUint8Array(data);
+		const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+		const c1 = 0x87c37b91114253d5n;
+		const c2 = 0x4cf5ad432745937fn;
 		const length = bytes.length;
-		const nblocks = Math.floor(length / 4);
+		const nblocks = Math.floor(length / 16);
 
-		let h1 = this._seed;
+		let h1 = BigInt(this._seed);
+		let h2 = BigInt(this._seed);
 
-		// Process 4-byte blocks
+		// Process 16-byte blocks
 		for (let i = 0; i < nblocks; i++) {
-			const index = i * 4;
-			let k1 =
-				(bytes[index] & 0xff) |
-				((bytes[index + 1] & 0xff) << 8) |
-				((bytes[index + 2] & 0xff) << 16) |
-				((bytes[index + 3] & 0xff) << 24);
-
-			k1 = this._imul(k1, c1);
-			k1 = this._rotl32(k1, 15);
-			k1 = this._imul(k1, c2);
+			let k1 = view.getBigUint64(i * 16, true);
+			let k2 = view.getBigUint64(i * 16 + 8, true);
 
+			k1 = (k1 * c1) & MASK_64;
+			k1 = rotl64(k1, 31n);
+			k1 = (k1 * c2) & MASK_64;
 			h1 ^= k1;
-			h1 = this._rotl32(h1, 13);
-			h1 = this._imul(h1, 5) + 0xe6546b64;
+
+			h1 = rotl64(h1, 27n);
+			h1 = (h1 + h2) & MASK_64;
+			h1 = (h1 * 5n + 0x52dce729n) & MASK_64;
+
+			k2 = (k2 * c2) & MASK_64;
+			k2 = rotl64(k2, 33n);
+			k2 = (k2 * c1) & MASK_64;
+			h2 ^= k2;
+
+			h2 = rotl64(h2, 31n);
+			h2 = (h2 + h1) & MASK_64;
+			h2 = (h2 * 5n + 0x38495ab5n) & MASK_64;
 		}
 
 		// Process remaining bytes
-		const tail = nblocks * 4;
-		let k1 = 0;
-
-		switch (length & 3) {
-			case 3:
-				k1 ^= (bytes[tail + 2] & 0xff) << 16;
-			// fallthrough
-			case 2:
-				k1 ^= (bytes[tail + 1] & 0xff) << 8;
-			// fallthrough
-			case 1:
-				k1 ^= bytes[tail] & 0xff;
-				k1 = this._imul(k1, c1);
-				k1 = this._rotl32(k1, 15);
-				k1 = this._imul(k1, c2);
-				h1 ^= k1;
+		const tail = nblocks * 16;
+		let k1 = 0n;
+		let k2 = 0n;
+		for (let i = length - 1; i >= tail + 8; i--) {
+			k2 = (k2 << 8n) | BigInt(bytes[i]);
+		}
+
+		for (let i = Math.min(length, tail + 8) - 1; i >= tail; i--) {
+			k1 = (k1 << 8n) | BigInt(bytes[i]);
+		}
+
+		if (length - tail > 8) {
+			k2 = (k2 * c2) & MASK_64;
+			k2 = rotl64(k2, 33n);
+			k2 = (k2 * c1) & MASK_64;
+			h2 ^= k2;
+		}
+
+		if (length - tail > 0) {
+			k1 = (k1 * c1) & MASK_64;
+			k1 = rotl64(k1, 31n);
+			k1 = (k1 * c2) & MASK_64;
+			h1 ^= k1;
 		}
 
 		// Finalization
-		h1 ^= length;
+		h1 ^= BigInt(length);
+		h2 ^= BigInt(length);
 
-		h1 ^= h1 >>> 16;
-		h1 = this._imul(h1, 0x85ebca6b);
-		h1 ^= h1 >>> 13;
-		h1 = this._imul(h1, 0xc2b2ae35);
-		h1 ^= h1 >>> 16;
+		h1 = (h1 + h2) & MASK_64;
+		h2 = (h2 + h1) & MASK_64;
 
-		// Convert to unsigned 32-bit integer
-		h1 = h1 >>> 0;
+		h1 = fmix64(h1);
+		h2 = fmix64(h2);
 
-		// Convert to 8-character lowercase hexadecimal string
-		const hashHex = h1.toString(16).padStart(8, "0");
+		h1 = (h1 + h2) & MASK_64;
+		h2 = (h2 + h1) & MASK_64;
 
-		return hashHex;
+		return (
+			h1.toString(16).padStart(16, "0") + h2.toString(16).padStart(16, "0")
+		);
 	}
 
 	/**
-	 * Computes the Murmur 32-bit hash of the provided data.
+	 * Computes the Murmur 128-bit (x64) hash of the provided data.
 	 *
 	 * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
-	 * @returns A Promise resolving to an 8-character lowercase hexadecimal string
-	 *
-	 * @example
-	 * ```typescript
-	 * const murmur = new Murmur();
-	 * const data = new TextEncoder().encode('hello');
-	 * const hash = await murmur.toHash(data);
-	 * console.log(hash); // "248bfa47"
-	 * ```
+	 * @returns A Promise resolving to a 32-character lowercase hexadecimal string
 	 */
 	public async toHash(data: BufferSource): Promise<string> {
 		return this.toHashSync(data);
 	}
+}
+
+/**
+ * Murmur 128-bit hash algorithm implementation (MurmurHash3_x86_128).
+ *
+ * The x86 variant is optimized for 32-bit platforms and produces different digests than
+ * the x64 variant. NOT for cryptographic purposes.
+ *
+ * The digest is h1, h2, h3 and h4, each as 8 hexadecimal characters.
+ *
+ * @example
+ * ```typescript
+ * import { Murmur128x86 } from 'hashery';
+ *
+ * const murmur128x86 = new Murmur128x86();
+ * const data = new TextEncoder().encode('The quick brown fox jumps over the lazy dog');
+ * murmur128x86.toHashSync(data); // "2f1583c3ecee2c675d7bf66ce5e91d2c"
+ * ```
+ */
+export class Murmur128x86 implements HashProvider {
+	private _seed: number;
+
+	/**
+	 * Creates a new Murmur128x86 instance.
+	 *
+	 * @param seed - Optional seed value for the hash (default: 0)
+	 */
+	constructor(seed: number = 0) {
+		this._seed = seed >>> 0; // Ensure it's a 32-bit unsigned integer
+	}
 
 	/**
-	 * 32-bit integer multiplication with proper overflow handling.
-	 * @private
+	 * The name identifier for this hash provider.
 	 */
-	private _imul(a: number, b: number): number {
-		// Use Math.imul if available, otherwise fallback to manual implementation
-		/* v8 ignore next -- @preserve */
-		if (Math.imul) {
-			return Math.imul(a, b);
+	public get name(): string {
+		return "murmur128x86";
+	}
+
+	/**
+	 * Gets the current seed value used for hashing.
+	 */
+	public get seed(): number {
+		return this._seed;
+	}
+
+	/**
+	 * Computes the Murmur 128-bit (x86) hash of the provided data synchronously.
+	 *
+	 * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+	 * @returns A 32-character lowercase hexadecimal string
+	 */
+	public toHashSync(data: BufferSource): string {
+		const bytes = toUint8Array(data);
+		const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+		const c1 = 0x239b961b;
+		const c2 = 0xab0e9789;
+		const c3 = 0x38b34ae5;
+		const c4 = 0xa1e38b93;
+		const length = bytes.length;
+		const nblocks = Math.floor(length / 16);
+
+		let h1 = this._seed;
+		let h2 = this._seed;
+		let h3 = this._seed;
+		let h4 = this._seed;
+
+		// Process 16-byte blocks
+		for (let i = 0; i < nblocks; i++) {
+			const index = i * 16;
+			let k1 = view.getUint32(index, true);
+			let k2 = view.getUint32(index + 4, true);
+			let k3 = view.getUint32(index + 8, true);
+			let k4 = view.getUint32(index + 12, true);
+
+			k1 = Math.imul(rotl32(Math.imul(k1, c1), 15), c2);
+			h1 ^= k1;
+			h1 = rotl32(h1, 19);
+			h1 = (h1 + h2) | 0;
+			h1 = (Math.imul(h1, 5) + 0x561ccd1b) | 0;
+
+			k2 = Math.imul(rotl32(Math.imul(k2, c2), 16), c3);
+			h2 ^= k2;
+			h2 = rotl32(h2, 17);
+			h2 = (h2 + h3) | 0;
+			h2 = (Math.imul(h2, 5) + 0x0bcaa747) | 0;
+
+			k3 = Math.imul(rotl32(Math.imul(k3, c3), 17), c4);
+			h3 ^= k3;
+			h3 = rotl32(h3, 15);
+			h3 = (h3 + h4) | 0;
+			h3 = (Math.imul(h3, 5) + 0x96cd1c35) | 0;
+
+			k4 = Math.imul(rotl32(Math.imul(k4, c4), 18), c1);
+			h4 ^= k4;
+			h4 = rotl32(h4, 13);
+			h4 = (h4 + h1) | 0;
+			h4 = (Math.imul(h4, 5) + 0x32ac3b17) | 0;
+		}
+
+		// Process remaining bytes, up to four partial 32-bit words
+		const tail = nblocks * 16;
+		const k = [0, 0, 0, 0];
+		for (let i = tail; i < length; i++) {
+			const offset = i - tail;
+			k[offset >> 2] |= bytes[i] << ((offset & 3) * 8);
 		}
 
-		// Manual 32-bit multiplication
-		/* v8 ignore next -- @preserve */
-		const ah = (a >>> 16) & 0xffff;
-		/* v8 ignore next -- @preserve */
-		const al = a & 0xffff;
-		/* v8 ignore next -- @preserve */
-		const bh = (b >>> 16) & 0xffff;
-		/* v8 ignore next -- @preserve */
-		const bl = b & 0xffff;
+		const remaining = length - tail;
+		if (remaining > 12) {
+			h4 ^= Math.imul(rotl32(Math.imul(k[3], c4), 18), c1);
+		}
 
-		/* v8 ignore next -- @preserve */
-		return ((al * bl) + (((ah * bl + al * bh) << 16) >>> 0)) | 0;
+		if (remaining > 8) {
+			h3 ^= Math.imul(rotl32(Math.imul(k[2], c3), 17), c4);
+		}
+
+		if (remaining > 4) {
+			h2 ^= Math.imul(rotl32(Math.imul(k[1], c2), 16), c3);
+		}
+
+		if (remaining > 0) {
+			h1 ^= Math.imul(rotl32(Math.imul(k[0], c1), 15), c2);
+		}
+
+		// Finalization
+		h1 ^= length;
+		h2 ^= length;
+		h3 ^= length;
+		h4 ^= length;
+
+		h1 = (h1 + h2 + h3 + h4) | 0;
+		h2 = (h2 + h1) | 0;
+		h3 = (h3 + h1) | 0;
+		h4 = (h4 + h1) | 0;
+
+		h1 = fmix32(h1);
+		h2 = fmix32(h2);
+		h3 = fmix32(h3);
+		h4 = fmix32(h4);
+
+		h1 = (h1 + h2 + h3 + h4) | 0;
+		h2 = (h2 + h1) | 0;
+		h3 = (h3 + h1) | 0;
+		h4 = (h4 + h1) | 0;
+
+		return [h1, h2, h3, h4]
+			.map((h) => (h >>> 0).toString(16).padStart(8, "0"))
+			.join("");
 	}
 
 	/**
-	 * Left rotate a 32-bit integer.
-	 * @private
+	 * Computes the Murmur 128-bit (x86) hash of the provided data.
+	 *
+	 * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+	 * @returns A Promise resolving to a 32-character lowercase hexadecimal string
 	 */
-	private _rotl32(x: number, r: number): number {
-		return (x << r) | (x >>> (32 - r));
+	public async toHash(data: BufferSource): Promise<string> {
+		return this.toHashSync(data);
 	}
 }
+
+/**
+ * Left rotate a 64-bit integer.
+ */
+function rotl64(x: bigint, r: bigint): bigint {
+	return ((x << r) | (x >> (64n - r))) & MASK_64;
+}
+
+function fmix32(h: number): number {
+	h ^= h >>> 16;
+	h = Math.imul(h, 0x85ebca6b);
+	h ^= h >>> 13;
+	h = Math.imul(h, 0xc2b2ae35);
+	h ^= h >>> 16;
+	return h;
+}
+
+function fmix64(k: bigint): bigint {
+	k ^= k >> 33n;
+	k = (k * 0xff51afd7ed558ccdn) & MASK_64;
+	k ^= k >> 33n;
+	k = (k * 0xc4ceb9fe1a85ec53n) & MASK_64;
+	k ^= k >> 33n;
+	return k;
+}
@@ -0,0 +1,595 @@
+import type { Hasher, HashProvider } from "../types.ts";
+import { toHex, toUint8Array } from "../utils.js";
+
+/**
+ * SHA-2 algorithms with a pure TypeScript implementation.
+ */
+export type Sha2Algorithm =
+	| "SHA-224"
+	| "SHA-256"
+	| "SHA-384"
+	| "SHA-512"
+	| "SHA-512/224"
+	| "SHA-512/256";
+
+/**
+ * Options for the SHA-2 provider.
+ */
+export type SHA2Options = {
+	/**
+	 * The SHA-2 algorithm. Defaults to 'SHA-256'.
+	 */
+	algorithm?: Sha2Algorithm;
+};
+
+// First 32 bits of the fractional parts of the cube roots of the first 64 primes
+const K256 = new Int32Array([
+	0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1,
+	0x923f82a4, 0xab1c5ed5, 0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3,
+	0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+	0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+	0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147,
+	0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+	0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b,
+	0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+	0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+	0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208,
+	0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+// Same as K256, extended to 64 bits for the first 80 primes (high and low words)
+const K512 = new Int32Array([
+	0x428a2f98, 0xd728ae22, 0x71374491, 0x23ef65cd, 0xb5c0fbcf, 0xec4d3b2f,
+	0xe9b5dba5, 0x8189dbbc, 0x3956c25b, 0xf348b538, 0x59f111f1, 0xb605d019,
+	0x923f82a4, 0xaf194f9b, 0xab1c5ed5, 0xda6d8118, 0xd807aa98, 0xa3030242,
+	0x12835b01, 0x45706fbe, 0x243185be, 0x4ee4b28c, 0x550c7dc3, 0xd5ffb4e2,
+	0x72be5d74, 0xf27b896f, 0x80deb1fe, 0x3b1696b1, 0x9bdc06a7, 0x25c71235,
+	0xc19bf174, 0xcf692694, 0xe49b69c1, 0x9ef14ad2, 0xefbe4786, 0x384f25e3,
+	0x0fc19dc6, 0x8b8cd5b5, 0x240ca1cc, 0x77ac9c65, 0x2de92c6f, 0x592b0275,
+	0x4a7484aa, 0x6ea6e483, 0x5cb0a9dc, 0xbd41fbd4, 0x76f988da, 0x831153b5,
+	0x983e5152, 0xee66dfab, 0xa831c66d, 0x2db43210, 0xb00327c8, 0x98fb213f,
+	0xbf597fc7, 0xbeef0ee4, 0xc6e00bf3, 0x3da88fc2, 0xd5a79147, 0x930aa725,
+	0x06ca6351, 0xe003826f, 0x14292967, 0x0a0e6e70, 0x27b70a85, 0x46d22ffc,
+	0x2e1b2138, 0x5c26c926, 0x4d2c6dfc, 0x5ac42aed, 0x53380d13, 0x9d95b3df,
+	0x650a7354, 0x8baf63de, 0x766a0abb, 0x3c77b2a8, 0x81c2c92e, 0x47edaee6,
+	0x92722c85, 0x1482353b, 0xa2bfe8a1, 0x4cf10364, 0xa81a664b, 0xbc423001,
+	0xc24b8b70, 0xd0f89791, 0xc76c51a3, 0x0654be30, 0xd192e819, 0xd6ef5218,
+	0xd6990624, 0x5565a910, 0xf40e3585, 0x5771202a, 0x106aa070, 0x32bbd1b8,
+	0x19a4c116, 0xb8d2d0c8, 0x1e376c08, 0x5141ab53, 0x2748774c, 0xdf8eeb99,
+	0x34b0bcb5, 0xe19b48a8, 0x391c0cb3, 0xc5c95a63, 0x4ed8aa4a, 0xe3418acb,
+	0x5b9cca4f, 0x7763e373, 0x682e6ff3, 0xd6b2b8a3, 0x748f82ee, 0x5defb2fc,
+	0x78a5636f, 0x43172f60, 0x84c87814, 0xa1f0ab72, 0x8cc70208, 0x1a6439ec,
+	0x90befffa, 0x23631e28, 0xa4506ceb, 0xde82bde9, 0xbef9a3f7, 0xb2c67915,
+	0xc67178f2, 0xe372532b, 0xca273ece, 0xea26619c, 0xd186b8c7, 0x21c0c207,
+	0xeada7dd6, 0xcde0eb1e, 0xf57d4f7f, 0xee6ed178, 0x06f067aa, 0x72176fba,
+	0x0a637dc5, 0xa2c898a6, 0x113f9804, 0xbef90dae, 0x1b710b35, 0x131c471b,
+	0x28db77f5, 0x23047d84, 0x32caab7b, 0x40c72493, 0x3c9ebe0a, 0x15c9bebc,
+	0x431d67c4, 0x9c100d4c, 0x4cc5d4be, 0xcb3e42b6, 0x597f299c, 0xfc657e2a,
+	0x5fcb6fab, 0x3ad6faec, 0x6c44198c, 0x4a475817,
+]);
+
+const IV256 = [
+	0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c,
+	0x1f83d9ab, 0x5be0cd19,
+];
+
+const IV224 = [
+	0xc1059ed8, 0x367cd507, 0x3070dd17, 0xf70e5939, 0xffc00b31, 0x68581511,
+	0x64f98fa7, 0xbefa4fa4,
+];
+
+const IV384 = [
+	0xcbbb9d5d, 0xc1059ed8, 0x629a292a, 0x367cd507, 0x9159015a, 0x3070dd17,
+	0x152fecd8, 0xf70e5939, 0x67332667, 0xffc00b31, 0x8eb44a87, 0x68581511,
+	0xdb0c2e0d, 0x64f98fa7, 0x47b5481d, 0xbefa4fa4,
+];
+
+const IV512 = [
+	0x6a09e667, 0xf3bcc908, 0xbb67ae85, 0x84caa73b, 0x3c6ef372, 0xfe94f82b,
+	0xa54ff53a, 0x5f1d36f1, 0x510e527f, 0xade682d1, 0x9b05688c, 0x2b3e6c1f,
+	0x1f83d9ab, 0xfb41bd6b, 0x5be0cd19, 0x137e2179,
+];
+
+// SHA-512/t initial hash values, generated from IV512 as described in FIPS 180-4
+const IV512_224 = [
+	0x8c3d37c8, 0x19544da2, 0x73e19966, 0x89dcd4d6, 0x1dfab7ae, 0x32ff9c82,
+	0x679dd514, 0x582f9fcf, 0x0f6d2b69, 0x7bd44da8, 0x77e36f73, 0x04c48942,
+	0x3f9d85a8, 0x6a1d36c8, 0x1112e6ad, 0x91d692a1,
+];
+
+const IV512_256 = [
+	0x22312194, 0xfc2bf72c, 0x9f555fa3, 0xc84c64c2, 0x2393b86b, 0x6f53b151,
+	0x96387719, 0x5940eabd, 0x96283ee2, 0xa88effe3, 0xbe5e1e25, 0x53863992,
+	0x2b0199fc, 0x2c85b8aa, 0x0eb72ddc, 0x81c52ca2,
+];
+
+const IV1 = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0];
+
+/**
+ * Pure TypeScript SHA-2 provider, for the SHA-2 variants WebCrypto does not support
+ * (SHA-224, SHA-512/224 and SHA-512/256). It supports SHA-256, SHA-384 and SHA-512 too,
+ * with the same digests as the `WebCrypto` provider.
+ *
+ * SHA-224 is SHA-256 with other initial values, truncated to 224 bits. SHA-512/224 and
+ * SHA-512/256 are truncated SHA-512 variants, which are faster than SHA-256 on 64-bit
+ * platforms and not vulnerable to length extension attacks.
+ *
+ * @example
+ * ```typescript
+ * import { SHA2 } from 'hashery';
+ *
+ * const sha512_256 = new SHA2({ algorithm: 'SHA-512/256' });
+ * sha512_256.toHashSync(new TextEncoder().encode('abc'));
+ * // "53048e2681941ef99b2e29b76b4c7dabe4c2d0c634fc6d46e0e2f13107e7af23"
+ * ```
+ */
+export class SHA2 implements HashProvider {
+	private readonly _algorithm: Sha2Algorithm;
+
+	/**
+	 * Creates a new SHA-2 instance.
+	 *
+	 * @param options - The SHA-2 algorithm (default: 'SHA-256')
+	 */
+	constructor(options?: SHA2Options) {
+		this._algorithm = options?.algorithm ?? "SHA-256";
+	}
+
+	/**
+	 * The name identifier for this hash provider, the algorithm name.
+	 */
+	public get name(): string {
+		return this._algorithm;
+	}
+
+	/**
+	 * Gets the block size in bytes: 64 for SHA-224 and SHA-256, 128 for the SHA-512 variants.
+	 */
+	public get blockSize(): number {
+		return this._algorithm === "SHA-224" || this._algorithm === "SHA-256"
+			? 64
+			: 128;
+	}
+
+	/**
+	 * Computes the SHA-2 hash of the provided data synchronously.
+	 *
+	 * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+	 * @returns A lowercase hexadecimal string
+	 */
+	public toHashSync(data: BufferSource): string {
+		return this.createHasher().update(data).digest();
+	}
+
+	/**
+	 * Computes the SHA-2 hash of the provided data.
+	 *
+	 * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+	 * @returns A Promise resolving to a lowercase hexadecimal string
+	 */
+	public async toHash(data: BufferSource): Promise<string> {
+		return this.toHashSync(data);
+	}
+
+	/**
+	 * Creates an incremental SHA-2 hasher, so large data can be hashed in chunks.
+	 *
+	 * @returns A hasher that can be fed data in chunks
+	 */
+	public createHasher(): Hasher {
+		return createSha2Hasher(this._algorithm);
+	}
+}
+
+/**
+ * Creates an incremental pure TypeScript SHA-2 hasher. The digests are identical to
+ * `crypto.subtle.digest`, which can only hash a complete buffer at once. SHA-1 shares
+ * the block size and padding of SHA-256, so it is supported as well.
+ *
+ * @param algorithm - The SHA-2 algorithm, or SHA-1
+ * @returns A hasher that can be fed data in chunks
+ *
+ * @example
+ * ```typescript
+ * const hasher = createSha2Hasher('SHA-256');
+ * hasher.update(new TextEncoder().encode('a')).update(new TextEncoder().encode('bc'));
+ * hasher.digest(); // "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"
+ * ```
+ */
+export function createSha2Hasher(algorithm: Sha2Algorithm | "SHA-1"): Hasher {
+	switch (algorithm) {
+		case "SHA-1": {
+			return new Sha1Hasher();
+		}
+
+		case "SHA-224": {
+			return new Sha256Hasher(IV224, 28);
+		}
+
+		case "SHA-256": {
+			return new Sha256Hasher(IV256, 32);
+		}
+
+		case "SHA-384": {
+			return new Sha512Hasher(IV384, 48);
+		}
+
+		case "SHA-512": {
+			return new Sha512Hasher(IV512, 64);
+		}
+
+		case "SHA-512/224": {
+			return new Sha512Hasher(IV512_224, 28);
+		}
+
+		case "SHA-512/256": {
+			return new Sha512Hasher(IV512_256, 32);
+		}
+	}
+}
+
+/**
+ * Merkle–Damgård block buffering and padding shared by the SHA-2 family and SHA-1.
+ */
+abstract class Sha2BlockHasher implements Hasher {
+	protected readonly _view: DataView;
+	private readonly _block: Uint8Array;
+	private readonly _outputLength: number;
+	private _blockLength = 0;
+	private _length = 0;
+
+	constructor(blockSize: number, outputLength: number) {
+		this._block = new Uint8Array(blockSize);
+		this._view = new DataView(this._block.buffer);
+		this._outputLength = outputLength;
+	}
+
+	public update(data: BufferSource): Hasher {
+		const bytes = toUint8Array(data);
+		const blockSize = this._block.length;
+		let offset = 0;
+
+		while (offset < bytes.length) {
+			const take = Math.min(
+				blockSize - this._blockLength,
+				bytes.length - offset,
+			);
+			this._block.set(bytes.subarray(offset, offset + take), this._blockLength);
+			this._blockLength += take;
+			offset += take;
+
+			if (this._blockLength === blockSize) {
+				this._compress();
+				this._blockLength = 0;
+			}
+		}
+
+		this._length += bytes.length;
+		return this;
+	}
+
+	public digest(): string {
+		const blockSize = this._block.length;
+		// SHA-256 appends the bit length as 64 bits, SHA-512 as 128 bits
+		const lengthSize = blockSize / 8;
+
+		this._block[this._blockLength++] = 0x80;
+		if (this._blockLength > blockSize - lengthSize) {
+			this._block.fill(0, this._blockLength);
+			this._compress();
+			this._blockLength = 0;
+		}
+
+		this._block.fill(0, this._blockLength);
+		this._view.setUint32(blockSize - 8, Math.floor(this._length / 0x20000000));
+		this._view.setUint32(blockSize - 4, (this._length << 3) >>> 0);
+		this._compress();
+
+		const output = new Uint8Array(this._outputLength);
+		const outputView = new DataView(output.buffer);
+		const state = this._state();
+		for (let i = 0; i < this._outputLength / 4; i++) {
+			outputView.setInt32(i * 4, state[i]);
+		}
+
+		return toHex(output);
+	}
+
+	/**
+	 * Processes the current block.
+	 */
+	protected abstract _compress(): void;
+
+	/**
+	 * Gets the state as big-endian 32-bit words.
+	 */
+	protected abstract _state(): Int32Array;
+}
+
+class Sha256Hasher extends Sha2BlockHasher {
+	private readonly _h: Int32Array;
+	private readonly _w = new Int32Array(64);
+
+	constructor(iv: Array<number>, outputLength: number) {
+		super(64, outputLength);
+		this._h = new Int32Array(iv);
+	}
+
+	protected _compress(): void {
+		const w = this._w;
+		const h = this._h;
+
+		for (let i = 0; i < 16; i++) {
+			w[i] = this._view.getInt32(i * 4);
+		}
+
+		for (let i = 16; i < 64; i++) {
+			const w15 = w[i - 15];
+			const w2 = w[i - 2];
+			const s0 = rotr(w15, 7) ^ rotr(w15, 18) ^ (w15 >>> 3);
+			const s1 = rotr(w2, 17) ^ rotr(w2, 19) ^ (w2 >>> 10);
+			w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+		}
+
+		let a = h[0];
+		let b = h[1];
+		let c = h[2];
+		let d = h[3];
+		let e = h[4];
+		let f = h[5];
+		let g = h[6];
+		let hh = h[7];
+
+		for (let i = 0; i < 64; i++) {
+			const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+			const ch = (e & f) ^ (~e & g);
+			const t1 = (hh + s1 + ch + K256[i] + w[i]) | 0;
+			const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+			const maj = (a & b) ^ (a & c) ^ (b & c);
+			const t2 = (s0 + maj) | 0;
+
+			hh = g;
+			g = f;
+			f = e;
+			e = (d + t1) | 0;
+			d = c;
+			c = b;
+			b = a;
+			a = (t1 + t2) | 0;
+		}
+
+		h[0] += a;
+		h[1] += b;
+		h[2] += c;
+		h[3] += d;
+		h[4] += e;
+		h[5] += f;
+		h[6] += g;
+		h[7] += hh;
+	}
+
+	protected _state(): Int32Array {
+		return this._h;
+	}
+}
+
+class Sha1Hasher extends Sha2BlockHasher {
+	private readonly _h = new Int32Array(IV1);
+	private readonly _w = new Int32Array(80);
+
+	constructor() {
+		super(64, 20);
+	}
+
+	protected _compress(): void {
+		const w = this._w;
+		const h = this._h;
+
+		for (let i = 0; i < 16; i++) {
+			w[i] = this._view.getInt32(i * 4);
+		}
+
+		for (let i = 16; i < 80; i++) {
+			w[i] = rotr(w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16], 31);
+		}
+
+		let a = h[0];
+		let b = h[1];
+		let c = h[2];
+		let d = h[3];
+		let e = h[4];
+
+		for (let i = 0; i < 80; i++) {
+			let f: number;
+			let k: number;
+			if (i < 20) {
+				f = (b & c) | (~b & d);
+				k = 0x5a827999;
+			} else if (i < 40) {
+				f = b ^ c ^ d;
+				k = 0x6ed9eba1;
+			} else if (i < 60) {
+				f = (b & c) | (b & d) | (c & d);
+				k = 0x8f1bbcdc;
+			} else {
+				f = b ^ c ^ d;
+				k = 0xca62c1d6;
+			}
+
+			const t = (rotr(a, 27) + f + e + k + w[i]) | 0;
+			e = d;
+			d = c;
+			c = rotr(b, 2);
+			b = a;
+			a = t;
+		}
+
+		h[0] += a;
+		h[1] += b;
+		h[2] += c;
+		h[3] += d;
+		h[4] += e;
+	}
+
+	protected _state(): Int32Array {
+		return this._h;
+	}
+}
+
+/**
+ * SHA-512 works on 64-bit words, which are kept as pairs of 32-bit integers
+ * (high word at even, low word at odd indexes) to avoid slow BigInt arithmetic.
+ */
+class Sha512Hasher extends Sha2BlockHasher {
+	private readonly _h: Int32Array;
+	private readonly _w = new Int32Array(160);
+
+	constructor(iv: Array<number>, outputLength: number) {
+		super(128, outputLength);
+		this._h = new Int32Array(iv);
+	}
+
+	protected _compress(): void {
+		const w = this._w;
+		const h = this._h;
+
+		for (let i = 0; i < 32; i++) {
+			w[i] = this._view.getInt32(i * 4);
+		}
+
+		for (let i = 16; i < 80; i++) {
+			// σ0 = rotr 1 ^ rotr 8 ^ shr 7
+			const xh = w[(i - 15) * 2];
+			const xl = w[(i - 15) * 2 + 1];
+			const s0h = rotrHigh(xh, xl, 1) ^ rotrHigh(xh, xl, 8) ^ (xh >>> 7);
+			const s0l =
+				rotrLow(xh, xl, 1) ^ rotrLow(xh, xl, 8) ^ ((xl >>> 7) | (xh << 25));
+
+			// σ1 = rotr 19 ^ rotr 61 ^ shr 6
+			const yh = w[(i - 2) * 2];
+			const yl = w[(i - 2) * 2 + 1];
+			const s1h = rotrHigh(yh, yl, 19) ^ rotrHigh(yl, yh, 29) ^ (yh >>> 6);
+			const s1l =
+				rotrLow(yh, yl, 19) ^ rotrLow(yl, yh, 29) ^ ((yl >>> 6) | (yh << 26));
+
+			const low =
+				(w[(i - 16) * 2 + 1] >>> 0) +
+				(s0l >>> 0) +
+				(w[(i - 7) * 2 + 1] >>> 0) +
+				(s1l >>> 0);
+			w[i * 2] =
+				(w[(i - 16) * 2] + s0h + w[(i - 7) * 2] + s1h + carry(low)) | 0;
+			w[i * 2 + 1] = low | 0;
+		}
+
+		let ah = h[0];
+		let al = h[1];
+		let bh = h[2];
+		let bl = h[3];
+		let ch = h[4];
+		let cl = h[5];
+		let dh = h[6];
+		let dl = h[7];
+		let eh = h[8];
+		let el = h[9];
+		let fh = h[10];
+		let fl = h[11];
+		let gh = h[12];
+		let gl = h[13];
+		let hh = h[14];
+		let hl = h[15];
+
+		for (let i = 0; i < 80; i++) {
+			// Σ1 = rotr 14 ^ rotr 18 ^ rotr 41
+			const s1h =
+				rotrHigh(eh, el, 14) ^ rotrHigh(eh, el, 18) ^ rotrHigh(el, eh, 9);
+			const s1l =
+				rotrLow(eh, el, 14) ^ rotrLow(eh, el, 18) ^ rotrLow(el, eh, 9);
+			const chh = (eh & fh) ^ (~eh & gh);
+			const chl = (el & fl) ^ (~el & gl);
+
+			const t1Low =
+				(hl >>> 0) +
+				(s1l >>> 0) +
+				(chl >>> 0) +
+				(K512[i * 2 + 1] >>> 0) +
+				(w[i * 2 + 1] >>> 0);
+			const t1h = (hh + s1h + chh + K512[i * 2] + w[i * 2] + carry(t1Low)) | 0;
+			const t1l = t1Low | 0;
+
+			// Σ0 = rotr 28 ^ rotr 34 ^ rotr 39
+			const s0h =
+				rotrHigh(ah, al, 28) ^ rotrHigh(al, ah, 2) ^ rotrHigh(al, ah, 7);
+			const s0l = rotrLow(ah, al, 28) ^ rotrLow(al, ah, 2) ^ rotrLow(al, ah, 7);
+			const majh = (ah & bh) ^ (ah & ch) ^ (bh & ch);
+			const majl = (al & bl) ^ (al & cl) ^ (bl & cl);
+
+			hh = gh;
+			hl = gl;
+			gh = fh;
+			gl = fl;
+			fh = eh;
+			fl = el;
+
+			const eLow = (dl >>> 0) + (t1l >>> 0);
+			eh = (dh + t1h + carry(eLow)) | 0;
+			el = eLow | 0;
+
+			dh = ch;
+			dl = cl;
+			ch = bh;
+			cl = bl;
+			bh = ah;
+			bl = al;
+
+			const aLow = (t1l >>> 0) + (s0l >>> 0) + (majl >>> 0);
+			ah = (t1h + s0h + majh + carry(aLow)) | 0;
+			al = aLow | 0;
+		}
+
+		add64(h, 0, ah, al);
+		add64(h, 2, bh, bl);
+		add64(h, 4, ch, cl);
+		add64(h, 6, dh, dl);
+		add64(h, 8, eh, el);
+		add64(h, 10, fh, fl);
+		add64(h, 12, gh, gl);
+		add64(h, 14, hh, hl);
+	}
+
+	protected _state(): Int32Array {
+		return this._h;
+	}
+}
+
+function rotr(x: number, n: number): number {
+	return (x >>> n) | (x << (32 - n));
+}
+
+/**
+ * High word of a 64-bit right rotation by n < 32. Rotations by n >= 32
+ * swap the words and rotate by n - 32.
+ */
+function rotrHigh(high: number, low: number, n: number): number {
+	return (high >>> n) | (low << (32 - n));
+}
+
+/**
+ * Low word of a 64-bit right rotation by n < 32.
+ */
+function rotrLow(high: number, low: number, n: number): number {
+	return (low >>> n) | (high << (32 - n));
+}
+
+/**
+ * Gets the carry into the high word from a sum of unsigned low words.
+ */
+function carry(low: number): number {
+	return Math.floor(low / 0x100000000);
+}
+
+function add64(state: Int32Array, index: number, high: number, low: number) {
+	const sum = (state[index + 1] >>> 0) + (low >>> 0);
+	state[index] = state[index] + high + carry(sum);
+	state[index + 1] = sum;
+}
@@ -0,0 +1,408 @@
+import type { Hasher, HashProvider } from "../types.ts";
+import { toHex, toUint8Array } from "../utils.js";
+
+/**
+ * Fixed-length algorithms of the SHA-3 provider. Keccak-256 is the original Keccak
+ * submission used by Ethereum, which differs from SHA3-256 only in its padding.
+ */
+export type SHA3Algorithm =
+	| "SHA3-224"
+	| "SHA3-256"
+	| "SHA3-384"
+	| "SHA3-512"
+	| "Keccak-256";
+
+/**
+ * Options for the SHA-3 provider.
+ */
+export type SHA3Options = {
+	/**
+	 * The SHA-3 algorithm. Defaults to 'SHA3-256'.
+	 */
+	algorithm?: SHA3Algorithm;
+};
+
+/**
+ * Options for the SHAKE providers.
+ */
+export type SHAKEOptions = {
+	/**
+	 * The security level in bits, 128 or 256. Defaults to 256.
+	 */
+	securityLevel?: 128 | 256;
+
+	/**
+	 * Output length in bytes, any positive integer. Defaults to twice the security level
+	 * (32 bytes for SHAKE128, 64 bytes for SHAKE256), which gives full collision resistance.
+	 */
+	outputLength?: number;
+};
+
+// Domain separation bits and the first padding bit
+const SHA3_SUFFIX = 0x06;
+const KECCAK_SUFFIX = 0x01;
+const SHAKE_SUFFIX = 0x1f;
+
+// Round constants as [low, high] word pairs
+const RC = new Uint32Array([
+	0x00000001, 0x00000000, 0x00008082, 0x00000000, 0x0000808a, 0x80000000,
+	0x80008000, 0x80000000, 0x0000808b, 0x00000000, 0x80000001, 0x00000000,
+	0x80008081, 0x80000000, 0x00008009, 0x80000000, 0x0000008a, 0x00000000,
+	0x00000088, 0x00000000, 0x80008009, 0x00000000, 0x8000000a, 0x00000000,
+	0x8000808b, 0x00000000, 0x0000008b, 0x80000000, 0x00008089, 0x80000000,
+	0x00008003, 0x80000000, 0x00008002, 0x80000000, 0x00000080, 0x80000000,
+	0x0000800a, 0x00000000, 0x8000000a, 0x80000000, 0x80008081, 0x80000000,
+	0x00008080, 0x80000000, 0x80000001, 0x00000000, 0x80008008, 0x80000000,
+]);
+
+// Rotation offsets and lane order of the combined rho and pi steps
+const ROTATIONS = [
+	1, 3, 6, 10, 15, 21, 28, 36, 45, 55, 2, 14, 27, 41, 56, 8, 25, 43, 62, 18, 39,
+	61, 20, 44,
+];
+const LANES = [
+	10, 7, 11, 17, 18, 3, 5, 16, 8, 21, 24, 4, 15, 23, 19, 13, 12, 2, 20, 14, 22,
+	9, 6, 1,
+];
+
+/**
+ * SHA-3 hash algorithm implementation (FIPS 202), plus the original Keccak-256.
+ *
+ * SHA-3 is built on the Keccak sponge construction instead of the Merkle–Damgård
+ * construction of SHA-2, so it is not vulnerable to length extension attacks. WebCrypto
+ * does not support it, this is a pure TypeScript implementation with sync and async
+ * support.
+ *
+ * @example
+ * ```typescript
+ * import { SHA3 } from 'hashery';
+ *
+ * const sha3 = new SHA3({ algorithm: 'SHA3-256' });
+ * sha3.toHashSync(new TextEncoder().encode('abc'));
+ * // "3a985da74fe225b2045c172d6bd390bd855f086e3e9d525b46bfe24511431532"
+ *
+ * // Ethereum uses Keccak-256
+ * const keccak = new SHA3({ algorithm: 'Keccak-256' });
+ * ```
+ */
+export class SHA3 implements HashProvider {
+	private readonly _algorithm: SHA3Algorithm;
+
+	/**
+	 * Creates a new SHA-3 instance.
+	 *
+	 * @param options - The SHA-3 algorithm (default: 'SHA3-256')
+	 */
+	constructor(options?: SHA3Options) {
+		this._algorithm = options?.algorithm ?? "SHA3-256";
+	}
+
+	/**
+	 * The name identifier for this hash provider, the algorithm name.
+	 */
+	public get name(): string {
+		return this._algorithm;
+	}
+
+	/**
+	 * Gets the block size (the sponge rate) in bytes.
+	 */
+	public get blockSize(): number {
+		// The capacity is twice the output length
+		return 200 - this._digestLength() * 2;
+	}
+
+	/**
+	 * Computes the SHA-3 hash of the provided data synchronously.
+	 *
+	 * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+	 * @returns A lowercase hexadecimal string
+	 */
+	public toHashSync(data: BufferSource): string {
+		return this.createHasher().update(data).digest();
+	}
+
+	/**
+	 * Computes the SHA-3 hash of the provided data.
+	 *
+	 * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+	 * @returns A Promise resolving to a lowercase hexadecimal string
+	 */
+	public async toHash(data: BufferSource): Promise<string> {
+		return this.toHashSync(data);
+	}
+
+	/**
+	 * Creates an incremental SHA-3 hasher, so large data can be hashed in chunks.
+	 *
+	 * @returns A hasher that can be fed data in chunks
+	 */
+	public createHasher(): Hasher {
+		const suffix =
+			this._algorithm === "Keccak-256" ? KECCAK_SUFFIX : SHA3_SUFFIX;
+		return new KeccakHasher(this.blockSize, suffix, this._digestLength());
+	}
+
+	/**
+	 * Gets the digest length in bytes from the algorithm name.
+	 */
+	private _digestLength(): number {
+		return Number(this._algorithm.slice(-3)) / 8;
+	}
+}
+
+/**
+ * SHAKE extendable output function implementation (FIPS 202).
+ *
+ * SHAKE128 and SHAKE256 are the SHA-3 variants with an output of any length. The
+ * provider name is 'SHAKE128' / 'SHAKE256' for the default output length and
+ * 'SHAKE128-<bits>' / 'SHAKE256-<bits>' otherwise.
+ *
+ * @example
+ * ```typescript
+ * import { SHAKE } from 'hashery';
+ *
+ * const shake = new SHAKE({ securityLevel: 128, outputLength: 16 });
+ * shake.name; // "SHAKE128-128"
+ * ```
+ */
+export class SHAKE implements HashProvider {
+	private readonly _securityLevel: 128 | 256;
+	private readonly _outputLength: number;
+
+	/**
+	 * Creates a new SHAKE instance.
+	 *
+	 * @param options - The security level and output length
+	 * @throws {Error} If the output length is not a positive integer
+	 */
+	constructor(options?: SHAKEOptions) {
+		this._securityLevel = options?.securityLevel ?? 256;
+		this._outputLength = options?.outputLength ?? this._securityLevel / 4;
+		if (!Number.isInteger(this._outputLength) || this._outputLength < 1) {
+			throw new Error(
+				`SHAKE output length must be a positive integer, got ${this._outputLength}`,
+			);
+		}
+	}
+
+	/**
+	 * The name identifier for this hash provider.
+	 */
+	public get name(): string {
+		const name = `SHAKE${this._securityLevel}`;
+		return this._outputLength === this._securityLevel / 4
+			? name
+			: `${name}-${this._outputLength * 8}`;
+	}
+
+	/**
+	 * Gets the output length in bytes.
+	 */
+	public get outputLength(): number {
+		return this._outputLength;
+	}
+
+	/**
+	 * Gets the block size (the sponge rate) in bytes.
+	 */
+	public get blockSize(): number {
+		// The capacity is twice the security level
+		return 200 - this._securityLevel / 4;
+	}
+
+	/**
+	 * Computes the SHAKE output of the provided data synchronously.
+	 *
+	 * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+	 * @returns A lowercase hexadecimal string of twice the output length
+	 */
+	public toHashSync(data: BufferSource): string {
+		return this.createHasher().update(data).digest();
+	}
+
+	/**
+	 * Computes the SHAKE output of the provided data.
+	 *
+	 * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+	 * @returns A Promise resolving to a lowercase hexadecimal string
+	 */
+	public async toHash(data: BufferSource): Promise<string> {
+		return this.toHashSync(data);
+	}
+
+	/**
+	 * Creates an incremental SHAKE hasher, so large data can be hashed in chunks.
+	 *
+	 * @returns A hasher that can be fed data in chunks
+	 */
+	public createHasher(): Hasher {
+		return new KeccakHasher(this.blockSize, SHAKE_SUFFIX, this._outputLength);
+	}
+}
+
+/**
+ * SHAKE128, the extendable output function with 128-bit security.
+ *
+ * @example
+ * ```typescript
+ * import { SHAKE128 } from 'hashery';
+ *
+ * const shake128 = new SHAKE128(64);
+ * shake128.toHashSync(new TextEncoder().encode('abc')); // 128 hex characters
+ * ```
+ */
+export class SHAKE128 extends SHAKE {
+	/**
+	 * Creates a new SHAKE128 instance.
+	 *
+	 * @param outputLength - The output length in bytes (default: 32)
+	 */
+	constructor(outputLength?: number) {
+		super({ securityLevel: 128, outputLength });
+	}
+}
+
+/**
+ * SHAKE256, the extendable output function with 256-bit security.
+ */
+export class SHAKE256 extends SHAKE {
+	/**
+	 * Creates a new SHAKE256 instance.
+	 *
+	 * @param outputLength - The output length in bytes (default: 64)
+	 */
+	constructor(outputLength?: number) {
+		super({ securityLevel: 256, outputLength });
+	}
+}
+
+/**
+ * Keccak sponge with the Keccak-f[1600] permutation. The 25 lanes of the state are
+ * stored as [low, high] word pairs.
+ */
+class KeccakHasher implements Hasher {
+	private readonly _state = new Uint32Array(50);
+	private readonly _block: Uint8Array;
+	private readonly _view: DataView;
+	private readonly _suffix: number;
+	private readonly _outputLength: number;
+	private _blockLength = 0;
+
+	constructor(rate: number, suffix: number, outputLength: number) {
+		this._block = new Uint8Array(rate);
+		this._view = new DataView(this._block.buffer);
+		this._suffix = suffix;
+		this._outputLength = outputLength;
+	}
+
+	public update(data: BufferSource): Hasher {
+		const bytes = toUint8Array(data);
+		const rate = this._block.length;
+
+		for (let offset = 0; offset < bytes.length; ) {
+			const take = Math.min(rate - this._blockLength, bytes.length - offset);
+			this._block.set(bytes.subarray(offset, offset + take), this._blockLength);
+			this._blockLength += take;
+			offset += take;
+
+			if (this._blockLength === rate) {
+				this._absorb();
+				this._blockLength = 0;
+			}
+		}
+
+		return this;
+	}
+
+	public digest(): string {
+		const rate = this._block.length;
+
+		// Pad with the suffix bits, then zeros and a final 1 bit
+		this._block.fill(0, this._blockLength);
+		this._block[this._blockLength] = this._suffix;
+		this._block[rate - 1] |= 0x80;
+		this._absorb();
+
+		// Squeeze out the output, a rate at a time
+		const output = new Uint8Array(Math.ceil(this._outputLength / rate) * rate);
+		const view = new DataView(output.buffer);
+		for (let offset = 0; offset < output.length; offset += rate) {
+			if (offset > 0) {
+				keccakF1600(this._state);
+			}
+
+			for (let i = 0; i < rate / 4; i++) {
+				view.setUint32(offset + i * 4, this._state[i], true);
+			}
+		}
+
+		return toHex(output.subarray(0, this._outputLength));
+	}
+
+	private _absorb(): void {
+		for (let i = 0; i < this._block.length / 4; i++) {
+			this._state[i] ^= this._view.getUint32(i * 4, true);
+		}
+
+		keccakF1600(this._state);
+	}
+}
+
+function keccakF1600(state: Uint32Array): void {
+	const c = new Uint32Array(10);
+
+	for (let round = 0; round < 24; round++) {
+		// Theta: XOR each lane with the parities of two neighbouring columns
+		for (let x = 0; x < 10; x++) {
+			c[x] =
+				state[x] ^
+				state[x + 10] ^
+				state[x + 20] ^
+				state[x + 30] ^
+				state[x + 40];
+		}
+
+		for (let x = 0; x < 10; x += 2) {
+			const left = (x + 8) % 10;
+			const right = (x + 2) % 10;
+			const low = c[left] ^ ((c[right] << 1) | (c[right + 1] >>> 31));
+			const high = c[left + 1] ^ ((c[right + 1] << 1) | (c[right] >>> 31));
+			for (let y = 0; y < 50; y += 10) {
+				state[x + y] ^= low;
+				state[x + y + 1] ^= high;
+			}
+		}
+
+		// Rho and pi: rotate each lane and move it to its new position
+		let low = state[2];
+		let high = state[3];
+		for (let i = 0; i < 24; i++) {
+			const lane = LANES[i] * 2;
+			const nextLow = state[lane];
+			const nextHigh = state[lane + 1];
+			let shift = ROTATIONS[i];
+			if (shift > 32) {
+				[low, high] = [high, low];
+				shift -= 32;
+			}
+
+			state[lane] = (low << shift) | (high >>> (32 - shift));
+			state[lane + 1] = (high << shift) | (low >>> (32 - shift));
+			low = nextLow;
+			high = nextHigh;
+		}
+
+		// Chi: combine each lane with the next two lanes of its row
+		for (let y = 0; y < 50; y += 10) {
+			c.set(state.subarray(y, y + 10));
+			for (let x = 0; x < 10; x++) {
+				state[y + x] = c[x] ^ (~c[(x + 2) % 10] & c[(x + 4) % 10]);
+			}
+		}
+
+		// Iota
+		state[0] ^= RC[round * 2];
+		state[1] ^= RC[round * 2 + 1];
+	}
+}
@@ -0,0 +1,306 @@
+import type { Hasher, HashProvider } from "../types.ts";
+import { toHex, toUint8Array } from "../utils.js";
+
+const MASK_64 = 0xffffffffffffffffn;
+
+/**
+ * The SipHash key size in bytes.
+ */
+const KEY_LENGTH = 16;
+
+/**
+ * Options for the SipHash provider.
+ */
+export type SipHashOptions = {
+	/**
+	 * Number of SipRounds per 8-byte block (the "c" in SipHash-c-d). Defaults to 2.
+	 */
+	compressionRounds?: number;
+
+	/**
+	 * Number of SipRounds during finalization (the "d" in SipHash-c-d). Defaults to 4.
+	 */
+	finalizationRounds?: number;
+
+	/**
+	 * Output size in bits, 64 or 128. Defaults to 64.
+	 */
+	outputBits?: 64 | 128;
+};
+
+/**
+ * SipHash keyed hash implementation by Jean-Philippe Aumasson and Daniel J. Bernstein.
+ *
+ * SipHash is a pseudorandom function: without the 128-bit key an attacker cannot predict
+ * hashes, so they cannot craft inputs that all land in the same bucket (hash flooding).
+ * It is what most languages use for their hash tables. The key must stay secret for this
+ * to hold, and SipHash is NOT a general purpose cryptographic hash.
+ *
+ * The digest is the output bytes of the reference implementation, as hexadecimal.
+ *
+ * @example
+ * ```typescript
+ * import { SipHash } from 'hashery';
+ *
+ * const siphash = new SipHash(SipHash.generateKey(), { compressionRounds: 1, finalizationRounds: 3 });
+ * siphash.name; // "siphash13"
+ * ```
+ */
+export class SipHash implements HashProvider {
+	private readonly _key: Uint8Array<ArrayBuffer>;
+	private readonly _k0: bigint;
+	private readonly _k1: bigint;
+	private readonly _compressionRounds: number;
+	private readonly _finalizationRounds: number;
+	private readonly _outputBits: 64 | 128;
+
+	/**
+	 * Creates a new SipHash instance.
+	 *
+	 * @param key - The 16-byte key (default: 16 zero bytes, which gives no flooding resistance)
+	 * @param options - The number of rounds and the output size
+	 * @throws {Error} If the key is not 16 bytes long
+	 */
+	constructor(key?: BufferSource, options?: SipHashOptions) {
+		this._key = key ? toUint8Array(key).slice() : new Uint8Array(KEY_LENGTH);
+		if (this._key.length !== KEY_LENGTH) {
+			throw new Error(
+				`SipHash key must be ${KEY_LENGTH} bytes, got ${this._key.length}`,
+			);
+		}
+
+		const view = new DataView(this._key.buffer);
+		this._k0 = view.getBigUint64(0, true);
+		this._k1 = view.getBigUint64(8, true);
+		this._compressionRounds = options?.compressionRounds ?? 2;
+		this._finalizationRounds = options?.finalizationRounds ?? 4;
+		this._outputBits = options?.outputBits ?? 64;
+	}
+
+	/**
+	 * Generates a random 16-byte key with `crypto.getRandomValues`.
+	 *
+	 * @returns A new random key
+	 */
+	public static generateKey(): Uint8Array<ArrayBuffer> {
+		return crypto.getRandomValues(new Uint8Array(KEY_LENGTH));
+	}
+
+	/**
+	 * The name identifier for this hash provider, e.g. 'siphash24' or 'siphash13-128'.
+	 */
+	public get name(): string {
+		const name = `siphash${this._compressionRounds}${this._finalizationRounds}`;
+		return this._outputBits === 128 ? `${name}-128` : name;
+	}
+
+	/**
+	 * Gets a copy of the key used for hashing.
+	 */
+	public get key(): Uint8Array<ArrayBuffer> {
+		return this._key.slice();
+	}
+
+	/**
+	 * Gets the output size in bits.
+	 */
+	public get outputBits(): 64 | 128 {
+		return this._outputBits;
+	}
+
+	/**
+	 * Computes the SipHash of the provided data synchronously.
+	 *
+	 * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+	 * @returns A 16 or 32-character lowercase hexadecimal string
+	 */
+	public toHashSync(data: BufferSource): string {
+		return this.createHasher().update(data).digest();
+	}
+
+	/**
+	 * Computes the SipHash of the provided data.
+	 *
+	 * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+	 * @returns A Promise resolving to a 16 or 32-character lowercase hexadecimal string
+	 */
+	public async toHash(data: BufferSource): Promise<string> {
+		return this.toHashSync(data);
+	}
+
+	/**
+	 * Creates an incremental SipHash hasher, so large data can be hashed in chunks.
+	 *
+	 * @returns A hasher that can be fed data in chunks
+	 */
+	public createHasher(): Hasher {
+		return new SipHasher(
+			this._k0,
+			this._k1,
+			this._compressionRounds,
+			this._finalizationRounds,
+			this._outputBits,
+		);
+	}
+}
+
+/**
+ * SipHash-2-4, the original and most widely used SipHash variant.
+ *
+ * @example
+ * ```typescript
+ * import { SipHash24 } from 'hashery';
+ *
+ * const siphash = new SipHash24(SipHash24.generateKey());
+ * siphash.toHashSync(new TextEncoder().encode('user-controlled key'));
+ * ```
+ */
+export class SipHash24 extends SipHash {
+	/**
+	 * Creates a new SipHash-2-4 instance.
+	 *
+	 * @param key - The 16-byte key (default: 16 zero bytes)
+	 * @param outputBits - The output size in bits (default: 64)
+	 */
+	constructor(key?: BufferSource, outputBits: 64 | 128 = 64) {
+		super(key, { compressionRounds: 2, finalizationRounds: 4, outputBits });
+	}
+}
+
+/**
+ * SipHash-1-3, a faster variant with fewer rounds that is used for hash tables by Rust
+ * and Python. Still considered strong enough for hash-flooding protection.
+ */
+export class SipHash13 extends SipHash {
+	/**
+	 * Creates a new SipHash-1-3 instance.
+	 *
+	 * @param key - The 16-byte key (default: 16 zero bytes)
+	 * @param outputBits - The output size in bits (default: 64)
+	 */
+	constructor(key?: BufferSource, outputBits: 64 | 128 = 64) {
+		super(key, { compressionRounds: 1, finalizationRounds: 3, outputBits });
+	}
+}
+
+class SipHasher implements Hasher {
+	private readonly _compressionRounds: number;
+	private readonly _finalizationRounds: number;
+	private readonly _outputBits: 64 | 128;
+	private readonly _state: BigUint64Array;
+	private readonly _buffer = new Uint8Array(8);
+	private readonly _bufferView = new DataView(this._buffer.buffer);
+	private _bufferLength = 0;
+	private _length = 0;
+
+	constructor(
+		k0: bigint,
+		k1: bigint,
+		compressionRounds: number,
+		finalizationRounds: number,
+		outputBits: 64 | 128,
+	) {
+		this._compressionRounds = compressionRounds;
+		this._finalizationRounds = finalizationRounds;
+		this._outputBits = outputBits;
+		// "somepseudorandomlygeneratedbytes"
+		this._state = BigUint64Array.of(
+			k0 ^ 0x736f6d6570736575n,
+			k1 ^ 0x646f72616e646f6dn,
+			k0 ^ 0x6c7967656e657261n,
+			k1 ^ 0x7465646279746573n,
+		);
+		if (outputBits === 128) {
+			this._state[1] ^= 0xeen;
+		}
+	}
+
+	public update(data: BufferSource): Hasher {
+		const bytes = toUint8Array(data);
+		const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+		let offset = 0;
+		this._length += bytes.length;
+
+		// Complete a block left over from the previous chunk
+		if (this._bufferLength > 0) {
+			const take = Math.min(8 - this._bufferLength, bytes.length);
+			this._buffer.set(bytes.subarray(0, take), this._bufferLength);
+			this._bufferLength += take;
+			offset = take;
+			if (this._bufferLength < 8) {
+				return this;
+			}
+
+			this._compress(this._bufferView.getBigUint64(0, true));
+			this._bufferLength = 0;
+		}
+
+		for (; offset + 8 <= bytes.length; offset += 8) {
+			this._compress(view.getBigUint64(offset, true));
+		}
+
+		this._buffer.set(bytes.subarray(offset));
+		this._bufferLength = bytes.length - offset;
+		return this;
+	}
+
+	public digest(): string {
+		const state = this._state;
+
+		// The last block holds the remaining bytes and the message length modulo 256
+		this._buffer.fill(0, this._bufferLength);
+		this._buffer[7] = this._length & 0xff;
+		this._compress(this._bufferView.getBigUint64(0, true));
+
+		state[2] ^= this._outputBits === 128 ? 0xeen : 0xffn;
+		this._rounds(this._finalizationRounds);
+		const output = new BigUint64Array(this._outputBits / 64);
+		output[0] = state[0] ^ state[1] ^ state[2] ^ state[3];
+
+		if (this._outputBits === 128) {
+			state[1] ^= 0xddn;
+			this._rounds(this._finalizationRounds);
+			output[1] = state[0] ^ state[1] ^ state[2] ^ state[3];
+		}
+
+		const bytes = new Uint8Array(output.length * 8);
+		const view = new DataView(bytes.buffer);
+		for (let i = 0; i < output.length; i++) {
+			view.setBigUint64(i * 8, output[i], true);
+		}
+
+		return toHex(bytes);
+	}
+
+	private _compress(m: bigint): void {
+		this._state[3] ^= m;
+		this._rounds(this._compressionRounds);
+		this._state[0] ^= m;
+	}
+
+	private _rounds(count: number): void {
+		let [v0, v1, v2, v3] = this._state;
+
+		for (let i = 0; i < count; i++) {
+			v0 = (v0 + v1) & MASK_64;
+			v1 = rotl64(v1, 13n) ^ v0;
+			v0 = rotl64(v0, 32n);
+			v2 = (v2 + v3) & MASK_64;
+			v3 = rotl64(v3, 16n) ^ v2;
+			v0 = (v0 + v3) & MASK_64;
+			v3 = rotl64(v3, 21n) ^ v0;
+			v2 = (v2 + v1) & MASK_64;
+			v1 = rotl64(v1, 17n) ^ v2;
+			v2 = rotl64(v2, 32n);
+		}
+
+		this._state[0] = v0;
+		this._state[1] = v1;
+		this._state[2] = v2;
+		this._state[3] = v3;
+	}
+}
+
+function rotl64(x: bigint, r: bigint): bigint {
+	return ((x << r) | (x >> (64n - r))) & MASK_64;
+}
@@ -0,0 +1,957 @@
+import type { HashProvider } from "../types.ts";
+import { fromHex, toUint8Array } from "../utils.js";
+
+const MASK_64 = 0xffffffffffffffffn;
+
+const PRIME32_1 = 0x9e3779b1;
+const PRIME32_2 = 0x85ebca77;
+const PRIME32_3 = 0xc2b2ae3d;
+const PRIME32_4 = 0x27d4eb2f;
+const PRIME32_5 = 0x165667b1;
+
+const PRIME64_1 = 0x9e3779b185ebca87n;
+const PRIME64_2 = 0xc2b2ae3d27d4eb4fn;
+const PRIME64_3 = 0x165667b19e3779f9n;
+const PRIME64_4 = 0x85ebca77c2b2ae63n;
+const PRIME64_5 = 0x27d4eb2f165667c5n;
+
+const PRIME_MX1 = 0x165667919e3779f9n;
+const PRIME_MX2 = 0x9fb21c651e98df25n;
+
+/**
+ * The default XXH3 secret (`XXH3_kSecret`).
+ */
+const K_SECRET = fromHex(
+	"b8fe6c3923a44bbe7c01812cf721ad1cded46de9839097db7240a4a4b7b3671f" +
+		"cb79e64eccc0e578825ad07dccff7221b8084674f743248ee03590e6813a264c" +
+		"3c2852bb91c300cb88d0658b1b532ea371644897a20df94e3819ef46a9deacd8" +
+		"a8fa763fe39c343ff9dcbbc7c70b4f1d8a51e04bcdb45931c89f7ec9d9787364" +
+		"eac5ac8334d3ebc3c581a0fffa1363eb170ddd51b7f0da49d316552629d4689e" +
+		"2b16be587d47a1fc8ff8b8d17ad031ce45cb3a8f95160428afd7fbcabb4b407e",
+);
+
+const SECRET_SIZE_MIN = 136;
+const STRIPE_LENGTH = 64;
+const SECRET_CONSUME_RATE = 8;
+const ACC_NB = 8;
+const SECRET_LASTACC_START = 7;
+const SECRET_MERGEACCS_START = 11;
+const MIDSIZE_STARTOFFSET = 3;
+const MIDSIZE_LASTOFFSET = 17;
+
+/**
+ * XXH32 (xxHash 32-bit) hash algorithm implementation.
+ *
+ * xxHash is an extremely fast non-cryptographic hash function by Yann Collet.
+ * XXH32 produces a 32-bit hash value, suitable for hash tables and checksums,
+ * but NOT for cryptographic purposes.
+ *
+ * @example
+ * ```typescript
+ * import { XXH32 } from 'hashery';
+ *
+ * const xxh32 = new XXH32();
+ * xxh32.toHashSync(new TextEncoder().encode('hello')); // "fb0077f9"
+ * ```
+ */
+export class XXH32 implements HashProvider {
+	private _seed: number;
+
+	/**
+	 * Creates a new XXH32 instance.
+	 *
+	 * @param seed - Optional 32-bit seed value for the hash (default: 0)
+	 */
+	constructor(seed: number = 0) {
+		this._seed = seed >>> 0;
+	}
+
+	/**
+	 * The name identifier for this hash provider.
+	 */
+	public get name(): string {
+		return "xxhash32";
+	}
+
+	/**
+	 * Gets the current seed value used for hashing.
+	 */
+	public get seed(): number {
+		return this._seed;
+	}
+
+	/**
+	 * Computes the XXH32 hash of the provided data synchronously.
+	 *
+	 * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+	 * @returns An 8-character lowercase hexadecimal string
+	 */
+	public toHashSync(data: BufferSource): string {
+		const hash = xxh32(toUint8Array(data), this._seed);
+		return hash.toString(16).padStart(8, "0");
+	}
+
+	/**
+	 * Computes the XXH32 hash of the provided data.
+	 *
+	 * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+	 * @returns A Promise resolving to an 8-character lowercase hexadecimal string
+	 */
+	public async toHash(data: BufferSource): Promise<string> {
+		return this.toHashSync(data);
+	}
+}
+
+/**
+ * XXH64 (xxHash 64-bit) hash algorithm implementation.
+ *
+ * Produces a 64-bit hash value, NOT for cryptographic purposes.
+ *
+ * @example
+ * ```typescript
+ * import { XXH64 } from 'hashery';
+ *
+ * const xxh64 = new XXH64();
+ * xxh64.toHashSync(new TextEncoder().encode('hello')); // "26c7827d889f6da3"
+ * ```
+ */
+export class XXH64 implements HashProvider {
+	private _seed: bigint;
+
+	/**
+	 * Creates a new XXH64 instance.
+	 *
+	 * @param seed - Optional 64-bit seed value for the hash (default: 0)
+	 */
+	constructor(seed: number | bigint = 0) {
+		this._seed = BigInt.asUintN(64, BigInt(seed));
+	}
+
+	/**
+	 * The name identifier for this hash provider.
+	 */
+	public get name(): string {
+		return "xxhash64";
+	}
+
+	/**
+	 * Gets the current seed value used for hashing.
+	 */
+	public get seed(): bigint {
+		return this._seed;
+	}
+
+	/**
+	 * Computes the XXH64 hash of the provided data synchronously.
+	 *
+	 * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+	 * @returns A 16-character lowercase hexadecimal string
+	 */
+	public toHashSync(data: BufferSource): string {
+		return toHex64(xxh64(toUint8Array(data), this._seed));
+	}
+
+	/**
+	 * Computes the XXH64 hash of the provided data.
+	 *
+	 * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+	 * @returns A Promise resolving to a 16-character lowercase hexadecimal string
+	 */
+	public async toHash(data: BufferSource): Promise<string> {
+		return this.toHashSync(data);
+	}
+}
+
+/**
+ * XXH3 64-bit hash algorithm implementation (`XXH3_64bits`).
+ *
+ * XXH3 is the latest generation of xxHash with excellent speed and quality on
+ * small inputs, which makes it a good fit for cache keys. NOT for cryptographic purposes.
+ *
+ * @example
+ * ```typescript
+ * import { XXH3 } from 'hashery';
+ *
+ * const xxh3 = new XXH3();
+ * xxh3.toHashSync(new TextEncoder().encode('hello')); // "9555e8555c62dcfd"
+ * ```
+ */
+export class XXH3 implements HashProvider {
+	private _seed: bigint;
+
+	/**
+	 * Creates a new XXH3 instance.
+	 *
+	 * @param seed - Optional 64-bit seed value for the hash (default: 0)
+	 */
+	constructor(seed: number | bigint = 0) {
+		this._seed = BigInt.asUintN(64, BigInt(seed));
+	}
+
+	/**
+	 * The name identifier for this hash provider.
+	 */
+	public get name(): string {
+		return "xxh3";
+	}
+
+	/**
+	 * Gets the current seed value used for hashing.
+	 */
+	public get seed(): bigint {
+		return this._seed;
+	}
+
+	/**
+	 * Computes the XXH3 64-bit hash of the provided data synchronously.
+	 *
+	 * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+	 * @returns A 16-character lowercase hexadecimal string
+	 */
+	public toHashSync(data: BufferSource): string {
+		return toHex64(xxh3(toUint8Array(data), this._seed));
+	}
+
+	/**
+	 * Computes the XXH3 64-bit hash of the provided data.
+	 *
+	 * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+	 * @returns A Promise resolving to a 16-character lowercase hexadecimal string
+	 */
+	public async toHash(data: BufferSource): Promise<string> {
+		return this.toHashSync(data);
+	}
+}
+
+/**
+ * XXH3 128-bit hash algorithm implementation (`XXH3_128bits`, also known as XXH128).
+ *
+ * The digest is the canonical big-endian form (high 64 bits first). NOT for cryptographic purposes.
+ *
+ * @example
+ * ```typescript
+ * import { XXH128 } from 'hashery';
+ *
+ * const xxh128 = new XXH128();
+ * xxh128.toHashSync(new TextEncoder().encode('hello')); // "b5e9c1ad071b3e7fc779cfaa5e523818"
+ * ```
+ */
+export class XXH128 implements HashProvider {
+	private _seed: bigint;
+
+	/**
+	 * Creates a new XXH128 instance.
+	 *
+	 * @param seed - Optional 64-bit seed value for the hash (default: 0)
+	 */
+	constructor(seed: number | bigint = 0) {
+		this._seed = BigInt.asUintN(64, BigInt(seed));
+	}
+
+	/**
+	 * The name identifier for this hash provider.
+	 */
+	public get name(): string {
+		return "xxh3-128";
+	}
+
+	/**
+	 * Gets the current seed value used for hashing.
+	 */
+	public get seed(): bigint {
+		return this._seed;
+	}
+
+	/**
+	 * Computes the XXH3 128-bit hash of the provided data synchronously.
+	 *
+	 * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+	 * @returns A 32-character lowercase hexadecimal string
+	 */
+	public toHashSync(data: BufferSource): string {
+		const hash = xxh128(toUint8Array(data), this._seed);
+		return toHex64(hash.high) + toHex64(hash.low);
+	}
+
+	/**
+	 * Computes the XXH3 128-bit hash of the provided data.
+	 *
+	 * @param data - The data to hash (Uint8Array, ArrayBuffer, or DataView)
+	 * @returns A Promise resolving to a 32-character lowercase hexadecimal string
+	 */
+	public async toHash(data: BufferSource): Promise<string> {
+		return this.toHashSync(data);
+	}
+}
+
+type Hash128 = { low: bigint; high: bigint };
+
+function toHex64(value: bigint): string {
+	return value.toString(16).padStart(16, "0");
+}
+
+function view(bytes: Uint8Array): DataView {
+	return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+function rotl32(x: number, r: number): number {
+	return (x << r) | (x >>> (32 - r));
+}
+
+function rotl64(x: bigint, r: bigint): bigint {
+	return ((x << r) | (x >> (64n - r))) & MASK_64;
+}
+
+function mul64(a: bigint, b: bigint): bigint {
+	return (a * b) & MASK_64;
+}
+
+function add64(a: bigint, b: bigint): bigint {
+	return (a + b) & MASK_64;
+}
+
+function sub64(a: bigint, b: bigint): bigint {
+	return (a - b) & MASK_64;
+}
+
+function swap32(x: number): number {
+	return (
+		(((x << 24) & 0xff000000) |
+			((x << 8) & 0x00ff0000) |
+			((x >>> 8) & 0x0000ff00) |
+			((x >>> 24) & 0x000000ff)) >>>
+		0
+	);
+}
+
+function swap64(x: bigint): bigint {
+	let result = 0n;
+	for (let i = 0; i < 8; i++) {
+		result = (result << 8n) | (x & 0xffn);
+		x >>= 8n;
+	}
+
+	return result;
+}
+
+function mult64to128(a: bigint, b: bigint): Hash128 {
+	const product = a * b;
+	return { low: product & MASK_64, high: product >> 64n };
+}
+
+function mul128Fold64(a: bigint, b: bigint): bigint {
+	const product = mult64to128(a, b);
+	return product.low ^ product.high;
+}
+
+/* XXH32 */
+
+function xxh32Round(acc: number, input: number): number {
+	acc = (acc + Math.imul(input, PRIME32_2)) | 0;
+	acc = rotl32(acc, 13);
+	return Math.imul(acc, PRIME32_1);
+}
+
+function xxh32(bytes: Uint8Array, seed: number): number {
+	const data = view(bytes);
+	const length = bytes.length;
+	let offset = 0;
+	let h32: number;
+
+	if (length >= 16) {
+		let v1 = (seed + PRIME32_1 + PRIME32_2) | 0;
+		let v2 = (seed + PRIME32_2) | 0;
+		let v3 = seed | 0;
+		let v4 = (seed - PRIME32_1) | 0;
+
+		while (offset <= length - 16) {
+			v1 = xxh32Round(v1, data.getUint32(offset, true));
+			v2 = xxh32Round(v2, data.getUint32(offset + 4, true));
+			v3 = xxh32Round(v3, data.getUint32(offset + 8, true));
+			v4 = xxh32Round(v4, data.getUint32(offset + 12, true));
+			offset += 16;
+		}
+
+		h32 = rotl32(v1, 1) + rotl32(v2, 7) + rotl32(v3, 12) + rotl32(v4, 18);
+	} else {
+		h32 = seed + PRIME32_5;
+	}
+
+	h32 = (h32 + length) | 0;
+
+	while (offset <= length - 4) {
+		h32 = (h32 + Math.imul(data.getUint32(offset, true), PRIME32_3)) | 0;
+		h32 = Math.imul(rotl32(h32, 17), PRIME32_4);
+		offset += 4;
+	}
+
+	while (offset < length) {
+		h32 = (h32 + Math.imul(bytes[offset], PRIME32_5)) | 0;
+		h32 = Math.imul(rotl32(h32, 11), PRIME32_1);
+		offset++;
+	}
+
+	h32 ^= h32 >>> 15;
+	h32 = Math.imul(h32, PRIME32_2);
+	h32 ^= h32 >>> 13;
+	h32 = Math.imul(h32, PRIME32_3);
+	h32 ^= h32 >>> 16;
+
+	return h32 >>> 0;
+}
+
+/* XXH64 */
+
+function xxh64Round(acc: bigint, input: bigint): bigint {
+	acc = add64(acc, mul64(input, PRIME64_2));
+	acc = rotl64(acc, 31n);
+	return mul64(acc, PRIME64_1);
+}
+
+function xxh64MergeRound(acc: bigint, value: bigint): bigint {
+	acc ^= xxh64Round(0n, value);
+	return add64(mul64(acc, PRIME64_1), PRIME64_4);
+}
+
+function xxh64Avalanche(hash: bigint): bigint {
+	hash ^= hash >> 33n;
+	hash = mul64(hash, PRIME64_2);
+	hash ^= hash >> 29n;
+	hash = mul64(hash, PRIME64_3);
+	hash ^= hash >> 32n;
+	return hash;
+}
+
+function xxh64(bytes: Uint8Array, seed: bigint): bigint {
+	const data = view(bytes);
+	const length = bytes.length;
+	let offset = 0;
+	let h64: bigint;
+
+	if (length >= 32) {
+		let v1 = add64(seed, PRIME64_1 + PRIME64_2);
+		let v2 = add64(seed, PRIME64_2);
+		let v3 = seed;
+		let v4 = sub64(seed, PRIME64_1);
+
+		while (offset <= length - 32) {
+			v1 = xxh64Round(v1, data.getBigUint64(offset, true));
+			v2 = xxh64Round(v2, data.getBigUint64(offset + 8, true));
+			v3 = xxh64Round(v3, data.getBigUint64(offset + 16, true));
+			v4 = xxh64Round(v4, data.getBigUint64(offset + 24, true));
+			offset += 32;
+		}
+
+		h64 =
+			(rotl64(v1, 1n) + rotl64(v2, 7n) + rotl64(v3, 12n) + rotl64(v4, 18n)) &
+			MASK_64;
+		h64 = xxh64MergeRound(h64, v1);
+		h64 = xxh64MergeRound(h64, v2);
+		h64 = xxh64MergeRound(h64, v3);
+		h64 = xxh64MergeRound(h64, v4);
+	} else {
+		h64 = add64(seed, PRIME64_5);
+	}
+
+	h64 = add64(h64, BigInt(length));
+
+	while (offset <= length - 8) {
+		h64 ^= xxh64Round(0n, data.getBigUint64(offset, true));
+		h64 = add64(mul64(rotl64(h64, 27n), PRIME64_1), PRIME64_4);
+		offset += 8;
+	}
+
+	if (offset <= length - 4) {
+		h64 ^= mul64(BigInt(data.getUint32(offset, true)), PRIME64_1);
+		h64 = add64(mul64(rotl64(h64, 23n), PRIME64_2), PRIME64_3);
+		offset += 4;
+	}
+
+	while (offset < length) {
+		h64 ^= mul64(BigInt(bytes[offset]), PRIME64_5);
+		h64 = mul64(rotl64(h64, 11n), PRIME64_1);
+		offset++;
+	}
+
+	return xxh64Avalanche(h64);
+}
+
+/* XXH3 */
+
+function xxh3Avalanche(hash: bigint): bigint {
+	hash ^= hash >> 37n;
+	hash = mul64(hash, PRIME_MX1);
+	hash ^= hash >> 32n;
+	return hash;
+}
+
+function rrmxmx(hash: bigint, length: number): bigint {
+	hash ^= rotl64(hash, 49n) ^ rotl64(hash, 24n);
+	hash = mul64(hash, PRIME_MX2);
+	hash ^= (hash >> 35n) + BigInt(length);
+	hash = mul64(hash, PRIME_MX2);
+	hash ^= hash >> 28n;
+	return hash;
+}
+
+function mix16B(
+	data: DataView,
+	offset: number,
+	secret: DataView,
+	secretOffset: number,
+	seed: bigint,
+): bigint {
+	const inputLow = data.getBigUint64(offset, true);
+	const inputHigh = data.getBigUint64(offset + 8, true);
+	return mul128Fold64(
+		inputLow ^ add64(secret.getBigUint64(secretOffset, true), seed),
+		inputHigh ^ sub64(secret.getBigUint64(secretOffset + 8, true), seed),
+	);
+}
+
+/**
+ * Derives the secret used for long inputs from a seed (`XXH3_initCustomSecret`).
+ */
+function customSecret(seed: bigint): DataView {
+	if (seed === 0n) {
+		return view(K_SECRET);
+	}
+
+	const base = view(K_SECRET);
+	const secret = new DataView(new ArrayBuffer(K_SECRET.length));
+	for (let i = 0; i < K_SECRET.length; i += 16) {
+		secret.setBigUint64(i, add64(base.getBigUint64(i, true), seed), true);
+		secret.setBigUint64(
+			i + 8,
+			sub64(base.getBigUint64(i + 8, true), seed),
+			true,
+		);
+	}
+
+	return secret;
+}
+
+function accumulate512(
+	acc: Array<bigint>,
+	data: DataView,
+	offset: number,
+	secret: DataView,
+	secretOffset: number,
+): void {
+	for (let i = 0; i < ACC_NB; i++) {
+		const dataValue = data.getBigUint64(offset + i * 8, true);
+		const dataKey = dataValue ^ secret.getBigUint64(secretOffset + i * 8, true);
+		acc[i ^ 1] = add64(acc[i ^ 1], dataValue);
+		acc[i] = add64(acc[i], (dataKey & 0xffffffffn) * (dataKey >> 32n));
+	}
+}
+
+function scrambleAcc(
+	acc: Array<bigint>,
+	secret: DataView,
+	secretOffset: number,
+): void {
+	for (let i = 0; i < ACC_NB; i++) {
+		let value = acc[i];
+		value ^= value >> 47n;
+		value ^= secret.getBigUint64(secretOffset + i * 8, true);
+		acc[i] = mul64(value, BigInt(PRIME32_1));
+	}
+}
+
+/**
+ * Runs the accumulator loop used for inputs longer than 240 bytes.
+ */
+function hashLong(data: DataView, secret: DataView): Array<bigint> {
+	const length = data.byteLength;
+	const secretSize = secret.byteLength;
+	const acc = [
+		BigInt(PRIME32_3),
+		PRIME64_1,
+		PRIME64_2,
+		PRIME64_3,
+		PRIME64_4,
+		BigInt(PRIME32_2),
+		PRIME64_5,
+		BigInt(PRIME32_1),
+	];
+
+	const stripesPerBlock = (secretSize - STRIPE_LENGTH) / SECRET_CONSUME_RATE;
+	const blockLength = STRIPE_LENGTH * stripesPerBlock;
+	const blocks = Math.floor((length - 1) / blockLength);
+
+	for (let block = 0; block < blocks; block++) {
+		for (let stripe = 0; stripe < stripesPerBlock; stripe++) {
+			accumulate512(
+				acc,
+				data,
+				block * blockLength + stripe * STRIPE_LENGTH,
+				secret,
+				stripe * SECRET_CONSUME_RATE,
+			);
+		}
+
+		scrambleAcc(acc, secret, secretSize - STRIPE_LENGTH);
+	}
+
+	// Last partial block
+	const stripes = Math.floor(
+		(length - 1 - blockLength * blocks) / STRIPE_LENGTH,
+	);
+	for (let stripe = 0; stripe < stripes; stripe++) {
+		accumulate512(
+			acc,
+			data,
+			blocks * blockLength + stripe * STRIPE_LENGTH,
+			secret,
+			stripe * SECRET_CONSUME_RATE,
+		);
+	}
+
+	// Last stripe
+	accumulate512(
+		acc,
+		data,
+		length - STRIPE_LENGTH,
+		secret,
+		secretSize - STRIPE_LENGTH - SECRET_LASTACC_START,
+	);
+
+	return acc;
+}
+
+function mergeAccs(
+	acc: Array<bigint>,
+	secret: DataView,
+	secretOffset: number,
+	start: bigint,
+): bigint {
+	let result = start;
+	for (let i = 0; i < 4; i++) {
+		result = add64(
+			result,
+			mul128Fold64(
+				acc[2 * i] ^ secret.getBigUint64(secretOffset + 16 * i, true),
+				acc[2 * i + 1] ^ secret.getBigUint64(secretOffset + 16 * i + 8, true),
+			),
+		);
+	}
+
+	return xxh3Avalanche(result);
+}
+
+function xxh3(bytes: Uint8Array, seed: bigint): bigint {
+	const data = view(bytes);
+	const secret = view(K_SECRET);
+	const length = bytes.length;
+	const bigLength = BigInt(length);
+
+	if (length === 0) {
+		return xxh64Avalanche(
+			seed ^ secret.getBigUint64(56, true) ^ secret.getBigUint64(64, true),
+		);
+	}
+
+	if (length <= 3) {
+		const combined =
+			((bytes[0] << 16) |
+				(bytes[length >> 1] << 24) |
+				bytes[length - 1] |
+				(length << 8)) >>>
+			0;
+		const bitflip = add64(
+			BigInt((secret.getUint32(0, true) ^ secret.getUint32(4, true)) >>> 0),
+			seed,
+		);
+		return xxh64Avalanche(BigInt(combined) ^ bitflip);
+	}
+
+	if (length <= 8) {
+		const seed32 = Number(seed & 0xffffffffn);
+		const mixedSeed = seed ^ (BigInt(swap32(seed32)) << 32n);
+		const input1 = BigInt(data.getUint32(0, true));
+		const input2 = BigInt(data.getUint32(length - 4, true));
+		const bitflip = sub64(
+			secret.getBigUint64(8, true) ^ secret.getBigUint64(16, true),
+			mixedSeed,
+		);
+		const input64 = input2 + (input1 << 32n);
+		return rrmxmx(input64 ^ bitflip, length);
+	}
+
+	if (length <= 16) {
+		const bitflip1 = add64(
+			secret.getBigUint64(24, true) ^ secret.getBigUint64(32, true),
+			seed,
+		);
+		const bitflip2 = sub64(
+			secret.getBigUint64(40, true) ^ secret.getBigUint64(48, true),
+			seed,
+		);
+		const inputLow = data.getBigUint64(0, true) ^ bitflip1;
+		const inputHigh = data.getBigUint64(length - 8, true) ^ bitflip2;
+		const acc =
+			(bigLength +
+				swap64(inputLow) +
+				inputHigh +
+				mul128Fold64(inputLow, inputHigh)) &
+			MASK_64;
+		return xxh3Avalanche(acc);
+	}
+
+	if (length <= 128) {
+		let acc = mul64(bigLength, PRIME64_1);
+		if (length > 32) {
+			if (length > 64) {
+				if (length > 96) {
+					acc += mix16B(data, 48, secret, 96, seed);
+					acc += mix16B(data, length - 64, secret, 112, seed);
+				}
+
+				acc += mix16B(data, 32, secret, 64, seed);
+				acc += mix16B(data, length - 48, secret, 80, seed);
+			}
+
+			acc += mix16B(data, 16, secret, 32, seed);
+			acc += mix16B(data, length - 32, secret, 48, seed);
+		}
+
+		acc += mix16B(data, 0, secret, 0, seed);
+		acc += mix16B(data, length - 16, secret, 16, seed);
+		return xxh3Avalanche(acc & MASK_64);
+	}
+
+	if (length <= 240) {
+		const rounds = Math.floor(length / 16);
+		let acc = mul64(bigLength, PRIME64_1);
+		for (let i = 0; i < 8; i++) {
+			acc += mix16B(data, 16 * i, secret, 16 * i, seed);
+		}
+
+		acc = xxh3Avalanche(acc & MASK_64);
+		for (let i = 8; i < rounds; i++) {
+			acc += mix16B(
+				data,
+				16 * i,
+				secret,
+				16 * (i - 8) + MIDSIZE_STARTOFFSET,
+				seed,
+			);
+		}
+
+		acc += mix16B(
+			data,
+			length - 16,
+			secret,
+			SECRET_SIZE_MIN - MIDSIZE_LASTOFFSET,
+			seed,
+		);
+		return xxh3Avalanche(acc & MASK_64);
+	}
+
+	const longSecret = customSecret(seed);
+	const acc = hashLong(data, longSecret);
+	return mergeAccs(
+		acc,
+		longSecret,
+		SECRET_MERGEACCS_START,
+		mul64(bigLength, PRIME64_1),
+	);
+}
+
+/* XXH3 128-bit */
+
+function mix32B(
+	acc: Hash128,
+	data: DataView,
+	offset1: number,
+	offset2: number,
+	secret: DataView,
+	secretOffset: number,
+	seed: bigint,
+): Hash128 {
+	let low = add64(acc.low, mix16B(data, offset1, secret, secretOffset, seed));
+	low ^= add64(
+		data.getBigUint64(offset2, true),
+		data.getBigUint64(offset2 + 8, true),
+	);
+	let high = add64(
+		acc.high,
+		mix16B(data, offset2, secret, secretOffset + 16, seed),
+	);
+	high ^= add64(
+		data.getBigUint64(offset1, true),
+		data.getBigUint64(offset1 + 8, true),
+	);
+	return { low, high };
+}
+
+function finalize128(acc: Hash128, length: bigint, seed: bigint): Hash128 {
+	const low = add64(acc.low, acc.high);
+	const high =
+		(acc.low * PRIME64_1 +
+			acc.high * PRIME64_4 +
+			sub64(length, seed) * PRIME64_2) &
+		MASK_64;
+	return {
+		low: xxh3Avalanche(low),
+		high: sub64(0n, xxh3Avalanche(high)),
+	};
+}
+
+function xxh128(bytes: Uint8Array, seed: bigint): Hash128 {
+	const data = view(bytes);
+	const secret = view(K_SECRET);
+	const length = bytes.length;
+	const bigLength = BigInt(length);
+
+	if (length === 0) {
+		return {
+			low: xxh64Avalanche(
+				seed ^ secret.getBigUint64(64, true) ^ secret.getBigUint64(72, true),
+			),
+			high: xxh64Avalanche(
+				seed ^ secret.getBigUint64(80, true) ^ secret.getBigUint64(88, true),
+			),
+		};
+	}
+
+	if (length <= 3) {
+		const combinedLow =
+			((bytes[0] << 16) |
+				(bytes[length >> 1] << 24) |
+				bytes[length - 1] |
+				(length << 8)) >>>
+			0;
+		const combinedHigh = rotl32(swap32(combinedLow), 13) >>> 0;
+		const bitflipLow = add64(
+			BigInt((secret.getUint32(0, true) ^ secret.getUint32(4, true)) >>> 0),
+			seed,
+		);
+		const bitflipHigh = sub64(
+			BigInt((secret.getUint32(8, true) ^ secret.getUint32(12, true)) >>> 0),
+			seed,
+		);
+		return {
+			low: xxh64Avalanche(BigInt(combinedLow) ^ bitflipLow),
+			high: xxh64Avalanche(BigInt(combinedHigh) ^ bitflipHigh),
+		};
+	}
+
+	if (length <= 8) {
+		const seed32 = Number(seed & 0xffffffffn);
+		const mixedSeed = seed ^ (BigInt(swap32(seed32)) << 32n);
+		const inputLow = BigInt(data.getUint32(0, true));
+		const inputHigh = BigInt(data.getUint32(length - 4, true));
+		const input64 = inputLow + (inputHigh << 32n);
+		const bitflip = add64(
+			secret.getBigUint64(16, true) ^ secret.getBigUint64(24, true),
+			mixedSeed,
+		);
+		const keyed = input64 ^ bitflip;
+
+		const m128 = mult64to128(keyed, add64(PRIME64_1, bigLength << 2n));
+		m128.high = add64(m128.high, m128.low << 1n);
+		m128.low ^= m128.high >> 3n;
+		m128.low ^= m128.low >> 35n;
+		m128.low = mul64(m128.low, PRIME_MX2);
+		m128.low ^= m128.low >> 28n;
+		m128.high = xxh3Avalanche(m128.high);
+		return m128;
+	}
+
+	if (length <= 16) {
+		const bitflipLow = sub64(
+			secret.getBigUint64(32, true) ^ secret.getBigUint64(40, true),
+			seed,
+		);
+		const bitflipHigh = add64(
+			secret.getBigUint64(48, true) ^ secret.getBigUint64(56, true),
+			seed,
+		);
+		const inputLow = data.getBigUint64(0, true);
+		let inputHigh = data.getBigUint64(length - 8, true);
+
+		const m128 = mult64to128(inputLow ^ inputHigh ^ bitflipLow, PRIME64_1);
+		m128.low = add64(m128.low, (bigLength - 1n) << 54n);
+		inputHigh ^= bitflipHigh;
+		m128.high = add64(
+			m128.high,
+			inputHigh + (inputHigh & 0xffffffffn) * BigInt(PRIME32_2 - 1),
+		);
+		m128.low ^= swap64(m128.high);
+
+		const h128 = mult64to128(m128.low, PRIME64_2);
+		h128.high = add64(h128.high, m128.high * PRIME64_2);
+		return {
+			low: xxh3Avalanche(h128.low),
+			high: xxh3Avalanche(h128.high),
+		};
+	}
+
+	if (length <= 128) {
+		let acc: Hash128 = { low: mul64(bigLength, PRIME64_1), high: 0n };
+		if (length > 32) {
+			if (length > 64) {
+				if (length > 96) {
+					acc = mix32B(acc, data, 48, length - 64, secret, 96, seed);
+				}
+
+				acc = mix32B(acc, data, 32, length - 48, secret, 64, seed);
+			}
+
+			acc = mix32B(acc, data, 16, length - 32, secret, 32, seed);
+		}
+
+		acc = mix32B(acc, data, 0, length - 16, secret, 0, seed);
+		return finalize128(acc, bigLength, seed);
+	}
+
+	if (length <= 240) {
+		let acc: Hash128 = { low: mul64(bigLength, PRIME64_1), high: 0n };
+		for (let i = 32; i < 160; i += 32) {
+			acc = mix32B(acc, data, i - 32, i - 16, secret, i - 32, seed);
+		}
+
+		acc = { low: xxh3Avalanche(acc.low), high: xxh3Avalanche(acc.high) };
+		for (let i = 160; i <= length; i += 32) {
+			acc = mix32B(
+				acc,
+				data,
+				i - 32,
+				i - 16,
+				secret,
+				MIDSIZE_STARTOFFSET + i - 160,
+				seed,
+			);
+		}
+
+		acc = mix32B(
+			acc,
+			data,
+			length - 16,
+			length - 32,
+			secret,
+			SECRET_SIZE_MIN - MIDSIZE_LASTOFFSET - 16,
+			sub64(0n, seed),
+		);
+		return finalize128(acc, bigLength, seed);
+	}
+
+	const longSecret = customSecret(seed);
+	const acc = hashLong(data, longSecret);
+	return {
+		low: mergeAccs(
+			acc,
+			longSecret,
+			SECRET_MERGEACCS_START,
+			mul64(bigLength, PRIME64_1),
+		),
+		high: mergeAccs(
+			acc,
+			longSecret,
+			longSecret.byteLength - STRIPE_LENGTH - SECRET_MERGEACCS_START,
+			~mul64(bigLength, PRIME64_2) & MASK_64,
+		),
+	};
+}
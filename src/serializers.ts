@@ -0,0 +1,34 @@
+import { canonicalStringify } from "./serializers/canonical.js";
+import { canonicalize } from "./serializers/jcs.js";
+import { typedStringify } from "./serializers/typed.js";
+import type { SerializationMode, StringifyFn } from "./types.js";
+
+/**
+ * Built-in stringify functions keyed by their serialization mode.
+ */
+const serializers: Record<SerializationMode, StringifyFn> = {
+	json: JSON.stringify,
+	canonical: canonicalStringify,
+	jcs: canonicalize,
+	typed: typedStringify,
+};
+
+/**
+ * Gets the built-in stringify function for a serialization mode.
+ * @param mode - The serialization mode (e.g. 'json', 'canonical')
+ * @returns The stringify function for the mode
+ * @throws {Error} If the mode is not a built-in serialization mode
+ * @example
+ * ```ts
+ * const stringify = getSerializer('canonical');
+ * stringify({ b: 2, a: 1 }); // '{"a":1,"b":2}'
+ * ```
+ */
+export function getSerializer(mode: SerializationMode): StringifyFn {
+	// Own keys only, so 'toString' is rejected. Object.hasOwn is newer than the es2020 browser target
+	if (!Object.keys(serializers).includes(mode)) {
+		throw new Error(`Unknown serialization mode '${mode}'`);
+	}
+
+	return serializers[mode];
+}
@@ -0,0 +1,54 @@
+import type { StringifyFn } from "../types.js";
+
+/**
+ * Canonical JSON serializer.
+ *
+ * Works like `JSON.stringify` (including `toJSON` support and the handling of
+ * `undefined`, functions and symbols), but the keys of every object are sorted
+ * recursively. Two objects with the same keys and values always serialize to the
+ * same string, regardless of the order their keys were inserted in.
+ *
+ * @param data - The data to serialize
+ * @returns The canonical JSON representation
+ *
+ * @example
+ * ```typescript
+ * import { canonicalStringify } from 'hashery';
+ *
+ * canonicalStringify({ b: 2, a: 1 }); // '{"a":1,"b":2}'
+ * canonicalStringify({ a: 1, b: 2 }); // '{"a":1,"b":2}'
+ * ```
+ */
+export const canonicalStringify: StringifyFn = (data: unknown): string =>
+	JSON.stringify(data, sortKeys);
+
+/**
+ * JSON.stringify replacer that returns a copy of plain and class-based objects
+ * with their keys in sorted order. Arrays and boxed primitives are returned untouched,
+ * JSON.stringify unwraps Number, String and Boolean objects after the replacer runs.
+ */
+function sortKeys(_key: string, value: unknown): unknown {
+	if (
+		value === null ||
+		typeof value !== "object" ||
+		Array.isArray(value) ||
+		value instanceof Number ||
+		value instanceof String ||
+		value instanceof Boolean
+	) {
+		return value;
+	}
+
+	const record = value as Record<string, unknown>;
+	const sorted: Record<string, unknown> = {};
+	for (const key of Object.keys(record).sort()) {
+		Object.defineProperty(sorted, key, {
+			value: record[key],
+			enumerable: true,
+			writable: true,
+			configurable: true,
+		});
+	}
+
+	return sorted;
+}
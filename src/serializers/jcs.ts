@@ -0,0 +1,156 @@
+import type { StringifyFn } from "../types.js";
+
+/**
+ * JSON Canonicalization Scheme (JCS) serializer as specified by RFC 8785.
+ *
+ * - Object keys are sorted recursively by their UTF-16 code units
+ * - Numbers are serialized using the ECMAScript `Number.prototype.toString` rules
+ * - Strings are escaped exactly like `JSON.stringify` (minimal escaping, lowercase `\u00xx`)
+ * - No whitespace is emitted
+ *
+ * The output is byte-for-byte identical to other RFC 8785 implementations (e.g. Go, Java, Python),
+ * so hashes of canonicalized data can be compared across platforms.
+ *
+ * @param data - The data to canonicalize
+ * @returns The canonical JSON representation
+ * @throws {TypeError} If the data contains values JCS cannot represent (NaN, Infinity, BigInt,
+ * lone surrogates, circular references, or a top level `undefined`, function or symbol)
+ *
+ * @example
+ * ```typescript
+ * import { Hashery, canonicalize } from 'hashery';
+ *
+ * canonicalize({ b: [1e30, 4.5], a: "€" }); // '{"a":"€","b":[1e+30,4.5]}'
+ *
+ * const hashery = new Hashery({ stringify: canonicalize });
+ * ```
+ */
+export const canonicalize: StringifyFn = (data: unknown): string => {
+	const result = serialize(data, "", new Set());
+	if (result === undefined) {
+		throw new TypeError(`JCS cannot serialize a top level ${typeof data}`);
+	}
+
+	return result;
+};
+
+function serialize(
+	value: unknown,
+	key: string,
+	ancestors: Set<object>,
+): string | undefined {
+	// Honor toJSON (e.g. Date) the same way JSON.stringify does
+	if (
+		value !== null &&
+		typeof value === "object" &&
+		typeof (value as { toJSON?: unknown }).toJSON === "function"
+	) {
+		value = (value as { toJSON: (key: string) => unknown }).toJSON(key);
+	}
+
+	// Unwrap boxed primitives, as JSON.stringify does
+	if (value instanceof Number) {
+		value = Number(value);
+	} else if (value instanceof String) {
+		value = String(value);
+	} else if (value instanceof Boolean) {
+		value = value.valueOf();
+	}
+
+	switch (typeof value) {
+		case "undefined":
+		case "function":
+		case "symbol": {
+			return undefined;
+		}
+
+		case "boolean": {
+			return value ? "true" : "false";
+		}
+
+		case "number": {
+			if (!Number.isFinite(value)) {
+				throw new TypeError(`JCS cannot serialize the number ${value}`);
+			}
+
+			// ECMAScript number serialization, which also turns -0 into "0"
+			return JSON.stringify(value);
+		}
+
+		case "bigint": {
+			throw new TypeError("JCS cannot serialize a BigInt");
+		}
+
+		case "string": {
+			return serializeString(value);
+		}
+	}
+
+	if (value === null) {
+		return "null";
+	}
+
+	const object = value as object;
+	if (ancestors.has(object)) {
+		throw new TypeError("JCS cannot serialize a circular structure");
+	}
+
+	ancestors.add(object);
+
+	let result: string;
+	if (Array.isArray(object)) {
+		// A plain loop, as map skips the holes of sparse arrays, which become null
+		const items: Array<string> = [];
+		for (let index = 0; index < object.length; index++) {
+			items.push(serialize(object[index], String(index), ancestors) ?? "null");
+		}
+
+		result = `[${items.join(",")}]`;
+	} else {
+		const record = object as Record<string, unknown>;
+		const members: Array<string> = [];
+		// Array.prototype.sort compares strings by UTF-16 code units, as RFC 8785 requires
+		for (const property of Object.keys(record).sort()) {
+			const member = serialize(record[property], property, ancestors);
+			if (member !== undefined) {
+				members.push(`${serializeString(property)}:${member}`);
+			}
+		}
+
+		result = `{${members.join(",")}}`;
+	}
+
+	ancestors.delete(object);
+
+	return result;
+}
+
+function serializeString(value: string): string {
+	if (hasLoneSurrogate(value)) {
+		throw new TypeError("JCS cannot serialize a string with a lone surrogate");
+	}
+
+	return JSON.stringify(value);
+}
+
+/**
+ * Checks for an unpaired UTF-16 surrogate, which is not valid I-JSON. Written with
+ * charCodeAt, as regex lookbehind does not parse in older browsers.
+ */
+function hasLoneSurrogate(value: string): boolean {
+	for (let i = 0; i < value.length; i++) {
+		const code = value.charCodeAt(i);
+		if (code >= 0xd800 && code <= 0xdbff) {
+			const next = value.charCodeAt(i + 1);
+			if (!(next >= 0xdc00 && next <= 0xdfff)) {
+				return true;
+			}
+
+			i++;
+		} else if (code >= 0xdc00 && code <= 0xdfff) {
+			return true;
+		}
+	}
+
+	return false;
+}
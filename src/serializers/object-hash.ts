@@ -0,0 +1,492 @@
+import type { StringifyFn } from "../types.js";
+import { toHex } from "../utils.js";
+
+/**
+ * Options matching the serialization options of the `object-hash` package.
+ * Defaults are the same as `object-hash`.
+ */
+export type ObjectHashOptions = {
+	/**
+	 * Hash object keys only, values are ignored. Defaults to false.
+	 */
+	excludeValues?: boolean;
+
+	/**
+	 * Ignore unknown object types instead of throwing. Defaults to false.
+	 */
+	ignoreUnknown?: boolean;
+
+	/**
+	 * Function that replaces values before they are serialized.
+	 */
+	replacer?: (value: unknown) => unknown;
+
+	/**
+	 * Consider function properties when hashing. Defaults to true.
+	 */
+	respectFunctionProperties?: boolean;
+
+	/**
+	 * Consider the `name` property of functions when hashing. Defaults to true.
+	 */
+	respectFunctionNames?: boolean;
+
+	/**
+	 * Respect special properties (prototype, __proto__, constructor) to distinguish between types.
+	 * Defaults to true.
+	 */
+	respectType?: boolean;
+
+	/**
+	 * Sort all arrays before hashing. Defaults to false.
+	 */
+	unorderedArrays?: boolean;
+
+	/**
+	 * Sort `Set` and `Map` instances before hashing. Defaults to true.
+	 */
+	unorderedSets?: boolean;
+
+	/**
+	 * Sort object keys before hashing. Defaults to true.
+	 */
+	unorderedObjects?: boolean;
+
+	/**
+	 * Function that returns true for object keys that should be excluded from hashing.
+	 */
+	excludeKeys?: (key: string) => boolean;
+};
+
+type ResolvedObjectHashOptions = Required<
+	Omit<ObjectHashOptions, "replacer" | "excludeKeys">
+> &
+	Pick<ObjectHashOptions, "replacer" | "excludeKeys">;
+
+type AnyFunction = (...args: Array<unknown>) => unknown;
+
+const NATIVE_FUNCTION = /^function\s+\w*\s*\(\s*\)\s*{\s+\[native code\]\s+}$/i;
+
+const TYPED_ARRAYS = new Set([
+	"uint8array",
+	"uint8clampedarray",
+	"int8array",
+	"uint16array",
+	"int16array",
+	"uint32array",
+	"int32array",
+	"float32array",
+	"float64array",
+]);
+
+// Keeps a leading BOM like Buffer.toString, and throws on bytes that are not UTF-8
+const UTF8_DECODER = new TextDecoder("utf-8", { fatal: true, ignoreBOM: true });
+
+/**
+ * Opaque host objects that `object-hash` serializes as their type name only.
+ */
+const NAME_ONLY_TYPES = new Set([
+	"domwindow",
+	"process",
+	"timer",
+	"pipe",
+	"tcp",
+	"udp",
+	"tty",
+	"statwatcher",
+	"securecontext",
+	"connection",
+	"zlib",
+	"context",
+	"nodescript",
+	"httpparser",
+	"dataview",
+	"signal",
+	"fsevent",
+	"tlswrap",
+]);
+
+/**
+ * Creates a stringify function that reproduces the serialization `object-hash` feeds into
+ * its hash function. Hashing the output with SHA-1 gives the same digest as `objectHash(value)`,
+ * so digests persisted by `object-hash` remain valid.
+ *
+ * The one exception is a Buffer holding bytes that are not valid UTF-8: `object-hash` hashes
+ * them raw, which a string can not reproduce, so they are written as hex instead and their
+ * digests differ from `object-hash`.
+ *
+ * @param options - `object-hash` serialization options (same defaults as `object-hash`)
+ * @returns A stringify function producing `object-hash` compatible output
+ *
+ * @example
+ * ```typescript
+ * import { Hashery, createObjectHashStringify } from 'hashery';
+ *
+ * const hashery = new Hashery({
+ *   stringify: createObjectHashStringify({ unorderedArrays: true }),
+ *   defaultAlgorithm: 'SHA-1',
+ * });
+ * ```
+ */
+export function createObjectHashStringify(
+	options?: ObjectHashOptions,
+): StringifyFn {
+	const resolved: ResolvedObjectHashOptions = {
+		excludeValues: options?.excludeValues === true,
+		ignoreUnknown: options?.ignoreUnknown === true,
+		replacer: options?.replacer,
+		respectFunctionProperties: options?.respectFunctionProperties !== false,
+		respectFunctionNames: options?.respectFunctionNames !== false,
+		respectType: options?.respectType !== false,
+		unorderedArrays: options?.unorderedArrays === true,
+		unorderedSets: options?.unorderedSets !== false,
+		unorderedObjects: options?.unorderedObjects !== false,
+		excludeKeys: options?.excludeKeys,
+	};
+
+	return (data: unknown): string => {
+		if (data === undefined) {
+			throw new Error("Object argument required.");
+		}
+
+		const writer = new ObjectHashWriter(resolved, []);
+		writer.dispatch(data);
+		return writer.output;
+	};
+}
+
+/**
+ * Stringify function that reproduces the default serialization of `object-hash`.
+ *
+ * @example
+ * ```typescript
+ * import objectHash from 'object-hash';
+ * import { Hashery, objectHashStringify } from 'hashery';
+ *
+ * const hashery = new Hashery({ stringify: objectHashStringify });
+ * const hash = await hashery.toHash({ a: 1 }, { algorithm: 'SHA-1' });
+ * hash === objectHash({ a: 1 }); // true
+ * ```
+ */
+export const objectHashStringify: StringifyFn = createObjectHashStringify();
+
+/**
+ * Port of the `typeHasher` from `object-hash`, writing to a string instead of a hash stream.
+ * The `context` list of visited objects is never popped, exactly like the original, because
+ * the `[CIRCULAR:n]` markers it produces are part of the persisted digests.
+ */
+class ObjectHashWriter {
+	public output = "";
+	private readonly _options: ResolvedObjectHashOptions;
+	private _context: Array<unknown>;
+
+	constructor(options: ResolvedObjectHashOptions, context: Array<unknown>) {
+		this._options = options;
+		this._context = context;
+	}
+
+	public dispatch(value: unknown): void {
+		if (this._options.replacer) {
+			value = this._options.replacer(value);
+		}
+
+		if (value === null) {
+			this._write("Null");
+			return;
+		}
+
+		switch (typeof value) {
+			case "undefined": {
+				this._write("Undefined");
+				break;
+			}
+
+			case "boolean": {
+				this._write(`bool:${value.toString()}`);
+				break;
+			}
+
+			case "number": {
+				this._write(`number:${value.toString()}`);
+				break;
+			}
+
+			case "bigint": {
+				this._write(`bigint:${value.toString()}`);
+				break;
+			}
+
+			case "string": {
+				this._writeString(value);
+				break;
+			}
+
+			case "symbol": {
+				this._write(`symbol:${value.toString()}`);
+				break;
+			}
+
+			case "function": {
+				this._function(value as AnyFunction);
+				break;
+			}
+
+			default: {
+				this._object(value as object);
+			}
+		}
+	}
+
+	private _write(value: string): void {
+		this.output += value;
+	}
+
+	private _writeString(value: string): void {
+		this._write(`string:${value.length}:${value}`);
+	}
+
+	private _object(object: object): void {
+		const objType = Object.prototype.toString
+			.call(object)
+			.slice(8, -1)
+			.toLowerCase();
+
+		const objectNumber = this._context.indexOf(object);
+		if (objectNumber >= 0) {
+			this.dispatch(`[CIRCULAR:${objectNumber}]`);
+			return;
+		}
+
+		this._context.push(object);
+
+		const buffer = (
+			globalThis as {
+				Buffer?: { isBuffer(value: unknown): value is Uint8Array };
+			}
+		).Buffer;
+		if (buffer?.isBuffer(object)) {
+			this._write(serializeBuffer(object));
+			return;
+		}
+
+		if (
+			objType !== "object" &&
+			objType !== "function" &&
+			objType !== "asyncfunction"
+		) {
+			this._typed(objType, object);
+			return;
+		}
+
+		const record = object as Record<string, unknown>;
+		let keys = Object.keys(record);
+		if (this._options.unorderedObjects) {
+			keys = keys.sort();
+		}
+
+		// Include special properties so objects with different prototypes hash differently.
+		// object-hash never does this for native functions.
+		if (this._options.respectType && !isNativeFunction(object)) {
+			keys.splice(0, 0, "prototype", "__proto__", "constructor");
+		}
+
+		const { excludeKeys } = this._options;
+		if (excludeKeys) {
+			keys = keys.filter((key) => !excludeKeys(key));
+		}
+
+		this._write(`object:${keys.length}:`);
+		for (const key of keys) {
+			this.dispatch(key);
+			this._write(":");
+			if (!this._options.excludeValues) {
+				this.dispatch(record[key]);
+			}
+
+			this._write(",");
+		}
+	}
+
+	private _typed(objType: string, object: object): void {
+		if (TYPED_ARRAYS.has(objType)) {
+			this._write(`${objType}:`);
+			this.dispatch(Array.prototype.slice.call(object));
+			return;
+		}
+
+		if (NAME_ONLY_TYPES.has(objType)) {
+			this._write(objType);
+			return;
+		}
+
+		switch (objType) {
+			case "array": {
+				this._array(object as Array<unknown>, this._options.unorderedArrays);
+				return;
+			}
+
+			case "map": {
+				this._write("map:");
+				this._array(
+					Array.from(object as Map<unknown, unknown>),
+					this._options.unorderedSets,
+				);
+				return;
+			}
+
+			case "set": {
+				this._write("set:");
+				this._array(
+					Array.from(object as Set<unknown>),
+					this._options.unorderedSets,
+				);
+				return;
+			}
+
+			case "arraybuffer": {
+				this._write("arraybuffer:");
+				this.dispatch(new Uint8Array(object as ArrayBuffer));
+				return;
+			}
+
+			case "date": {
+				this._write(`date:${(object as Date).toJSON()}`);
+				return;
+			}
+
+			case "regexp": {
+				this._write(`regex:${object.toString()}`);
+				return;
+			}
+
+			case "error": {
+				this._write(`error:${object.toString()}`);
+				return;
+			}
+
+			case "url": {
+				this._write(`url:${object.toString()}`);
+				return;
+			}
+
+			case "xml": {
+				this._write(`xml:${object.toString()}`);
+				return;
+			}
+
+			// Boxed primitives are handled like their primitive counterparts
+			case "string": {
+				this._writeString(object.toString());
+				return;
+			}
+
+			case "number": {
+				this._write(`number:${object.toString()}`);
+				return;
+			}
+
+			case "boolean": {
+				this._write(`bool:${object.toString()}`);
+				return;
+			}
+
+			case "bigint": {
+				this._write(`bigint:${object.toString()}`);
+				return;
+			}
+
+			case "symbol": {
+				this._write(`symbol:${object.toString()}`);
+				return;
+			}
+
+			case "file": {
+				const file = object as File;
+				this._write("file:");
+				// object-hash reads the misspelled `lastModfied`, which is always undefined
+				this.dispatch([file.name, file.size, file.type, undefined]);
+				return;
+			}
+
+			case "blob": {
+				if (this._options.ignoreUnknown) {
+					this._write("[blob]");
+					return;
+				}
+
+				throw new Error("Hashing Blob objects is currently not supported");
+			}
+		}
+
+		if (this._options.ignoreUnknown) {
+			this._write(`[${objType}]`);
+			return;
+		}
+
+		throw new Error(`Unknown object type "${objType}"`);
+	}
+
+	private _array(array: Array<unknown>, unordered: boolean): void {
+		this._write(`array:${array.length}:`);
+
+		// forEach and map skip holes, which object-hash relies on as well
+		if (!unordered || array.length <= 1) {
+			array.forEach((entry) => {
+				this.dispatch(entry);
+			});
+			return;
+		}
+
+		// There is no canonical ordering of objects, so every entry is serialized on its own
+		// with a copy of the context, then the serialized entries are sorted
+		let contextAdditions: Array<unknown> = [];
+		const entries = array.map((entry) => {
+			const localContext = this._context.slice();
+			const writer = new ObjectHashWriter(this._options, localContext);
+			writer.dispatch(entry);
+			contextAdditions = contextAdditions.concat(
+				localContext.slice(this._context.length),
+			);
+			return writer.output;
+		});
+
+		this._context = this._context.concat(contextAdditions);
+		entries.sort();
+		this._array(entries, false);
+	}
+
+	private _function(fn: AnyFunction): void {
+		this._write("fn:");
+		if (isNativeFunction(fn)) {
+			this.dispatch("[native]");
+		} else {
+			this.dispatch(fn.toString());
+		}
+
+		if (this._options.respectFunctionNames) {
+			// Keep native functions distinguishable by name, otherwise String and Function collide
+			this.dispatch(`function-name:${String(fn.name)}`);
+		}
+
+		if (this._options.respectFunctionProperties) {
+			this._object(fn);
+		}
+	}
+}
+
+function isNativeFunction(value: unknown): boolean {
+	if (typeof value !== "function") {
+		return false;
+	}
+
+	return NATIVE_FUNCTION.test(Function.prototype.toString.call(value));
+}
+
+function serializeBuffer(bytes: Uint8Array): string {
+	try {
+		return `buffer:${UTF8_DECODER.decode(bytes)}`;
+	} catch {
+		// Raw bytes can not be written to a string, hex keeps different Buffers apart
+		return `buffer-hex:${toHex(bytes)}`;
+	}
+}
@@ -0,0 +1,183 @@
+import type { StringifyFn } from "../types.js";
+import { toHex } from "../utils.js";
+
+/**
+ * Type-aware serializer that encodes a type tag for values `JSON.stringify` cannot
+ * represent or would collapse, so distinct values never share a serialized form.
+ *
+ * Encodings:
+ * - `undefined`, `null`, `true`, `false`
+ * - Numbers as-is, including `NaN`, `Infinity`, `-Infinity` and `-0`
+ * - BigInt with an `n` suffix (e.g. `10n`)
+ * - Strings JSON-quoted (e.g. `"abc"`)
+ * - `Date(1704067200000)`, `RegExp("a+","gi")`, `Error("TypeError","message")`
+ * - `ArrayBuffer(0102)`, `Uint8Array(0102)`, `DataView(0102)` and other typed arrays as hex bytes
+ * - `Map{key=>value,...}` and `Set[value,...]` with entries sorted, so insertion order does not matter
+ * - Arrays as `[...]` and objects as `{"key":value,...}` with sorted keys and `undefined` values kept
+ * - Class instances prefixed with their constructor name (e.g. `Point{"x":1,"y":2}`)
+ * - Circular references as a back-reference to the path of the ancestor they point to,
+ *   e.g. `Circular($["parent"])`, where `$` is the root value
+ *
+ * @param data - The data to serialize
+ * @returns The type-tagged representation
+ *
+ * @example
+ * ```typescript
+ * import { typedStringify } from 'hashery';
+ *
+ * typedStringify(new Map([[1, 2]])); // 'Map{1=>2}'
+ * typedStringify(new Set([1])); // 'Set[1]'
+ * typedStringify({ n: 10n }); // '{"n":10n}'
+ *
+ * const node: Record<string, unknown> = { id: 1 };
+ * node.self = node;
+ * typedStringify(node); // '{"id":1,"self":Circular($)}'
+ * ```
+ */
+export const typedStringify: StringifyFn = (data: unknown): string =>
+	encode(data, "$", new Map());
+
+/**
+ * Encodes a value. `ancestors` maps every object on the current path from the root
+ * to its own path, which is what circular references are encoded as.
+ */
+function encode(
+	value: unknown,
+	path: string,
+	ancestors: Map<object, string>,
+): string {
+	switch (typeof value) {
+		case "undefined": {
+			return "undefined";
+		}
+
+		case "boolean": {
+			return value ? "true" : "false";
+		}
+
+		case "number": {
+			return Object.is(value, -0) ? "-0" : String(value);
+		}
+
+		case "bigint": {
+			return `${value}n`;
+		}
+
+		case "string": {
+			return JSON.stringify(value);
+		}
+
+		case "symbol": {
+			return value.description === undefined
+				? "Symbol()"
+				: `Symbol(${JSON.stringify(value.description)})`;
+		}
+
+		case "function": {
+			return `Function(${JSON.stringify(value.name)})`;
+		}
+	}
+
+	if (value === null) {
+		return "null";
+	}
+
+	const object = value as object;
+	const ancestorPath = ancestors.get(object);
+	if (ancestorPath !== undefined) {
+		return `Circular(${ancestorPath})`;
+	}
+
+	ancestors.set(object, path);
+	const result = encodeObject(object, path, ancestors);
+	ancestors.delete(object);
+
+	return result;
+}
+
+function encodeObject(
+	object: object,
+	path: string,
+	ancestors: Map<object, string>,
+): string {
+	// Use the internal tag so subclasses such as Node's Buffer encode like their base type
+	const tag = Object.prototype.toString.call(object).slice(8, -1);
+
+	if (Array.isArray(object)) {
+		const items = Array.from(object, (item, index) =>
+			encode(item, `${path}[${index}]`, ancestors),
+		);
+		return `[${items.join(",")}]`;
+	}
+
+	if (object instanceof Map) {
+		// Only ancestors can be referenced and there is one per depth, so entries of
+		// unordered collections do not need a position in their path segment
+		const entries = Array.from(object, ([key, entry]) => {
+			const encodedKey = encode(key, `${path}.keys()`, ancestors);
+			const encodedEntry = encode(
+				entry,
+				`${path}.get(${encodedKey})`,
+				ancestors,
+			);
+			return `${encodedKey}=>${encodedEntry}`;
+		});
+		return `Map{${entries.sort().join(",")}}`;
+	}
+
+	if (object instanceof Set) {
+		const items = Array.from(object, (item) =>
+			encode(item, `${path}.values()`, ancestors),
+		);
+		return `Set[${items.sort().join(",")}]`;
+	}
+
+	if (object instanceof Date) {
+		return `Date(${object.getTime()})`;
+	}
+
+	if (object instanceof RegExp) {
+		return `RegExp(${JSON.stringify(object.source)},${JSON.stringify(object.flags)})`;
+	}
+
+	if (object instanceof Error) {
+		return `Error(${JSON.stringify(object.name)},${JSON.stringify(object.message)})`;
+	}
+
+	if (object instanceof ArrayBuffer) {
+		return `ArrayBuffer(${toHex(new Uint8Array(object))})`;
+	}
+
+	if (ArrayBuffer.isView(object)) {
+		const bytes = new Uint8Array(
+			object.buffer,
+			object.byteOffset,
+			object.byteLength,
+		);
+		return `${tag}(${toHex(bytes)})`;
+	}
+
+	if (
+		object instanceof Number ||
+		object instanceof String ||
+		object instanceof Boolean
+	) {
+		return `${tag}(${encode(object.valueOf(), path, ancestors)})`;
+	}
+
+	const record = object as Record<string, unknown>;
+	const members = Object.keys(record)
+		.sort()
+		.map((key) => {
+			const encodedKey = JSON.stringify(key);
+			return `${encodedKey}:${encode(record[key], `${path}[${encodedKey}]`, ancestors)}`;
+		});
+
+	const prototype = Object.getPrototypeOf(object);
+	const name =
+		prototype === null || prototype === Object.prototype
+			? ""
+			: (prototype.constructor?.name ?? tag);
+
+	return `${name}{${members.join(",")}}`;
+}
@@ -1,5 +1,7 @@
 import type { HookifiedOptions } from "hookified";
 import type { CacheOptions } from "./cache.js";
+import type { Digest } from "./digest.js";
+import type { ObjectHashOptions } from "./serializers/object-hash.js";
 
 /**
  * Configuration options for Hashery instances.
@@ -34,6 +36,56 @@ export type HasheryOptions = {
 	 */
 	stringify?: StringifyFn;
 
+	/**
+	 * Built-in serialization mode used to stringify data before hashing.
+	 * Ignored when a custom `stringify` function is provided.
+	 * - 'json': `JSON.stringify` (default)
+	 * - 'canonical': JSON with object keys sorted recursively, so key order does not affect the hash
+	 * - 'jcs': RFC 8785 JSON Canonicalization Scheme, interoperable with other JCS implementations
+	 * - 'typed': type-aware encoding for Map, Set, Date, BigInt, typed arrays, undefined, NaN and -0,
+	 *   with circular references encoded as path-based back-references
+	 * @example
+	 * ```ts
+	 * const hashery = new Hashery({ serialization: 'canonical' });
+	 *
+	 * // Both produce the same hash
+	 * await hashery.toHash({ a: 1, b: 2 });
+	 * await hashery.toHash({ b: 2, a: 1 });
+	 * ```
+	 */
+	serialization?: SerializationMode;
+
+	/**
+	 * Compatibility mode that reproduces the output of another hashing library.
+	 * - 'object-hash': serializes like the `object-hash` package and defaults both the async
+	 *   and sync algorithms to SHA-1, so `toHash` and `toHashSync` return the same digests
+	 *   as `objectHash(value)`
+	 *
+	 * A custom `stringify`, `defaultAlgorithm` or `defaultAlgorithmSync` still takes precedence.
+	 * @example
+	 * ```ts
+	 * const hashery = new Hashery({ compat: 'object-hash' });
+	 *
+	 * // Same as objectHash({ name: 'John' })
+	 * const hash = await hashery.toHash({ name: 'John' });
+	 * const hashSync = hashery.toHashSync({ name: 'John' });
+	 * ```
+	 */
+	compat?: CompatMode;
+
+	/**
+	 * Serialization options used when `compat` is 'object-hash'.
+	 * Accepts the same options (and defaults) as the `object-hash` package.
+	 * @example
+	 * ```ts
+	 * const hashery = new Hashery({
+	 *   compat: 'object-hash',
+	 *   objectHashOptions: { unorderedArrays: true }
+	 * });
+	 * ```
+	 */
+	objectHashOptions?: ObjectHashOptions;
+
 	/**
 	 * Array of hash providers to add to base providers
 	 * Providers implement the HashProvider interface and enable custom hashing algorithms.
@@ -68,6 +120,17 @@ export type HasheryOptions = {
 	 */
 	includeBase?: boolean;
 
+	/**
+	 * Whether to also load the legacy MD5 and RIPEMD-160 providers, which are not secure.
+	 * Defaults to false.
+	 * @example
+	 * ```ts
+	 * const hashery = new Hashery({ includeLegacy: true });
+	 * const etag = hashery.toHashSync(data, { algorithm: 'md5' });
+	 * ```
+	 */
+	includeLegacy?: boolean;
+
 	/**
 	 * Default hash algorithm to use when none is specified.
 	 * Defaults to 'SHA-256'.
@@ -110,6 +173,20 @@ export type HasheryOptions = {
 	 * ```
 	 */
 	cache?: CacheOptions;
+
+	/**
+	 * The 16-byte key for the built-in SipHash providers (siphash24, siphash13 and their
+	 * -128 variants), or 'random' to generate a random key for this instance.
+	 * Defaults to 16 zero bytes, which gives no protection against hash flooding.
+	 * @example
+	 * ```ts
+	 * const hashery = new Hashery({ siphashKey: 'random' });
+	 *
+	 * // Attackers cannot predict which bucket a key lands in
+	 * const bucket = hashery.toNumberSync(userInput, { min: 0, max: 1023, algorithm: 'siphash13' });
+	 * ```
+	 */
+	siphashKey?: BufferSource | "random";
 } & HookifiedOptions;
 
 /**
@@ -146,6 +223,86 @@ export type HasheryToHashOptions = {
 	 * ```
 	 */
 	maxLength?: number;
+
+	/**
+	 * How the data is turned into bytes before hashing.
+	 * - 'json' (default): the data is serialized with the configured stringify function
+	 * - 'raw': strings are hashed as their UTF-8 bytes and BufferSource values (ArrayBuffer,
+	 *   typed arrays, DataView) as-is, so digests match tools such as `sha256sum`.
+	 *   Other values are still serialized.
+	 * @example
+	 * ```ts
+	 * // Same as `printf 'abc' | sha256sum`
+	 * const hash = await hashery.toHash('abc', { input: 'raw' });
+	 *
+	 * // Hash file contents directly
+	 * const fileHash = await hashery.toHash(await file.bytes(), { input: 'raw' });
+	 * ```
+	 */
+	input?: HashInputMode;
+
+	/**
+	 * The encoding of the returned hash. Defaults to 'hex'.
+	 * With 'bytes' the raw digest is returned as a Uint8Array. `maxLength` counts
+	 * characters of the encoded hash, or bytes for 'bytes'.
+	 * @example
+	 * ```ts
+	 * // Compact URL-safe ID
+	 * const id = await hashery.toHash({ data: 'example' }, { encoding: 'base64url' });
+	 *
+	 * // Raw digest bytes
+	 * const bytes = await hashery.toHash({ data: 'example' }, { encoding: 'bytes' });
+	 * ```
+	 */
+	encoding?: HashEncoding;
+
+	/**
+	 * Prefixes the hash with the algorithm, so it can be read back with `parseDigest`.
+	 * - 'oci': `sha256:<hex>`
+	 * - 'sri': `sha256-<base64>`
+	 * The format sets the encoding (hex or base64), any other `encoding` throws. `maxLength`
+	 * truncates the hash before the prefix is added.
+	 * @example
+	 * ```ts
+	 * const digest = await hashery.toHash(layer, { input: 'raw', format: 'oci' });
+	 * console.log(digest); // "sha256:..."
+	 * ```
+	 */
+	format?: DigestFormat;
+};
+
+/**
+ * Sources accepted by the toHashStream method:
+ * - WHATWG `ReadableStream` (e.g. `fetch` response bodies)
+ * - `Blob` and `File` (e.g. browser file uploads)
+ * - Node.js `Readable` streams and any other `AsyncIterable` of `Uint8Array` or string chunks
+ */
+export type HashStreamSource =
+	| ReadableStream<Uint8Array>
+	| Blob
+	| AsyncIterable<Uint8Array | string>;
+
+/**
+ * Options for the toHashStream method.
+ * @example
+ * ```ts
+ * const hashery = new Hashery();
+ * const hash = await hashery.toHashStream(file, { algorithm: 'SHA-512', maxLength: 32 });
+ * ```
+ */
+export type HasheryToHashStreamOptions = {
+	/**
+	 * The hash algorithm to use.
+	 * Defaults to 'SHA-256' if not specified.
+	 * Supported algorithms include: 'SHA-256', 'SHA-384', 'SHA-512', 'djb2', 'fnv1', 'murmur', 'crc32'
+	 */
+	algorithm?: HashAlgorithm | (string & {});
+
+	/**
+	 * Maximum length for the hash output.
+	 * If specified, the hash will be truncated to this length.
+	 */
+	maxLength?: number;
 };
 
 /**
@@ -210,6 +367,88 @@ export type HasheryToNumberOptions = {
 	hashLength?: number;
 };
 
+/**
+ * Options for the toHmac method.
+ * @example
+ * ```ts
+ * const hashery = new Hashery();
+ *
+ * // Sign a webhook payload with HMAC-SHA-256
+ * const signature = await hashery.toHmac(payload, { key: process.env.WEBHOOK_SECRET });
+ *
+ * // HMAC with another provider
+ * const mac = await hashery.toHmac(payload, { algorithm: 'blake2b', key: secretBytes });
+ * ```
+ */
+export type HasheryToHmacOptions = {
+	/**
+	 * The secret key. Strings are UTF-8 encoded. Must not be empty.
+	 */
+	key: string | BufferSource;
+
+	/**
+	 * The hash algorithm to use.
+	 * Defaults to 'SHA-256' if not specified.
+	 * The provider must define a `blockSize`, which all built-in cryptographic providers do.
+	 */
+	algorithm?: HashAlgorithm | (string & {});
+
+	/**
+	 * Maximum length for the HMAC output.
+	 * If specified, the HMAC will be truncated to this length.
+	 */
+	maxLength?: number;
+
+	/**
+	 * How the data is turned into bytes before signing, see `HasheryToHashOptions.input`.
+	 * Use 'raw' to sign a payload exactly as it is sent, e.g. a webhook request body.
+	 */
+	input?: HashInputMode;
+
+	/**
+	 * The encoding of the returned HMAC, see `HasheryToHashOptions.encoding`. Defaults to 'hex'.
+	 */
+	encoding?: HashEncoding;
+};
+
+/**
+ * Options for the toHmacSync method.
+ * @example
+ * ```ts
+ * const hashery = new Hashery();
+ * const signature = hashery.toHmacSync('cache-key', { key: secret, input: 'raw' });
+ * ```
+ */
+export type HasheryToHmacSyncOptions = {
+	/**
+	 * The secret key. Strings are UTF-8 encoded. Must not be empty.
+	 */
+	key: string | BufferSource;
+
+	/**
+	 * The hash algorithm to use.
+	 * Defaults to 'SHA-256' if not specified, as HMAC needs a cryptographic hash.
+	 * The provider must define a `blockSize` and support synchronous hashing.
+	 */
+	algorithm?: HashAlgorithm | (string & {});
+
+	/**
+	 * Maximum length for the HMAC output.
+	 * If specified, the HMAC will be truncated to this length.
+	 */
+	maxLength?: number;
+
+	/**
+	 * How the data is turned into bytes before signing, see `HasheryToHashOptions.input`.
+	 */
+	input?: HashInputMode;
+
+	/**
+	 * The encoding of the returned HMAC, see `HasheryToHashOptions.encoding`. Defaults to 'hex'.
+	 */
+	encoding?: HashEncoding;
+};
+
 /**
  * Options for the toHashSync method.
  * @example
@@ -230,8 +469,8 @@ export type HasheryToHashSyncOptions = {
 	/**
 	 * The hash algorithm to use.
 	 * Defaults to 'djb2' if not specified.
-	 * Supported synchronous algorithms include: 'djb2', 'fnv1', 'murmur', 'crc32'
-	 * Note: WebCrypto algorithms (SHA-256, SHA-384, SHA-512) are not supported in sync mode.
+	 * Supported synchronous algorithms include: 'djb2', 'fnv1', 'fnv1a', 'fnv1a-64', 'murmur', 'crc32', 'crc32c', 'adler32', 'xxhash32', 'xxhash64', 'xxh3', 'xxh3-128', 'siphash24', 'siphash13', 'SHA-1', 'SHA-224', 'SHA-256', 'SHA-384', 'SHA-512', 'SHA-512/256', 'SHA3-256', 'SHA3-512', 'Keccak-256', 'SHAKE256', 'blake2b', 'blake2b-256', 'blake2s', 'blake3'
+	 * Note: the WebCrypto algorithms (SHA-1, SHA-256, SHA-384, SHA-512) use a pure TypeScript implementation in sync mode.
 	 */
 	algorithm?: HashAlgorithm | (string & {});
 
@@ -245,6 +484,28 @@ export type HasheryToHashSyncOptions = {
 	 * ```
 	 */
 	maxLength?: number;
+
+	/**
+	 * How the data is turned into bytes before hashing.
+	 * - 'json' (default): the data is serialized with the configured stringify function
+	 * - 'raw': strings are hashed as their UTF-8 bytes and BufferSource values as-is.
+	 *   Other values are still serialized.
+	 * @example
+	 * ```ts
+	 * const hash = hashery.toHashSync('abc', { algorithm: 'crc32', input: 'raw' }); // "352441c2"
+	 * ```
+	 */
+	input?: HashInputMode;
+
+	/**
+	 * The encoding of the returned hash, see `HasheryToHashOptions.encoding`. Defaults to 'hex'.
+	 */
+	encoding?: HashEncoding;
+
+	/**
+	 * Prefixes the hash with the algorithm, see `HasheryToHashOptions.format`.
+	 */
+	format?: DigestFormat;
 };
 
 /**
@@ -270,8 +531,8 @@ export type HasheryToNumberSyncOptions = {
 	/**
 	 * The hash algorithm to use.
 	 * Defaults to 'djb2' if not specified.
-	 * Supported synchronous algorithms include: 'djb2', 'fnv1', 'murmur', 'crc32'
-	 * Note: WebCrypto algorithms (SHA-256, SHA-384, SHA-512) are not supported in sync mode.
+	 * Supported synchronous algorithms include: 'djb2', 'fnv1', 'fnv1a', 'fnv1a-64', 'murmur', 'crc32', 'crc32c', 'adler32', 'xxhash32', 'xxhash64', 'xxh3', 'xxh3-128', 'siphash24', 'siphash13', 'SHA-1', 'SHA-224', 'SHA-256', 'SHA-384', 'SHA-512', 'SHA-512/256', 'SHA3-256', 'SHA3-512', 'Keccak-256', 'SHAKE256', 'blake2b', 'blake2b-256', 'blake2s', 'blake3'
+	 * Note: the WebCrypto algorithms (SHA-1, SHA-256, SHA-384, SHA-512) use a pure TypeScript implementation in sync mode.
 	 */
 	algorithm?: HashAlgorithm | (string & {});
 
@@ -310,6 +571,141 @@ export type HasheryToNumberSyncOptions = {
 	hashLength?: number;
 };
 
+/**
+ * Options for the digest method.
+ * @example
+ * ```ts
+ * const hashery = new Hashery();
+ *
+ * const digest = await hashery.digest({ data: 'example' }, { algorithm: 'SHA-512' });
+ * console.log(digest.toString()); // "SHA-512:..."
+ * ```
+ */
+export type HasheryDigestOptions = {
+	/**
+	 * The hash algorithm to use.
+	 * Defaults to 'SHA-256' if not specified.
+	 */
+	algorithm?: HashAlgorithm | (string & {});
+
+	/**
+	 * How the data is turned into bytes before hashing, see `HasheryToHashOptions.input`.
+	 * Defaults to 'json'.
+	 */
+	input?: HashInputMode;
+};
+
+/**
+ * Options for the digestSync method.
+ * @example
+ * ```ts
+ * const hashery = new Hashery();
+ *
+ * const digest = hashery.digestSync('abc', { algorithm: 'crc32', input: 'raw' });
+ * console.log(digest.toString()); // "crc32:352441c2"
+ * ```
+ */
+export type HasheryDigestSyncOptions = {
+	/**
+	 * The hash algorithm to use.
+	 * Defaults to 'djb2' if not specified.
+	 */
+	algorithm?: HashAlgorithm | (string & {});
+
+	/**
+	 * How the data is turned into bytes before hashing, see `HasheryToHashOptions.input`.
+	 * Defaults to 'json'.
+	 */
+	input?: HashInputMode;
+};
+
+/**
+ * Options for the toMultihash method.
+ * @example
+ * ```ts
+ * const multihash = await hashery.toMultihash(bytes, { algorithm: 'blake3', input: 'raw' });
+ * ```
+ */
+export type HasheryToMultihashOptions = {
+	/**
+	 * The hash algorithm to use, which needs a multicodec code.
+	 * Defaults to 'SHA-256' if not specified.
+	 */
+	algorithm?: HashAlgorithm | (string & {});
+
+	/**
+	 * How the data is turned into bytes before hashing, see `HasheryToHashOptions.input`.
+	 * Defaults to 'json'.
+	 */
+	input?: HashInputMode;
+};
+
+/**
+ * Options for the toCid method.
+ * @example
+ * ```ts
+ * // Same CID as `ipfs add --cid-version 1` for a file up to 256 KiB
+ * const cid = await hashery.toCid(bytes, { input: 'raw' });
+ *
+ * // CID of a DAG-JSON document
+ * const jsonCid = await hashery.toCid(json, { input: 'raw', codec: 'dag-json' });
+ * ```
+ */
+export type HasheryToCidOptions = HasheryToMultihashOptions & {
+	/**
+	 * The CID version. Defaults to 1, which is returned as base32 ('bafk...').
+	 * Version 0 ('Qm...') only supports the 'dag-pb' codec with SHA-256.
+	 */
+	version?: 0 | 1;
+
+	/**
+	 * The content type, as a name or a multicodec code.
+	 * Defaults to 'raw'.
+	 */
+	codec?: CidCodec | number;
+};
+
+/**
+ * Options for the toIntegrity method.
+ * @example
+ * ```ts
+ * const integrity = await hashery.toIntegrity(script, { algorithms: ['SHA-384', 'SHA-512'] });
+ * // "sha384-... sha512-..."
+ * ```
+ */
+export type HasheryToIntegrityOptions = {
+	/**
+	 * The algorithms to hash with, each adds one hash to the metadata.
+	 * Defaults to ['SHA-384'].
+	 */
+	algorithms?: Array<IntegrityAlgorithm>;
+};
+
+/**
+ * Names of the CID content codecs Hashery knows the multicodec code of.
+ */
+export type CidCodec = "raw" | "json" | "dag-pb" | "dag-cbor" | "dag-json";
+
+/**
+ * A CID parsed by parseCid.
+ */
+export type ParsedCid = {
+	/**
+	 * The CID version.
+	 */
+	version: 0 | 1;
+
+	/**
+	 * The multicodec code of the content, e.g. 0x55 for raw.
+	 */
+	codec: number;
+
+	/**
+	 * The digest of the content.
+	 */
+	digest: Digest;
+};
+
 /**
  * Function type for serializing data to a string.
  * @param data - The data to stringify
@@ -317,6 +713,55 @@ export type HasheryToNumberSyncOptions = {
  */
 export type StringifyFn = (data: unknown) => string;
 
+/**
+ * Names of the built-in serialization modes.
+ * - json: `JSON.stringify`
+ * - canonical: JSON with recursively sorted object keys
+ * - jcs: RFC 8785 JSON Canonicalization Scheme
+ * - typed: type-aware encoding that keeps distinct values (Map, Set, BigInt, -0, etc.) distinct
+ *   and supports circular references
+ */
+export type SerializationMode = "json" | "canonical" | "jcs" | "typed";
+
+/**
+ * How data is turned into bytes before hashing.
+ * - json: serialize with the configured stringify function
+ * - raw: hash strings as UTF-8 and BufferSource values as their bytes
+ */
+export type HashInputMode = "json" | "raw";
+
+/**
+ * Output encoding of a hash.
+ * - hex: lowercase hexadecimal (default)
+ * - base64: RFC 4648 base64 with padding, as used by Subresource Integrity
+ * - base64url: RFC 4648 URL-safe base64 without padding
+ * - base32: RFC 4648 base32, lowercase and without padding
+ * - base58: base58 with the Bitcoin alphabet
+ * - base36: digits and lowercase letters
+ * - bytes: the raw digest as a Uint8Array
+ */
+export type HashEncoding =
+	| "hex"
+	| "base64"
+	| "base64url"
+	| "base32"
+	| "base58"
+	| "base36"
+	| "bytes";
+
+/**
+ * Self-describing digest string formats, which carry the algorithm as a prefix.
+ * - oci: `sha256:<hex>`, as used by Docker and OCI image digests
+ * - sri: `sha256-<base64>`, as used by Subresource Integrity
+ */
+export type DigestFormat = "oci" | "sri";
+
+/**
+ * Names of the libraries Hashery can reproduce the output of.
+ * - object-hash: the `object-hash` package (SHA-1 with its type-prefixed serialization)
+ */
+export type CompatMode = "object-hash";
+
 /**
  * Function type for parsing string data.
  * @param data - The string data to parse
@@ -326,29 +771,108 @@ export type ParseFn = (data: string) => unknown;
 
 /**
  * Supported hash algorithms for the Web Crypto API.
+ * - SHA-1: Legacy algorithm (160-bit) - not collision resistant, for compatibility only
  * - SHA-256: Recommended algorithm (256-bit) - good balance of security and performance
  * - SHA-384: High security algorithm (384-bit)
  * - SHA-512: Highest security algorithm (512-bit)
  */
-export type WebCryptoHashAlgorithm = "SHA-256" | "SHA-384" | "SHA-512";
+export type WebCryptoHashAlgorithm =
+	| "SHA-1"
+	| "SHA-256"
+	| "SHA-384"
+	| "SHA-512";
+
+/**
+ * The hash algorithms of W3C Subresource Integrity.
+ */
+export type IntegrityAlgorithm = "SHA-256" | "SHA-384" | "SHA-512";
 
 /**
  * All built-in hash algorithm names supported by Hashery.
- * Includes both WebCrypto (async-only) and non-cryptographic (sync & async) algorithms.
+ * The WebCrypto algorithms, the other SHA-2 variants, SHA-3, BLAKE and the non-cryptographic
+ * algorithms all support both sync and async hashing. The legacy 'md5' and 'ripemd160'
+ * providers are only available after loading them with `includeLegacy`.
  */
 export type HashAlgorithm =
+	| "SHA-1"
+	| "SHA-224"
 	| "SHA-256"
 	| "SHA-384"
 	| "SHA-512"
+	| "SHA-512/224"
+	| "SHA-512/256"
+	| "SHA3-224"
+	| "SHA3-256"
+	| "SHA3-384"
+	| "SHA3-512"
+	| "Keccak-256"
+	| "SHAKE128"
+	| "SHAKE256"
+	| "blake2b"
+	| "blake2b-256"
+	| "blake2s"
+	| "blake3"
 	| "djb2"
 	| "fnv1"
+	| "fnv1a"
+	| "fnv1-64"
+	| "fnv1a-64"
+	| "fnv1-128"
+	| "fnv1a-128"
 	| "murmur"
-	| "crc32";
+	| "murmur128"
+	| "murmur128x86"
+	| "crc32"
+	| "crc32c"
+	| "crc16-ccitt"
+	| "crc16-kermit"
+	| "crc16-modbus"
+	| "crc64-ecma"
+	| "crc64-xz"
+	| "adler32"
+	| "fletcher16"
+	| "fletcher32"
+	| "xxhash32"
+	| "xxhash64"
+	| "xxh3"
+	| "xxh3-128"
+	| "siphash24"
+	| "siphash24-128"
+	| "siphash13"
+	| "siphash13-128"
+	| "md5"
+	| "ripemd160";
+
+/**
+ * Incremental hash state created by `HashProvider.createHasher`.
+ * Data is fed in chunks with `update` and the final hash is read with `digest`. Hashers do
+ * not guard against reuse after `digest`, create a new one for each hash; the
+ * `IncrementalHash` returned by `Hashery.createHash` throws instead.
+ */
+export type Hasher = {
+	/**
+	 * Adds a chunk of data to the hash.
+	 * @param data - The bytes to add
+	 * @returns The hasher, so calls can be chained
+	 */
+	update(data: BufferSource): Hasher;
+
+	/**
+	 * Finishes the hash.
+	 * @returns The hexadecimal hash of all chunks
+	 */
+	digest(): string;
+};
 
 export type HashProvider = {
 	name: string;
 	toHash(data: BufferSource): Promise<string>;
 	toHashSync?(data: BufferSource): string; // Optional
+	createHasher?(): Hasher; // Optional, for incremental hashing
+	secure?: boolean; // Optional, false for legacy algorithms that must not be used for security
+	blockSize?: number; // Optional, the block size in bytes, needed for HMAC
+	toHmac?(key: BufferSource, data: BufferSource): Promise<string>; // Optional, native HMAC
+	multihashCode?: number; // Optional, the multicodec code for multihashes and CIDs
 };
 
 export type HashProvidersOptions = {
@@ -362,4 +886,15 @@ export type HashProvidersGetOptions = {
 
 export type HasheryLoadProviderOptions = {
 	includeBase?: boolean;
+
+	/**
+	 * Also load the legacy MD5 and RIPEMD-160 providers, which are not secure
+	 * and therefore not part of the base providers.
+	 * @example
+	 * ```ts
+	 * hashery.loadProviders(undefined, { includeLegacy: true });
+	 * const etag = hashery.toHashSync(data, { algorithm: 'md5' });
+	 * ```
+	 */
+	includeLegacy?: boolean;
 };
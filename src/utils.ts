@@ -0,0 +1,47 @@
+/**
+ * Converts bytes to a lowercase hexadecimal string.
+ * @param bytes - The bytes to convert
+ * @returns The hexadecimal representation (two characters per byte)
+ */
+export function toHex(bytes: Uint8Array): string {
+	let hex = "";
+	for (let i = 0; i < bytes.length; i++) {
+		hex += bytes[i].toString(16).padStart(2, "0");
+	}
+
+	return hex;
+}
+
+/**
+ * Gets a Uint8Array view over the bytes of a BufferSource without copying.
+ * @param data - The BufferSource (ArrayBuffer, typed array or DataView)
+ * @returns A Uint8Array over the same bytes
+ */
+export function toUint8Array(data: BufferSource): Uint8Array<ArrayBuffer> {
+	if (ArrayBuffer.isView(data)) {
+		return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+	}
+
+	return new Uint8Array(data);
+}
+
+/**
+ * Converts a hexadecimal string to bytes.
+ * @param hex - The hexadecimal string (two characters per byte)
+ * @returns The decoded bytes
+ * @throws {Error} If the string has an odd length or characters that are not hexadecimal
+ */
+export function fromHex(hex: string): Uint8Array<ArrayBuffer> {
+	if (!/^(?:[0-9a-fA-F]{2})*$/.test(hex)) {
+		throw new Error(
+			`Invalid hex '${hex}'. Expected two hexadecimal characters per byte.`,
+		);
+	}
+
+	const bytes = new Uint8Array(hex.length / 2);
+	for (let i = 0; i < bytes.length; i++) {
+		bytes[i] = Number.parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+	}
+
+	return bytes;
+}
@@ -0,0 +1,273 @@
+import { describe, expect, test, vi } from "vitest";
+import { Digest } from "../src/digest.js";
+import { Hashery } from "../src/index.js";
+
+// SHA-256 of "abc"
+const abc = "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad";
+
+describe("Digest", () => {
+	test("should expose the algorithm, bytes and bit length", () => {
+		const digest = Digest.fromHex("SHA-256", abc);
+
+		expect(digest.algorithm).toBe("SHA-256");
+		expect(digest.bitLength).toBe(256);
+		expect(digest.bytes).toHaveLength(32);
+		expect(digest.bytes[0]).toBe(0xba);
+	});
+
+	test("should not be changed through its bytes", () => {
+		const bytes = new Uint8Array([1, 2]);
+		const digest = new Digest("crc16-ccitt", bytes);
+
+		bytes[0] = 0xff;
+		digest.bytes[1] = 0xff;
+		expect(digest.toHex()).toBe("0102");
+	});
+
+	test("should format as hex, base64, BigInt and algo:hex", () => {
+		const digest = Digest.fromHex("SHA-256", abc);
+
+		expect(digest.toHex()).toBe(abc);
+		expect(digest.toBase64()).toBe(
+			"ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0=",
+		);
+		expect(Digest.fromHex("crc32", "352441c2").toBigInt()).toBe(891568578n);
+		expect(digest.toBigInt()).toBe(BigInt(`0x${abc}`));
+		expect(digest.toString()).toBe(`SHA-256:${abc}`);
+		expect(`${digest}`).toBe(`SHA-256:${abc}`);
+		expect(JSON.stringify({ digest })).toBe(`{"digest":"SHA-256:${abc}"}`);
+	});
+
+	test("should compare the algorithm and bytes", () => {
+		const digest = Digest.fromHex("SHA-256", abc);
+
+		expect(digest.equals(Digest.fromHex("SHA-256", abc))).toBe(true);
+		expect(digest.equals(Digest.fromHex("SHA3-256", abc))).toBe(false);
+		expect(
+			digest.equals(Digest.fromHex("SHA-256", `${abc.slice(0, -2)}ae`)),
+		).toBe(false);
+		expect(digest.equals(Digest.fromHex("SHA-256", abc.slice(2)))).toBe(false);
+	});
+});
+
+describe("Hashery digest", () => {
+	test("should return a Digest named after the provider", async () => {
+		const hashery = new Hashery();
+
+		const digest = await hashery.digest("abc", { input: "raw" });
+		expect(digest).toBeInstanceOf(Digest);
+		expect(digest.toString()).toBe(`SHA-256:${abc}`);
+
+		const sha512 = await hashery.digest({ id: 1 }, { algorithm: "SHA-512" });
+		expect(sha512.algorithm).toBe("SHA-512");
+		expect(sha512.toHex()).toBe(
+			await hashery.toHash({ id: 1 }, { algorithm: "SHA-512" }),
+		);
+	});
+
+	test("should return a Digest synchronously", () => {
+		const hashery = new Hashery();
+
+		expect(hashery.digestSync("abc", { input: "raw" }).algorithm).toBe("djb2");
+
+		// Fuzzy names resolve to the provider name
+		expect(
+			hashery
+				.digestSync("abc", { algorithm: "CRC32", input: "raw" })
+				.toString(),
+		).toBe("crc32:352441c2");
+		expect(
+			hashery
+				.digestSync("abc", { algorithm: "SHA-256", input: "raw" })
+				.equals(Digest.fromHex("SHA-256", abc)),
+		).toBe(true);
+	});
+
+	test("should fall back to the default algorithm with a warning", async () => {
+		const hashery = new Hashery();
+		const warn = vi.fn();
+		hashery.on("warn", warn);
+
+		expect(
+			(await hashery.digest("abc", { algorithm: "missing" })).algorithm,
+		).toBe("SHA-256");
+		// The fallbacks differ, so the cached SHA-256 hash is not reused for djb2
+		const fallback = hashery.digestSync("abc", { algorithm: "missing" });
+		expect(fallback.algorithm).toBe("djb2");
+		expect(fallback.bitLength).toBe(32);
+		expect(warn).toHaveBeenCalledTimes(2);
+	});
+
+	test("should fall back to a default provider that is not WebCrypto", async () => {
+		const hashery = new Hashery({ defaultAlgorithm: "blake3" });
+
+		const fallback = await hashery.digest("abc", { algorithm: "missing" });
+		expect(fallback.algorithm).toBe("blake3");
+		expect(
+			fallback.equals(await hashery.digest("abc", { algorithm: "blake3" })),
+		).toBe(true);
+	});
+
+	test("should name the Digest after the algorithm a hook switched to", async () => {
+		const hashery = new Hashery({ cache: { enabled: true } });
+		hashery.onHook("before:toHash", async (context) => {
+			context.algorithm = "SHA-512";
+		});
+		hashery.onHook("before:toHashSync", (context) => {
+			context.algorithm = "CRC32";
+		});
+
+		for (let i = 0; i < 2; i++) {
+			const digest = await hashery.digest("abc", { input: "raw" });
+			expect(digest.algorithm).toBe("SHA-512");
+			expect(digest.bitLength).toBe(512);
+			expect(hashery.digestSync("abc", { input: "raw" }).toString()).toBe(
+				"crc32:352441c2",
+			);
+		}
+	});
+
+	test("should reject digests that are not whole bytes of hex", async () => {
+		const hashery = new Hashery({
+			providers: [
+				{ name: "crc12", toHash: async () => "daf", toHashSync: () => "daf" },
+			],
+		});
+
+		await expect(hashery.digest("abc", { algorithm: "crc12" })).rejects.toThrow(
+			"Invalid hex 'daf'",
+		);
+		expect(() => hashery.digestSync("abc", { algorithm: "crc12" })).toThrow(
+			"Invalid hex 'daf'",
+		);
+	});
+
+	test("should use the cache", async () => {
+		const hashery = new Hashery({ cache: { enabled: true } });
+
+		const first = await hashery.digest({ id: 1 });
+		expect((await hashery.digest({ id: 1 })).equals(first)).toBe(true);
+		expect(hashery.cache.size).toBe(1);
+	});
+});
+
+describe("Hashery format option", () => {
+	test("should return oci and sri digests", async () => {
+		const hashery = new Hashery();
+
+		expect(await hashery.toHash("abc", { input: "raw", format: "oci" })).toBe(
+			`sha256:${abc}`,
+		);
+		expect(
+			hashery.toHashSync("abc", {
+				algorithm: "SHA-256",
+				input: "raw",
+				format: "sri",
+			}),
+		).toBe("sha256-ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0=");
+		expect(
+			hashery.toHashSync("abc", {
+				algorithm: "CRC32",
+				input: "raw",
+				format: "oci",
+				encoding: "hex",
+			}),
+		).toBe("crc32:352441c2");
+	});
+
+	test("should truncate the hash and keep the prefix", async () => {
+		const hashery = new Hashery();
+
+		expect(
+			await hashery.toHash("abc", {
+				input: "raw",
+				format: "oci",
+				maxLength: 8,
+			}),
+		).toBe("sha256:ba7816bf");
+	});
+
+	test("should name the fallback algorithm and cached hashes", async () => {
+		const hashery = new Hashery({ cache: { enabled: true } });
+		const options = { algorithm: "missing", format: "oci" } as const;
+
+		const hash = await hashery.toHash({ id: 1 }, options);
+		expect(hash).toMatch(/^sha256:[0-9a-f]{64}$/);
+		expect(await hashery.toHash({ id: 1 }, options)).toBe(hash);
+		expect(hashery.toHashSync({ id: 1 }, options)).toMatch(/^djb2:/);
+		expect(hashery.toHashSync({ id: 1 }, options)).toMatch(/^djb2:/);
+	});
+
+	test("should reject an encoding the format does not use", async () => {
+		const hashery = new Hashery();
+
+		await expect(
+			hashery.toHash("abc", { format: "sri", encoding: "base64url" }),
+		).rejects.toThrow("The 'sri' format requires the 'base64' encoding");
+	});
+});
+
+describe("Hashery parseDigest", () => {
+	test("should round-trip formatted digests", async () => {
+		const hashery = new Hashery();
+
+		for (const algorithm of ["SHA-256", "SHA-512/256", "SHA3-256", "blake3"]) {
+			for (const format of ["oci", "sri"] as const) {
+				const value = await hashery.toHash("abc", {
+					algorithm,
+					input: "raw",
+					format,
+				});
+				const digest = hashery.parseDigest(value);
+
+				expect(digest.algorithm).toBe(algorithm);
+				expect(
+					digest.equals(
+						await hashery.digest("abc", { algorithm, input: "raw" }),
+					),
+				).toBe(true);
+			}
+		}
+	});
+
+	test("should parse Digest strings and fuzzy prefixes", () => {
+		const hashery = new Hashery();
+		const digest = Digest.fromHex("SHA-256", abc);
+
+		expect(hashery.parseDigest(digest.toString()).equals(digest)).toBe(true);
+		expect(
+			hashery.parseDigest(`SHA256:${abc.toUpperCase()}`).equals(digest),
+		).toBe(true);
+		expect(hashery.parseDigest("CRC32:352441c2").algorithm).toBe("crc32");
+	});
+
+	test("should throw for invalid digests and unknown algorithms", () => {
+		const hashery = new Hashery();
+
+		expect(() => hashery.parseDigest("sha256")).toThrow(
+			"Invalid digest 'sha256'. Expected 'algorithm:hex' or 'algorithm-base64'.",
+		);
+		expect(() => hashery.parseDigest("md5:900150983cd24fb0")).toThrow(
+			"Hash provider 'md5' not found",
+		);
+		expect(() => hashery.parseDigest("sha256-AAAAA")).toThrow(
+			"Invalid digest 'sha256-AAAAA'",
+		);
+	});
+
+	test("should check the digest length of the provider", () => {
+		const hashery = new Hashery({
+			providers: [{ name: "async-only", toHash: async () => "00" }],
+		});
+
+		expect(() => hashery.parseDigest("sha256:ba7816bf")).toThrow(
+			"Invalid SHA-256 digest 'sha256:ba7816bf'. Expected 32 bytes, got 4.",
+		);
+		expect(() => hashery.parseDigest("crc32:352441c200")).toThrow(
+			"Expected 4 bytes, got 5",
+		);
+
+		// Without toHashSync the length is not known
+		expect(hashery.parseDigest("async-only:abcd").bitLength).toBe(16);
+	});
+});
@@ -0,0 +1,264 @@
+import { describe, expect, test } from "vitest";
+import {
+	decodeBytes,
+	encodeBytes,
+	encodeDigest,
+	formatDigest,
+	matchesDigestPrefix,
+	splitDigest,
+	truncateDigest,
+} from "../src/encoding.js";
+import { Hashery } from "../src/index.js";
+
+// SHA-256 of "abc"
+const abc = "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad";
+const encoder = new TextEncoder();
+
+describe("encodeDigest", () => {
+	test.each([
+		["hex", abc],
+		["base64", "ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0="],
+		["base64url", "ungWv48Bz-pBQUDeXa4iI7ADYaOWF3qctBD_YfIAFa0"],
+		["base32", "xj4bnp4pahh6uqkbidpf3lrceoyagyndsylxvhfucd7wd4qacwwq"],
+		["base58", "DYu3G8aGTMBW1WrTw76zxQJQU4DHLw9MLyy7peG4LKkY"],
+		["base36", "4nb7oofka9ml8nasnokxxc1unhmtpr1wxsuwhpd9km3vt5as31"],
+	] as const)("should encode a digest as %s", (encoding, expected) => {
+		expect(encodeDigest(abc, encoding)).toBe(expected);
+	});
+
+	test("should default to hex and decode bytes", () => {
+		expect(encodeDigest(abc)).toBe(abc);
+		expect(encodeDigest("00ff10", "bytes")).toEqual(
+			new Uint8Array([0x00, 0xff, 0x10]),
+		);
+	});
+
+	test("should reject digests that are not whole bytes of hex", () => {
+		expect(encodeDigest("daf")).toBe("daf");
+		expect(() => encodeDigest("daf", "base64")).toThrow(
+			"Invalid hex 'daf'. Expected two hexadecimal characters per byte.",
+		);
+		expect(() => encodeDigest("hash-value", "bytes")).toThrow(
+			"Invalid hex 'hash-value'",
+		);
+	});
+});
+
+describe("encodeBytes", () => {
+	test.each([
+		["f", "Zg==", "my"],
+		["fo", "Zm8=", "mzxq"],
+		["foo", "Zm9v", "mzxw6"],
+		["foob", "Zm9vYg==", "mzxw6yq"],
+		["fooba", "Zm9vYmE=", "mzxw6ytb"],
+		["foobar", "Zm9vYmFy", "mzxw6ytboi"],
+	])("should match the RFC 4648 vectors for %j", (input, base64, base32) => {
+		expect(encodeBytes(encoder.encode(input), "base64")).toBe(base64);
+		expect(encodeBytes(encoder.encode(input), "base32")).toBe(base32);
+	});
+
+	test("should keep leading zero bytes in base58 and base36", () => {
+		expect(encodeBytes(encoder.encode("Hello World!"), "base58")).toBe(
+			"2NEpo7TZRRrLZSi2U",
+		);
+		expect(encodeBytes(new Uint8Array([0, 0, 1]), "base58")).toBe("112");
+		expect(encodeBytes(new Uint8Array([0, 0xff]), "base36")).toBe("073");
+		expect(encodeBytes(new Uint8Array(), "base58")).toBe("");
+	});
+
+	test("should encode hex", () => {
+		expect(encodeBytes(new Uint8Array([1, 0xab]), "hex")).toBe("01ab");
+	});
+});
+
+describe("decodeBytes", () => {
+	test.each([
+		"hex",
+		"base64",
+		"base64url",
+		"base32",
+		"base58",
+		"base36",
+	] as const)("should decode %s", (encoding) => {
+		for (const bytes of [
+			encodeDigest(abc, "bytes"),
+			new Uint8Array([0, 0, 1]),
+			new Uint8Array([0xff]),
+			new Uint8Array(),
+		] as Array<Uint8Array<ArrayBuffer>>) {
+			const encoded = encodeBytes(bytes, encoding) as string;
+			expect(decodeBytes(encoded, encoding)).toEqual(bytes);
+		}
+	});
+
+	test("should accept unpadded base64 and reject invalid characters", () => {
+		expect(decodeBytes("Zm9vYg", "base64")).toEqual(encoder.encode("foob"));
+		expect(decodeBytes("abc", "hex")).toBeUndefined();
+		expect(decodeBytes("Zm9v-", "base64")).toBeUndefined();
+		expect(decodeBytes("0OIl", "base58")).toBeUndefined();
+		expect(decodeBytes("ABC", "base36")).toBeUndefined();
+	});
+
+	test("should reject impossible lengths, padding and padding bits", () => {
+		expect(decodeBytes("AAAAA", "base64")).toBeUndefined();
+		expect(decodeBytes("AAAAAA=", "base64")).toBeUndefined();
+		expect(decodeBytes("AB", "base64")).toBeUndefined();
+		expect(decodeBytes("AB", "base64url")).toBeUndefined();
+		expect(decodeBytes("a", "base32")).toBeUndefined();
+		expect(decodeBytes("ab", "base32")).toBeUndefined();
+		expect(decodeBytes("AA==", "base64")).toEqual(new Uint8Array([0]));
+		expect(decodeBytes("aa", "base32")).toEqual(new Uint8Array([0]));
+	});
+});
+
+describe("truncateDigest", () => {
+	test("should truncate strings by characters and bytes by bytes", () => {
+		expect(truncateDigest("abcdef", 4)).toBe("abcd");
+		expect(truncateDigest("abcdef")).toBe("abcdef");
+		expect(truncateDigest(new Uint8Array([1, 2, 3]), 2)).toEqual(
+			new Uint8Array([1, 2]),
+		);
+	});
+});
+
+describe("matchesDigestPrefix", () => {
+	test("should ignore case and separators", () => {
+		expect(matchesDigestPrefix("SHA-256", "sha256")).toBe(true);
+		expect(matchesDigestPrefix("SHA-512/256", "sha512_256")).toBe(true);
+		expect(matchesDigestPrefix("SHA3-256", "SHA3256")).toBe(true);
+		expect(matchesDigestPrefix("SHA-512/256", "sha512")).toBe(false);
+	});
+});
+
+describe("formatDigest", () => {
+	test("should prefix the hash with the algorithm", () => {
+		expect(formatDigest("SHA-256", "ab", "oci")).toBe("sha256:ab");
+		expect(formatDigest("SHA-384", "qw==", "sri")).toBe("sha384-qw==");
+		expect(formatDigest("SHA-512/256", "ab", "oci")).toBe("sha512_256:ab");
+		expect(formatDigest("SHA3-256", "ab", "oci")).toBe("sha3-256:ab");
+		expect(formatDigest("blake3", "ab", "oci")).toBe("blake3:ab");
+	});
+});
+
+describe("splitDigest", () => {
+	test("should split oci and sri digests", () => {
+		expect(splitDigest(`sha256:${abc}`)).toEqual({
+			prefix: "sha256",
+			bytes: encodeDigest(abc, "bytes"),
+		});
+		expect(
+			splitDigest(" sha256-ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0= "),
+		).toEqual({ prefix: "sha256", bytes: encodeDigest(abc, "bytes") });
+		expect(splitDigest("sha3-256-Zm9vYmE")).toEqual({
+			prefix: "sha3-256",
+			bytes: encoder.encode("fooba"),
+		});
+	});
+
+	test.each([
+		"sha256",
+		"sha256:",
+		"sha256:abc",
+		"sha256:xyz0",
+		"sha256-",
+		"sha256-ab_c",
+		"sha256-AAAAA",
+	])("should reject %j", (value) => {
+		expect(splitDigest(value)).toBeUndefined();
+	});
+});
+
+describe("Hashery encoding option", () => {
+	test("should encode toHash and toHashSync output", async () => {
+		const hashery = new Hashery();
+		const options = { input: "raw", algorithm: "SHA-256" } as const;
+
+		expect(
+			await hashery.toHash("abc", { ...options, encoding: "base64" }),
+		).toBe("ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0=");
+		expect(hashery.toHashSync("abc", { ...options, encoding: "base58" })).toBe(
+			"DYu3G8aGTMBW1WrTw76zxQJQU4DHLw9MLyy7peG4LKkY",
+		);
+
+		const bytes = await hashery.toHash("abc", {
+			...options,
+			encoding: "bytes",
+		});
+		expect(bytes).toBeInstanceOf(Uint8Array);
+		expect(bytes.length).toBe(32);
+		expect(
+			hashery.toHashSync("abc", { ...options, encoding: "bytes" }),
+		).toEqual(bytes);
+	});
+
+	test("should encode non-cryptographic digests", () => {
+		const hashery = new Hashery();
+
+		// crc32 of "abc" is 352441c2
+		expect(
+			hashery.toHashSync("abc", {
+				algorithm: "crc32",
+				input: "raw",
+				encoding: "bytes",
+			}),
+		).toEqual(new Uint8Array([0x35, 0x24, 0x41, 0xc2]));
+	});
+
+	test("should throw for custom providers without whole bytes of hex", async () => {
+		const hashery = new Hashery({
+			providers: [{ name: "crc12", toHash: async () => "daf" }],
+		});
+
+		expect(await hashery.toHash("abc", { algorithm: "crc12" })).toBe("daf");
+		await expect(
+			hashery.toHash("abc", { algorithm: "crc12", encoding: "base64" }),
+		).rejects.toThrow("Invalid hex 'daf'");
+	});
+
+	test("should apply maxLength to the encoded hash", async () => {
+		const hashery = new Hashery();
+
+		expect(
+			await hashery.toHash("abc", {
+				input: "raw",
+				encoding: "base64url",
+				maxLength: 8,
+			}),
+		).toBe("ungWv48B");
+		expect(
+			hashery.toHashSync("abc", {
+				algorithm: "SHA-256",
+				input: "raw",
+				encoding: "bytes",
+				maxLength: 4,
+			}),
+		).toEqual(new Uint8Array([0xba, 0x78, 0x16, 0xbf]));
+	});
+
+	test("should encode cached hashes", async () => {
+		const hashery = new Hashery({ cache: { enabled: true } });
+
+		const hex = await hashery.toHash({ id: 1 });
+		expect(await hashery.toHash({ id: 1 }, { encoding: "base32" })).toBe(
+			encodeDigest(hex, "base32"),
+		);
+		const syncHex = hashery.toHashSync({ id: 1 });
+		expect(hashery.toHashSync({ id: 1 }, { encoding: "base36" })).toBe(
+			encodeDigest(syncHex, "base36"),
+		);
+		expect(hashery.cache.size).toBe(2);
+	});
+
+	test("should encode HMACs", async () => {
+		const hashery = new Hashery();
+		const options = { key: "Jefe", input: "raw" } as const;
+		const message = "what do ya want for nothing?";
+
+		expect(
+			await hashery.toHmac(message, { ...options, encoding: "base64" }),
+		).toBe("W9zBRr9gdU5qBCQmCJV1x1oAPwidJzmDnexYuWTsOEM=");
+		expect(
+			hashery.toHmacSync(message, { ...options, encoding: "bytes" }),
+		).toHaveLength(32);
+	});
+});
@@ -0,0 +1,227 @@
+import { describe, expect, test, vi } from "vitest";
+import { hmac, hmacSync } from "../src/hmac.js";
+import { Hashery } from "../src/index.js";
+import { WebCrypto } from "../src/providers/crypto.js";
+import { SHA2 } from "../src/providers/sha2.js";
+import type { HashProvider } from "../src/types.js";
+
+// RFC 4231 test case 2
+const key = "Jefe";
+const message = "what do ya want for nothing?";
+
+describe("hmac", () => {
+	test("should match the RFC 4231 vectors", async () => {
+		const bytes = new TextEncoder().encode(message);
+		const keyBytes = new TextEncoder().encode(key);
+
+		expect(await hmac(new WebCrypto(), keyBytes, bytes)).toBe(
+			"5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843",
+		);
+		expect(hmacSync(new WebCrypto(), keyBytes, bytes)).toBe(
+			"5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843",
+		);
+		expect(
+			await hmac(new SHA2({ algorithm: "SHA-224" }), keyBytes, bytes),
+		).toBe("a30e01098bc6dbbf45690f3a7e9e6d0f8bbea2a39e6148008fd05e44");
+	});
+
+	test("should hash keys longer than the block size", async () => {
+		// RFC 4231 test case 6
+		const longKey = new Uint8Array(131).fill(0xaa);
+		const bytes = new TextEncoder().encode(
+			"Test Using Larger Than Block-Size Key - Hash Key First",
+		);
+		const expected =
+			"60e431591ee0b67f0d8a26aacbf5b77f8e0bc6213728c5140546040f0ee37f54";
+
+		expect(await hmac(new WebCrypto(), longKey, bytes)).toBe(expected);
+		expect(await hmac(new SHA2(), longKey, bytes)).toBe(expected);
+		expect(hmacSync(new SHA2(), longKey, bytes)).toBe(expected);
+	});
+
+	test("should reject empty keys and providers without a block size", async () => {
+		const data = new Uint8Array([1]);
+		const provider: HashProvider = {
+			name: "no-block",
+			toHash: async () => "00",
+		};
+
+		await expect(hmac(new SHA2(), new Uint8Array(), data)).rejects.toThrow(
+			"HMAC key must not be empty",
+		);
+		expect(() => hmacSync(provider, data, data)).toThrow(
+			"Hash provider 'no-block' does not define a block size, which HMAC requires",
+		);
+	});
+
+	test("should require synchronous hashing for hmacSync", () => {
+		const provider: HashProvider = {
+			name: "async-block",
+			blockSize: 64,
+			toHash: async () => "00",
+		};
+
+		expect(() =>
+			hmacSync(provider, new Uint8Array([1]), new Uint8Array()),
+		).toThrow(
+			"Hash provider 'async-block' does not support synchronous hashing",
+		);
+	});
+});
+
+describe("Hashery toHmac", () => {
+	test("should default to HMAC-SHA-256 of the serialized data", async () => {
+		const hashery = new Hashery();
+
+		expect(await hashery.toHmac(message, { key, input: "raw" })).toBe(
+			"5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843",
+		);
+		expect(hashery.toHmacSync(message, { key, input: "raw" })).toBe(
+			"5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843",
+		);
+		expect(await hashery.toHmac({ id: 1 }, { key: "secret" })).toBe(
+			"03def589620c813f198fd03d7967e292b163ef0435ebf43071ce0e9519763cb7",
+		);
+	});
+
+	test("should use the generic construction for other providers", async () => {
+		const hashery = new Hashery();
+		hashery.loadProviders(undefined, { includeLegacy: true });
+		const keyBytes = new TextEncoder().encode(key);
+
+		expect(
+			await hashery.toHmac(message, {
+				key: keyBytes,
+				algorithm: "SHA3-256",
+				input: "raw",
+			}),
+		).toBe("c7d4072e788877ae3596bbb0da73b887c9171f93095b294ae857fbe2645e1ba5");
+		expect(
+			hashery.toHmacSync(message, { key, algorithm: "md5", input: "raw" }),
+		).toBe("750c783e6ab0b503eaa86e310a5db738");
+		expect(
+			hashery.toHmacSync(message, { key, algorithm: "blake2s", input: "raw" }),
+		).toBe("90b6281e2f3038c9056af0b4a7e763cae6fe5d9eb4386a0ec95237890c104ff0");
+	});
+
+	test("should truncate with maxLength", async () => {
+		const hashery = new Hashery();
+		const options = { key, input: "raw" as const, maxLength: 16 };
+
+		expect(await hashery.toHmac(message, options)).toBe("5bdcc146bf60754e");
+		expect(hashery.toHmacSync(message, options)).toBe("5bdcc146bf60754e");
+	});
+
+	test("should fall back to the default algorithm with a warning", async () => {
+		const hashery = new Hashery();
+		const warn = vi.fn();
+		hashery.on("warn", warn);
+
+		const hash = await hashery.toHmac(message, {
+			key,
+			algorithm: "missing",
+			input: "raw",
+		});
+
+		expect(hash).toBe(
+			"5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843",
+		);
+		expect(warn).toHaveBeenCalledWith(
+			"Invalid algorithm 'missing' not found. Falling back to default algorithm 'SHA-256'.",
+		);
+	});
+
+	test("should throw when neither algorithm is registered", () => {
+		const hashery = new Hashery({ includeBase: false });
+
+		expect(() => hashery.toHmacSync(message, { key })).toThrow(
+			"Hash provider 'SHA-256' (default) not found",
+		);
+	});
+
+	test("should reject non-cryptographic providers", async () => {
+		const hashery = new Hashery();
+
+		await expect(
+			hashery.toHmac(message, { key, algorithm: "djb2" }),
+		).rejects.toThrow("Hash provider 'djb2' does not define a block size");
+	});
+
+	test("should run the hooks", async () => {
+		const hashery = new Hashery();
+		hashery.onHook("before:toHmac", async (context) => {
+			context.algorithm = "SHA-512";
+		});
+		const results: Array<{ hash: string; algorithm: string }> = [];
+		hashery.onHook("after:toHmac", async (result) => {
+			results.push({ ...result });
+		});
+		hashery.onHook("before:toHmacSync", (context) => {
+			context.algorithm = "SHA-512";
+		});
+		hashery.onHook("after:toHmacSync", (result) => {
+			results.push({ ...result });
+		});
+
+		const hash = await hashery.toHmac(message, { key, input: "raw" });
+		hashery.toHmacSync(message, { key, input: "raw" });
+
+		expect(hash).toBe(
+			"164b7a7bfcf819e2e395fbe73b56e0a387bd64222e831fd610270cd7ea2505549758bf75c05a994a6d034f65f8f0e6fdcaeab1a34d4a6b4b636e070a38bce737",
+		);
+		expect(results).toEqual([
+			{ hash, data: message, algorithm: "SHA-512" },
+			{ hash, data: message, algorithm: "SHA-512" },
+		]);
+	});
+
+	test("should cache HMACs per key", async () => {
+		const hashery = new Hashery({ cache: { enabled: true } });
+		const provider = hashery.providers.get("SHA-256") as WebCrypto;
+		const toHmac = vi.spyOn(provider, "toHmac");
+
+		const first = await hashery.toHmac({ id: 1 }, { key: "a" });
+		expect(await hashery.toHmac({ id: 1 }, { key: "a", maxLength: 8 })).toBe(
+			first.substring(0, 8),
+		);
+		expect(hashery.toHmacSync({ id: 1 }, { key: "a" })).toBe(first);
+		expect(toHmac).toHaveBeenCalledTimes(1);
+
+		// Another key must not hit the cached HMAC
+		expect(hashery.toHmacSync({ id: 1 }, { key: "b" })).not.toBe(first);
+		expect(await hashery.toHmac({ id: 1 }, { key: "b" })).not.toBe(first);
+		expect(toHmac).toHaveBeenCalledTimes(1);
+
+		// The secret itself is not part of the cache keys
+		for (const cacheKey of hashery.cache.store.keys()) {
+			expect(cacheKey).not.toContain(":a:");
+		}
+	});
+
+	test("should cache HMACs under the provider the algorithm resolves to", async () => {
+		const hashery = new Hashery({ cache: { enabled: true } });
+		const options = { key: "k", algorithm: "missing" };
+
+		const sha256 = await hashery.toHmac("x", options);
+		hashery.defaultAlgorithm = "SHA-512";
+
+		const sha512 = await hashery.toHmac("x", options);
+		expect(sha512).not.toBe(sha256);
+		expect(sha512).toBe(
+			await hashery.toHmac("x", { key: "k", algorithm: "SHA-512" }),
+		);
+		expect(hashery.toHmacSync("x", options)).toBe(sha512);
+		expect(hashery.toHmacSync("x", { key: "k", algorithm: "SHA-256" })).toBe(
+			sha256,
+		);
+	});
+
+	test("should not cache binary input", async () => {
+		const hashery = new Hashery({ cache: { enabled: true } });
+		const bytes = new TextEncoder().encode(message);
+
+		await hashery.toHmac(bytes, { key, input: "raw" });
+		hashery.toHmacSync(bytes, { key, input: "raw" });
+		expect(hashery.cache.size).toBe(0);
+	});
+});
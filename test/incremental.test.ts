@@ -0,0 +1,63 @@
+import { describe, expect, test } from "vitest";
+import { IncrementalHash } from "../src/incremental.js";
+import { CRC } from "../src/providers/crc.js";
+import { WebCrypto } from "../src/providers/crypto.js";
+import type { HashProvider } from "../src/types.js";
+
+describe("IncrementalHash", () => {
+	test("should use the provider hasher when available", async () => {
+		const provider = new CRC();
+		const hash = new IncrementalHash(provider);
+
+		expect(hash.algorithm).toBe("crc32");
+		expect(hash.incremental).toBe(true);
+
+		hash.update("hel").update(new TextEncoder().encode("lo"));
+		expect(await hash.digest()).toBe(
+			provider.toHashSync(new TextEncoder().encode("hello")),
+		);
+	});
+
+	test("should buffer chunks for providers without a hasher", async () => {
+		const received: Array<string> = [];
+		const provider: HashProvider = {
+			name: "collect",
+			toHash: async (data) => {
+				received.push(new TextDecoder().decode(data));
+				return "done";
+			},
+		};
+
+		const hash = new IncrementalHash(provider);
+		expect(hash.incremental).toBe(false);
+
+		// The chunk buffer is reused, so the hash must keep its own copy
+		const chunk = new TextEncoder().encode("ab");
+		hash.update(chunk);
+		chunk.set(new TextEncoder().encode("cd"));
+		hash.update(chunk.buffer).update(new DataView(chunk.buffer, 1));
+
+		expect(await hash.digest()).toBe("done");
+		expect(received).toEqual(["abcdd"]);
+	});
+
+	test("should match toHash for SHA-1", async () => {
+		const provider = new WebCrypto({ algorithm: "SHA-1" });
+		const hash = new IncrementalHash(provider);
+
+		expect(hash.incremental).toBe(true);
+		expect(await hash.update("a").update("bc").digest()).toBe(
+			"a9993e364706816aba3e25717850c26c9cd0d89d",
+		);
+	});
+
+	test("should throw when used after digest", async () => {
+		const hash = new IncrementalHash(new CRC());
+		await hash.digest();
+
+		expect(() => hash.update("more")).toThrow("Hash has already been digested");
+		await expect(hash.digest()).rejects.toThrow(
+			"Hash has already been digested",
+		);
+	});
+});
@@ -1,5 +1,12 @@
 import { describe, expect, test } from "vitest";
 import { Hashery } from "../src/index.js";
+import type { HashProvider } from "../src/types.js";
+
+// A provider without a synchronous implementation
+const asyncOnly: HashProvider = {
+	name: "async-only",
+	toHash: async () => "00000000",
+};
 
 describe("Hashery Sync Methods", () => {
 	describe("toHashSync method", () => {
@@ -185,16 +192,27 @@ describe("Hashery Sync Methods", () => {
 		});
 
 		test("should throw error when provider does not support sync", () => {
-			const hashery = new Hashery();
+			const hashery = new Hashery({ providers: [asyncOnly] });
 			const data = { name: "test" };
 
 			expect(() => {
-				hashery.toHashSync(data, { algorithm: "SHA-256" });
+				hashery.toHashSync(data, { algorithm: "async-only" });
 			}).toThrow(
-				"Hash provider 'SHA-256' does not support synchronous hashing",
+				"Hash provider 'async-only' does not support synchronous hashing",
 			);
 		});
 
+		test("should hash SHA-2 synchronously with the same digests as async", async () => {
+			const hashery = new Hashery();
+			const data = { name: "test", value: 42 };
+
+			for (const algorithm of ["SHA-256", "SHA-384", "SHA-512"]) {
+				expect(hashery.toHashSync(data, { algorithm })).toBe(
+					await hashery.toHash(data, { algorithm }),
+				);
+			}
+		});
+
 		test("should throw error when default sync algorithm is not found", () => {
 			const hashery = new Hashery({ includeBase: false });
 			const data = { name: "test" };
@@ -205,9 +223,9 @@ describe("Hashery Sync Methods", () => {
 		});
 
 		test("should still throw error if fallback algorithm doesn't support sync", () => {
-			const hashery = new Hashery();
+			const hashery = new Hashery({ providers: [asyncOnly] });
 			// Set default sync algorithm to an async-only algorithm
-			hashery.defaultAlgorithmSync = "SHA-256";
+			hashery.defaultAlgorithmSync = "async-only";
 
 			const data = { name: "test" };
 
@@ -378,16 +396,48 @@ describe("Hashery Sync Methods", () => {
 		});
 
 		test("should throw descriptive error for async-only algorithms", () => {
-			const hashery = new Hashery();
+			const hashery = new Hashery({ providers: [asyncOnly] });
 			const data = { name: "test" };
 
 			expect(() => {
-				hashery.toHashSync(data, { algorithm: "SHA-384" });
+				hashery.toHashSync(data, { algorithm: "async-only" });
 			}).toThrow("does not support synchronous hashing");
+		});
+	});
 
-			expect(() => {
-				hashery.toHashSync(data, { algorithm: "SHA-512" });
-			}).toThrow("does not support synchronous hashing");
+	describe("toHashSync raw input", () => {
+		test("should hash strings without JSON quotes", () => {
+			const hashery = new Hashery();
+			const raw = hashery.toHashSync("abc", {
+				algorithm: "crc32",
+				input: "raw",
+			});
+
+			expect(raw).toBe("352441c2");
+			expect(hashery.toHashSync("abc", { algorithm: "crc32" })).not.toBe(raw);
+		});
+
+		test("should hash BufferSource bytes directly", () => {
+			const hashery = new Hashery();
+			const bytes = new TextEncoder().encode("abc");
+
+			expect(
+				hashery.toHashSync(bytes, { algorithm: "crc32", input: "raw" }),
+			).toBe("352441c2");
+			expect(
+				hashery.toHashSync(bytes.buffer, { algorithm: "crc32", input: "raw" }),
+			).toBe("352441c2");
+		});
+
+		test("should cache raw strings but not binary input", () => {
+			const hashery = new Hashery({ cache: { enabled: true } });
+
+			hashery.toHashSync(new Uint8Array([1]), { input: "raw" });
+			expect(hashery.cache.size).toBe(0);
+
+			const hash = hashery.toHashSync("abc", { input: "raw" });
+			expect(hashery.cache.get("djb2:raw:abc")).toBe(hash);
+			expect(hashery.toHashSync("abc", { input: "raw" })).toBe(hash);
 		});
 	});
 
@@ -705,15 +755,11 @@ describe("Hashery Sync Methods", () => {
 		});
 
 		test("should throw error when using async-only algorithm", () => {
-			const hashery = new Hashery();
+			const hashery = new Hashery({ providers: [asyncOnly] });
 			const data = { name: "test" };
 
 			expect(() => {
-				hashery.toNumberSync(data, { algorithm: "SHA-256" });
-			}).toThrow("does not support synchronous hashing");
-
-			expect(() => {
-				hashery.toNumberSync(data, { algorithm: "SHA-512" });
+				hashery.toNumberSync(data, { algorithm: "async-only" });
 			}).toThrow("does not support synchronous hashing");
 		});
 
@@ -1,3 +1,5 @@
+import { Readable } from "node:stream";
+import objectHash from "object-hash";
 import { describe, expect, test } from "vitest";
 import { Hashery, type HasheryOptions } from "../src/index.js";
 import { HashProviders } from "../src/providers.js";
@@ -30,8 +32,8 @@ describe("Hashery", () => {
 			providers: [customProvider1, customProvider2],
 		});
 
-		// Should have base providers (7) + custom providers (2) = 9 total
-		expect(hashery.providers.providers.size).toBe(9);
+		// Should have base providers (46) + custom providers (2) = 48 total
+		expect(hashery.providers.providers.size).toBe(48);
 		expect(hashery.providers.providers.has("custom-provider-1")).toBe(true);
 		expect(hashery.providers.providers.has("custom-provider-2")).toBe(true);
 		expect(hashery.providers.providers.has("SHA-256")).toBe(true);
@@ -44,8 +46,8 @@ describe("Hashery", () => {
 	test("should include base providers by default", () => {
 		const hashery = new Hashery();
 
-		// Should have 7 base providers by default
-		expect(hashery.providers.providers.size).toBe(7);
+		// Should have 46 base providers by default
+		expect(hashery.providers.providers.size).toBe(46);
 		expect(hashery.providers.providers.has("SHA-256")).toBe(true);
 		expect(hashery.providers.providers.has("SHA-384")).toBe(true);
 		expect(hashery.providers.providers.has("SHA-512")).toBe(true);
@@ -93,8 +95,8 @@ describe("Hashery", () => {
 			providers: [customProvider],
 		});
 
-		// Should have base providers (7) + custom provider (1) = 8 total
-		expect(hashery.providers.providers.size).toBe(8);
+		// Should have base providers (46) + custom provider (1) = 47 total
+		expect(hashery.providers.providers.size).toBe(47);
 		expect(hashery.providers.providers.has("custom-with-base")).toBe(true);
 		expect(hashery.providers.providers.has("SHA-256")).toBe(true);
 		expect(hashery.providers.providers.has("SHA-384")).toBe(true);
@@ -103,6 +105,32 @@ describe("Hashery", () => {
 		expect(hashery.providers.providers.has("murmur")).toBe(true);
 	});
 
+	test("should not include the legacy providers in the base set", () => {
+		const hashery = new Hashery();
+
+		expect(hashery.providers.providers.has("md5")).toBe(false);
+		expect(hashery.providers.providers.has("ripemd160")).toBe(false);
+	});
+
+	test("should load the legacy providers with includeLegacy", () => {
+		const hashery = new Hashery({ includeBase: false });
+		hashery.loadProviders(undefined, { includeLegacy: true });
+
+		expect(hashery.names).toEqual(["md5", "ripemd160"]);
+		expect(hashery.providers.get("md5")?.secure).toBe(false);
+		expect(hashery.toHashSync("abc", { algorithm: "md5" })).toBe(
+			"ebd9f4c7b06cb0aaf5d13d80e49d8b90",
+		);
+	});
+
+	test("should load the legacy providers with the includeLegacy option", () => {
+		const hashery = new Hashery({ includeLegacy: true });
+
+		expect(hashery.providers.providers.has("md5")).toBe(true);
+		expect(hashery.providers.providers.has("ripemd160")).toBe(true);
+		expect(hashery.providers.providers.has("SHA-256")).toBe(true);
+	});
+
 	describe("parse property", () => {
 		test("should have default JSON.parse function", () => {
 			const hashery = new Hashery();
@@ -225,6 +253,202 @@ describe("Hashery", () => {
 		});
 	});
 
+	describe("serialization option", () => {
+		test("should use JSON.stringify for json mode", () => {
+			const hashery = new Hashery({ serialization: "json" });
+			expect(hashery.stringify).toBe(JSON.stringify);
+		});
+
+		test("should use canonical stringify for canonical mode", () => {
+			const hashery = new Hashery({ serialization: "canonical" });
+			expect(hashery.stringify({ b: 2, a: 1 })).toBe('{"a":1,"b":2}');
+		});
+
+		test("should produce the same hash regardless of key order", async () => {
+			const hashery = new Hashery({ serialization: "canonical" });
+			const hash1 = await hashery.toHash({ a: 1, b: { c: 3, d: 4 } });
+			const hash2 = await hashery.toHash({ b: { d: 4, c: 3 }, a: 1 });
+			expect(hash1).toBe(hash2);
+
+			const syncHash1 = hashery.toHashSync({ a: 1, b: 2 });
+			const syncHash2 = hashery.toHashSync({ b: 2, a: 1 });
+			expect(syncHash1).toBe(syncHash2);
+		});
+
+		test("should hash RFC 8785 canonical JSON for jcs mode", async () => {
+			const hashery = new Hashery({ serialization: "jcs" });
+			expect(hashery.stringify({ b: 4.5, a: 1e30 })).toBe(
+				'{"a":1e+30,"b":4.5}',
+			);
+
+			const hash1 = await hashery.toHash({ b: 4.5, a: 1e30 });
+			const hash2 = await hashery.toHash({ a: 1e30, b: 4.5 });
+			expect(hash1).toBe(hash2);
+		});
+
+		test("should keep distinct values distinct for typed mode", async () => {
+			const hashery = new Hashery({ serialization: "typed" });
+
+			const mapHash = await hashery.toHash(new Map([[1, 2]]));
+			const setHash = await hashery.toHash(new Set([1]));
+			const objectHash = await hashery.toHash({});
+			expect(new Set([mapHash, setHash, objectHash]).size).toBe(3);
+
+			// BigInt no longer throws
+			const bigintHash = hashery.toHashSync({ n: 10n });
+			expect(bigintHash).not.toBe(hashery.toHashSync({ n: 10 }));
+		});
+
+		test("should hash circular structures for typed mode", async () => {
+			const hashery = new Hashery({ serialization: "typed" });
+			const build = (name: string) => {
+				const parent: Record<string, unknown> = { name };
+				parent.children = [{ parent }];
+				return parent;
+			};
+
+			expect(() => new Hashery().toHashSync(build("a"))).toThrow();
+			expect(await hashery.toHash(build("a"))).toBe(
+				await hashery.toHash(build("a")),
+			);
+			expect(hashery.toHashSync(build("a"))).not.toBe(
+				hashery.toHashSync(build("b")),
+			);
+		});
+
+		test("should prefer a custom stringify over the serialization mode", () => {
+			const customStringify = (data: unknown) => `custom:${String(data)}`;
+			const hashery = new Hashery({
+				serialization: "canonical",
+				stringify: customStringify,
+			});
+			expect(hashery.stringify).toBe(customStringify);
+		});
+	});
+
+	describe("compat option", () => {
+		test("should reproduce object-hash digests", async () => {
+			const hashery = new Hashery({ compat: "object-hash" });
+			const values = [
+				{ name: "John", age: 30 },
+				{ age: 30, name: "John" },
+				[1, 2, 3],
+				"hello",
+				42,
+				new Map([["a", 1]]),
+				new Set([2, 1]),
+				new Date(0),
+			];
+
+			expect(hashery.defaultAlgorithm).toBe("SHA-1");
+			for (const value of values) {
+				expect(await hashery.toHash(value)).toBe(objectHash(value));
+			}
+		});
+
+		test("should reproduce object-hash digests synchronously", () => {
+			const hashery = new Hashery({ compat: "object-hash" });
+
+			expect(hashery.defaultAlgorithmSync).toBe("SHA-1");
+			expect(hashery.toHashSync({ a: 1 })).toBe(objectHash({ a: 1 }));
+			expect(hashery.digestSync({ a: 1 }).toHex()).toBe(objectHash({ a: 1 }));
+			expect(
+				new Hashery({ compat: "object-hash", includeBase: false }).toHashSync([
+					1, 2,
+				]),
+			).toBe(objectHash([1, 2]));
+		});
+
+		test("should pass object-hash options through", async () => {
+			const hashery = new Hashery({
+				compat: "object-hash",
+				objectHashOptions: { unorderedArrays: true },
+			});
+
+			expect(await hashery.toHash([3, 1, 2])).toBe(
+				objectHash([3, 1, 2], { unorderedArrays: true }),
+			);
+			expect(await hashery.toHash([3, 1, 2])).toBe(
+				await hashery.toHash([1, 2, 3]),
+			);
+		});
+
+		test("should register SHA-1 even without base providers", () => {
+			const hashery = new Hashery({
+				compat: "object-hash",
+				includeBase: false,
+			});
+			expect(hashery.names).toEqual(["SHA-1"]);
+		});
+
+		test("should prefer explicit stringify and default algorithms", () => {
+			const customStringify = (data: unknown) => String(data);
+			const hashery = new Hashery({
+				compat: "object-hash",
+				stringify: customStringify,
+				defaultAlgorithm: "SHA-256",
+				defaultAlgorithmSync: "murmur",
+			});
+
+			expect(hashery.stringify).toBe(customStringify);
+			expect(hashery.defaultAlgorithm).toBe("SHA-256");
+			expect(hashery.defaultAlgorithmSync).toBe("murmur");
+		});
+	});
+
+	describe("siphashKey option", () => {
+		test("should default to a zero key", () => {
+			const hashery = new Hashery();
+			expect(hashery.siphashKey).toEqual(new Uint8Array(16));
+			expect(
+				hashery.toHashSync("hello", { algorithm: "siphash24", input: "raw" }),
+			).toBe("b952f7b25d5dc18c");
+		});
+
+		test("should use the provided key for all SipHash providers", () => {
+			const key = Uint8Array.from({ length: 16 }, (_, index) => index);
+			const hashery = new Hashery({ siphashKey: key.buffer });
+			const empty = new Uint8Array(0);
+
+			expect(hashery.siphashKey).toEqual(key);
+			expect(
+				hashery.toHashSync(empty, { algorithm: "siphash24", input: "raw" }),
+			).toBe("310e0edd47db6f72");
+			expect(
+				hashery.toHashSync(empty, { algorithm: "siphash24-128", input: "raw" }),
+			).toBe("a3817f04ba25a8e66df67214c7550293");
+			expect(
+				hashery.toHashSync(empty, { algorithm: "siphash13", input: "raw" }),
+			).toBe("dcc40f055801acab");
+			expect(
+				hashery.toHashSync(empty, { algorithm: "siphash13-128", input: "raw" }),
+			).toBe("e77ebcb22788a5befd62db6add303001");
+		});
+
+		test("should generate a random key per instance", () => {
+			const hashery1 = new Hashery({ siphashKey: "random" });
+			const hashery2 = new Hashery({ siphashKey: "random" });
+			const data = { user: "key" };
+
+			expect(hashery1.siphashKey).not.toEqual(hashery2.siphashKey);
+			expect(hashery1.toHashSync(data, { algorithm: "siphash13" })).not.toBe(
+				hashery2.toHashSync(data, { algorithm: "siphash13" }),
+			);
+
+			// Persisting the generated key reproduces the hashes
+			const hashery3 = new Hashery({ siphashKey: hashery1.siphashKey });
+			expect(hashery3.toNumberSync(data, { algorithm: "siphash13" })).toBe(
+				hashery1.toNumberSync(data, { algorithm: "siphash13" }),
+			);
+		});
+
+		test("should throw for an invalid key", () => {
+			expect(() => new Hashery({ siphashKey: new Uint8Array(4) })).toThrow(
+				"SipHash key must be 16 bytes, got 4",
+			);
+		});
+	});
+
 	describe("parse and stringify together", () => {
 		test("should work together with custom implementations", () => {
 			const customParse = (data: string) => {
@@ -527,7 +751,7 @@ describe("Hashery", () => {
 			expect(emptyObjectHash).not.toBe(emptyArrayHash);
 		});
 
-		test("should fallback to WebCrypto SHA-256 when provider not found and emit warning", async () => {
+		test("should throw when neither the algorithm nor the default provider is loaded", async () => {
 			// Create a Hashery instance with no base providers
 			const hashery = new Hashery({ includeBase: false });
 			const warnings: string[] = [];
@@ -542,47 +766,27 @@ describe("Hashery", () => {
 
 			// Call toHash with an algorithm that doesn't exist
 			const data = { name: "test", value: 42 };
-			const hash = await hashery.toHash(data, { algorithm: "SHA-256" });
-
-			// Should still get a valid SHA-256 hash from the fallback
-			expect(hash).toBeDefined();
-			expect(typeof hash).toBe("string");
-			expect(hash.length).toBe(64); // SHA-256 produces 64 hex characters
-			expect(/^[a-f0-9]+$/.test(hash)).toBe(true); // Should be valid hex
-
-			// Verify the hash is consistent
-			const hash2 = await hashery.toHash(data, { algorithm: "SHA-256" });
-			expect(hash).toBe(hash2);
+			await expect(
+				hashery.toHash(data, { algorithm: "SHA-256" }),
+			).rejects.toThrow("Hash provider 'SHA-256' (default) not found");
 
-			// Verify warning was emitted (only once because second call is cached)
-			expect(warnings.length).toBeGreaterThanOrEqual(1);
-			expect(warnings[0]).toContain("SHA-256");
-			expect(warnings[0]).toContain("not found");
-			expect(warnings[0]).toContain("Falling back");
+			// Verify the warning was emitted before failing
+			expect(warnings).toEqual([
+				"Invalid algorithm 'SHA-256' not found. Falling back to default algorithm 'SHA-256'.",
+			]);
 		});
 
-		test("should fallback to SHA-256 for custom provider when not loaded", async () => {
-			// Create a Hashery instance with only SHA-512 provider
-			const hashery = new Hashery({ includeBase: false });
-
-			// Add only SHA-512, not SHA-256
-			const customProvider = {
-				name: "custom-hash",
-				toHash: async (_data: BufferSource) => "custom-hash-output",
-			};
-			hashery.providers.add(customProvider);
-
-			// Try to use SHA-256 which isn't in the providers
+		test("should fall back to a default provider that is not WebCrypto", async () => {
+			const hashery = new Hashery({ defaultAlgorithm: "SHA3-256" });
 			const data = { name: "test" };
-			const hash = await hashery.toHash(data, { algorithm: "SHA-256" });
 
-			// Should fallback to WebCrypto SHA-256
-			expect(hash).toBeDefined();
-			expect(hash.length).toBe(64); // SHA-256 produces 64 hex characters
-			expect(/^[a-f0-9]+$/.test(hash)).toBe(true);
+			const hash = await hashery.toHash(data, { algorithm: "nope" });
 
-			// Should NOT be the custom provider's output
-			expect(hash).not.toBe("custom-hash-output");
+			// Should be the registered SHA3-256 provider's output
+			expect(hash).toBe(await hashery.toHash(data, { algorithm: "SHA3-256" }));
+			expect(hash).not.toBe(
+				await hashery.toHash(data, { algorithm: "SHA-256" }),
+			);
 		});
 
 		test("should emit warn event with correct message for invalid algorithm", async () => {
@@ -739,6 +943,60 @@ describe("Hashery", () => {
 		});
 	});
 
+	describe("toHash raw input", () => {
+		const abcSha256 =
+			"ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad";
+
+		test("should hash strings without JSON quotes", async () => {
+			const hashery = new Hashery();
+			const raw = await hashery.toHash("abc", { input: "raw" });
+			const json = await hashery.toHash("abc");
+
+			expect(raw).toBe(abcSha256);
+			expect(json).not.toBe(abcSha256);
+			expect(json).toBe(await hashery.toHash('"abc"', { input: "raw" }));
+		});
+
+		test("should hash BufferSource bytes directly", async () => {
+			const hashery = new Hashery();
+			const bytes = new TextEncoder().encode("abc");
+
+			expect(await hashery.toHash(bytes, { input: "raw" })).toBe(abcSha256);
+			expect(await hashery.toHash(bytes.buffer, { input: "raw" })).toBe(
+				abcSha256,
+			);
+			expect(
+				await hashery.toHash(new DataView(bytes.buffer), { input: "raw" }),
+			).toBe(abcSha256);
+			expect(await hashery.toHash(bytes)).not.toBe(abcSha256);
+		});
+
+		test("should serialize other values in raw mode", async () => {
+			const hashery = new Hashery();
+			const data = { a: 1 };
+
+			expect(await hashery.toHash(data, { input: "raw" })).toBe(
+				await hashery.toHash(data),
+			);
+		});
+
+		test("should keep raw and json cache entries apart", async () => {
+			const hashery = new Hashery({ cache: { enabled: true } });
+
+			const json = await hashery.toHash("abc");
+			const raw = await hashery.toHash("abc", { input: "raw" });
+			expect(raw).not.toBe(json);
+			expect(hashery.cache.has("SHA-256:raw:abc")).toBe(true);
+			expect(await hashery.toHash("abc", { input: "raw" })).toBe(raw);
+		});
+
+		test("should not cache binary input", async () => {
+			const hashery = new Hashery({ cache: { enabled: true } });
+			await hashery.toHash(new Uint8Array([1, 2, 3]), { input: "raw" });
+			expect(hashery.cache.size).toBe(0);
+		});
+	});
+
 	describe("toNumber method", () => {
 		test("should use default range of 0-100 when no options provided", async () => {
 			const hashery = new Hashery();
@@ -971,6 +1229,183 @@ describe("Hashery", () => {
 		});
 	});
 
+	describe("createHash method", () => {
+		test("should match toHash with raw input for the same bytes", async () => {
+			const hashery = new Hashery();
+			const hash = hashery.createHash();
+
+			expect(hash.algorithm).toBe("SHA-256");
+			expect(hash.incremental).toBe(true);
+
+			hash.update("hello ").update(new TextEncoder().encode("world"));
+			expect(await hash.digest()).toBe(
+				await hashery.toHash("hello world", { input: "raw" }),
+			);
+		});
+
+		test.each([
+			"SHA-384",
+			"SHA-512",
+			"crc32",
+			"djb2",
+			"fnv1",
+			"murmur",
+		])("should hash incrementally with %s", async (algorithm) => {
+			const hashery = new Hashery();
+			const hash = hashery.createHash(algorithm);
+
+			expect(hash.incremental).toBe(true);
+			for (const chunk of ["a", "bc", "defg"]) {
+				hash.update(chunk);
+			}
+
+			expect(await hash.digest()).toBe(
+				await hashery.toHash("abcdefg", { algorithm, input: "raw" }),
+			);
+		});
+
+		test("should buffer for providers without incremental support", async () => {
+			const hashery = new Hashery({
+				providers: [
+					{
+						name: "length",
+						toHash: async (data) => String(data.byteLength),
+					},
+				],
+			});
+			const hash = hashery.createHash("length");
+
+			expect(hash.incremental).toBe(false);
+			expect(await hash.update("abc").update("de").digest()).toBe("5");
+		});
+
+		test("should resolve algorithm names fuzzily", () => {
+			const hashery = new Hashery();
+			expect(hashery.createHash(" CRC32 ").algorithm).toBe("crc32");
+		});
+
+		test("should fall back to the default algorithm with a warning", () => {
+			const hashery = new Hashery();
+			const warnings: Array<string> = [];
+			hashery.on("warn", (message: string) => warnings.push(message));
+
+			const hash = hashery.createHash("nope");
+
+			expect(hash.algorithm).toBe("SHA-256");
+			expect(warnings).toEqual([
+				"Invalid algorithm 'nope' not found. Falling back to default algorithm 'SHA-256'.",
+			]);
+		});
+
+		test("should throw if the default algorithm is not found", () => {
+			const hashery = new Hashery({
+				includeBase: false,
+				defaultAlgorithm: "missing",
+			});
+			expect(() => hashery.createHash()).toThrow(
+				"Hash provider 'missing' (default) not found",
+			);
+		});
+	});
+
+	describe("toHashStream method", () => {
+		const text = "The quick brown fox jumps over the lazy dog";
+
+		function chunks(): Array<Uint8Array> {
+			const bytes = new TextEncoder().encode(text);
+			return [
+				bytes.subarray(0, 10),
+				bytes.subarray(10, 11),
+				bytes.subarray(11),
+			];
+		}
+
+		test("should hash a ReadableStream and release its lock", async () => {
+			const hashery = new Hashery();
+			const stream = new ReadableStream<Uint8Array>({
+				start(controller) {
+					for (const chunk of chunks()) {
+						controller.enqueue(chunk);
+					}
+
+					controller.close();
+				},
+			});
+
+			expect(await hashery.toHashStream(stream)).toBe(
+				await hashery.toHash(text, { input: "raw" }),
+			);
+			expect(stream.locked).toBe(false);
+		});
+
+		test("should hash a Blob and a File", async () => {
+			const hashery = new Hashery();
+			const expected = await hashery.toHash(text, {
+				algorithm: "SHA-512",
+				input: "raw",
+			});
+
+			const blob = new Blob(chunks() as Array<BlobPart>);
+			expect(await hashery.toHashStream(blob, { algorithm: "SHA-512" })).toBe(
+				expected,
+			);
+
+			const file = new File([text], "fox.txt", { type: "text/plain" });
+			expect(await hashery.toHashStream(file, { algorithm: "SHA-512" })).toBe(
+				expected,
+			);
+		});
+
+		test("should hash a Node.js Readable", async () => {
+			const hashery = new Hashery();
+			const readable = Readable.from(
+				chunks().map((chunk) => Buffer.from(chunk)),
+			);
+
+			expect(await hashery.toHashStream(readable, { algorithm: "crc32" })).toBe(
+				await hashery.toHash(text, { algorithm: "crc32", input: "raw" }),
+			);
+		});
+
+		test("should hash an AsyncIterable of strings", async () => {
+			const hashery = new Hashery();
+			async function* generate() {
+				yield "The quick brown fox ";
+				yield "jumps over the lazy dog";
+			}
+
+			expect(
+				await hashery.toHashStream(generate(), { algorithm: "murmur" }),
+			).toBe(await hashery.toHash(text, { algorithm: "murmur", input: "raw" }));
+		});
+
+		test("should truncate the hash with maxLength", async () => {
+			const hashery = new Hashery();
+			const hash = await hashery.toHashStream(new Blob([text]), {
+				maxLength: 16,
+			});
+
+			expect(hash).toBe(
+				(await hashery.toHash(text, { input: "raw" })).substring(0, 16),
+			);
+		});
+
+		test("should buffer for providers without incremental support", async () => {
+			const hashery = new Hashery({
+				providers: [
+					{
+						name: "length",
+						toHash: async (data) => String(data.byteLength),
+					},
+				],
+			});
+
+			expect(
+				await hashery.toHashStream(new Blob([text]), { algorithm: "length" }),
+			).toBe(String(text.length));
+		});
+	});
+
 	describe("providers property", () => {
 		test("should have HashProviders instance by default", () => {
 			const hashery = new Hashery();
@@ -1004,7 +1439,7 @@ describe("Hashery", () => {
 				toHash: async (_data: BufferSource) => "custom-hash",
 			});
 
-			expect(hashery.providers.providers.size).toBe(8);
+			expect(hashery.providers.providers.size).toBe(47);
 			expect(hashery.providers.providers.has("custom-provider")).toBe(true);
 		});
 
@@ -1033,7 +1468,7 @@ describe("Hashery", () => {
 				toHash: async (_data: BufferSource) => "original-hash",
 			});
 
-			expect(hashery.providers.providers.size).toBe(8);
+			expect(hashery.providers.providers.size).toBe(47);
 
 			const newProviders = new HashProviders();
 			newProviders.add({
@@ -1058,7 +1493,7 @@ describe("Hashery", () => {
 				toHash: async (_data: BufferSource) => "test-hash",
 			});
 
-			expect(hashery.providers.providers.size).toBe(8);
+			expect(hashery.providers.providers.size).toBe(47);
 
 			const emptyProviders = new HashProviders();
 			hashery.providers = emptyProviders;
@@ -1078,11 +1513,11 @@ describe("Hashery", () => {
 				toHash: async (_data: BufferSource) => "hash2",
 			});
 
-			expect(hashery.providers.providers.size).toBe(9);
+			expect(hashery.providers.providers.size).toBe(48);
 
 			hashery.providers.remove("provider1");
 
-			expect(hashery.providers.providers.size).toBe(8);
+			expect(hashery.providers.providers.size).toBe(47);
 			expect(hashery.providers.providers.has("provider2")).toBe(true);
 		});
 
@@ -1100,7 +1535,7 @@ describe("Hashery", () => {
 
 			const names = hashery.providers.names;
 
-			expect(names.length).toBe(9);
+			expect(names.length).toBe(48);
 			expect(names).toContain("sha256");
 			expect(names).toContain("md5");
 		});
@@ -1113,7 +1548,7 @@ describe("Hashery", () => {
 
 			expect(names).toBeDefined();
 			expect(Array.isArray(names)).toBe(true);
-			expect(names.length).toBe(7);
+			expect(names.length).toBe(46);
 			expect(names).toContain("SHA-256");
 			expect(names).toContain("SHA-384");
 			expect(names).toContain("SHA-512");
@@ -1141,7 +1576,7 @@ describe("Hashery", () => {
 
 			const names = hashery.names;
 
-			expect(names.length).toBe(8);
+			expect(names.length).toBe(47);
 			expect(names).toContain("SHA-256");
 			expect(names).toContain("SHA-384");
 			expect(names).toContain("SHA-512");
@@ -1155,7 +1590,7 @@ describe("Hashery", () => {
 			const hashery = new Hashery();
 
 			const namesBefore = hashery.names;
-			expect(namesBefore.length).toBe(7);
+			expect(namesBefore.length).toBe(46);
 
 			hashery.providers.add({
 				name: "new-provider",
@@ -1163,7 +1598,7 @@ describe("Hashery", () => {
 			});
 
 			const namesAfter = hashery.names;
-			expect(namesAfter.length).toBe(8);
+			expect(namesAfter.length).toBe(47);
 			expect(namesAfter).toContain("new-provider");
 		});
 
@@ -1176,13 +1611,13 @@ describe("Hashery", () => {
 			});
 
 			const namesBefore = hashery.names;
-			expect(namesBefore.length).toBe(8);
+			expect(namesBefore.length).toBe(47);
 			expect(namesBefore).toContain("temp-provider");
 
 			hashery.providers.remove("temp-provider");
 
 			const namesAfter = hashery.names;
-			expect(namesAfter.length).toBe(7);
+			expect(namesAfter.length).toBe(46);
 			expect(namesAfter).not.toContain("temp-provider");
 		});
 
@@ -0,0 +1,124 @@
+import { describe, expect, test, vi } from "vitest";
+import { Hashery } from "../src/index.js";
+import { getStrongestIntegrity, parseIntegrity } from "../src/integrity.js";
+
+// The example of the W3C Subresource Integrity specification
+const script = "alert('Hello, world.');";
+const sha256 = "sha256-qznLcsROx4GACP2dm0UCKCzCG+HiZ1guq6ZZDob/Tng=";
+const sha384 =
+	"sha384-H8BRh8j48O9oYatfu5AZzq6A9RINhZO5H16dQZngK7T62em8MUt1FLm52t+eX6xO";
+const sha512 =
+	"sha512-Q2bFTOhEALkN8hOms2FKTDLy7eugP2zFZ1T8LCvX42Fp3WoNr3bjZSAHeOsHrbV1Fu9/A0EzCinRE7Af1ofPrw==";
+
+// Well-formed hashes that match nothing
+const zero384 = `sha384-${"A".repeat(64)}`;
+const zero512 = `sha512-${"A".repeat(86)}==`;
+
+describe("parseIntegrity", () => {
+	test("should parse the supported hashes and skip the others", () => {
+		const digests = parseIntegrity(
+			` md5-AAAA ${sha256}?foo SHA384-H8BRh8j48O9oYatfu5AZzq6A9RINhZO5H16dQZngK7T62em8MUt1FLm52t-eX6xO\tsha512-!! `,
+		);
+
+		expect(digests.map((digest) => digest.algorithm)).toEqual([
+			"SHA-256",
+			"SHA-384",
+		]);
+		expect(`sha384-${digests[1].toBase64()}`).toBe(sha384);
+		expect(parseIntegrity("")).toEqual([]);
+	});
+
+	test("should skip values that are not a full digest", () => {
+		const digests = parseIntegrity(
+			`sha512-AAAAA sha512-AAAA sha384-${"A".repeat(63)}= ${sha256}`,
+		);
+
+		expect(digests.map((digest) => digest.algorithm)).toEqual(["SHA-256"]);
+		expect(`sha256-${digests[0].toBase64()}`).toBe(sha256);
+	});
+
+	test("should keep the hashes of the strongest algorithm", () => {
+		const digests = parseIntegrity(`${sha384} ${sha256} ${zero384}`);
+
+		expect(
+			getStrongestIntegrity(digests).map((digest) => digest.toBase64()),
+		).toEqual([sha384.slice(7), zero384.slice(7)]);
+	});
+});
+
+describe("Hashery toIntegrity", () => {
+	test("should default to SHA-384", async () => {
+		const hashery = new Hashery();
+
+		expect(await hashery.toIntegrity(script)).toBe(sha384);
+		expect(
+			await hashery.toIntegrity(new TextEncoder().encode(script), {
+				algorithms: ["SHA-256", "SHA-384", "SHA-512"],
+			}),
+		).toBe(`${sha256} ${sha384} ${sha512}`);
+	});
+
+	test("should use the WebCrypto providers", async () => {
+		const hashery = new Hashery();
+		const provider = hashery.providers.get("SHA-512");
+		const toHash = vi.spyOn(provider as NonNullable<typeof provider>, "toHash");
+
+		await hashery.toIntegrity(script, { algorithms: ["SHA-512"] });
+		expect(toHash).toHaveBeenCalledTimes(1);
+	});
+
+	test("should reject unsupported algorithms", async () => {
+		const hashery = new Hashery();
+
+		await expect(
+			hashery.toIntegrity(script, { algorithms: [] }),
+		).rejects.toThrow("At least one integrity algorithm is required");
+		await expect(
+			// @ts-expect-error SHA-1 is not allowed in SRI
+			hashery.toIntegrity(script, { algorithms: ["SHA-1"] }),
+		).rejects.toThrow(
+			"Unsupported integrity algorithm 'SHA-1'. Use SHA-256, SHA-384 or SHA-512.",
+		);
+	});
+});
+
+describe("Hashery verifyIntegrity", () => {
+	test("should verify the strongest hash", async () => {
+		const hashery = new Hashery();
+
+		expect(await hashery.verifyIntegrity(script, sha384)).toBe(true);
+		expect(await hashery.verifyIntegrity(script, `${sha256} ${sha512}`)).toBe(
+			true,
+		);
+		expect(await hashery.verifyIntegrity(`${script} `, sha384)).toBe(false);
+
+		// Only SHA-512 is checked, the matching SHA-256 hash does not count
+		expect(await hashery.verifyIntegrity(script, `${sha256} ${zero512}`)).toBe(
+			false,
+		);
+
+		// Truncated or undecodable hashes are skipped instead of being the strongest
+		expect(
+			await hashery.verifyIntegrity(
+				script,
+				`sha512-AAAAA sha512-AAAA ${sha256}`,
+			),
+		).toBe(true);
+
+		// Any hash of the strongest algorithm may match
+		expect(
+			await hashery.verifyIntegrity(script, `${zero384} ${sha384}?ct=js`),
+		).toBe(true);
+	});
+
+	test("should throw without a supported hash", async () => {
+		const hashery = new Hashery();
+
+		await expect(hashery.verifyIntegrity(script, "md5-AAAA")).rejects.toThrow(
+			"Integrity metadata 'md5-AAAA' has no supported hash",
+		);
+		await expect(hashery.verifyIntegrity(script, "")).rejects.toThrow(
+			"has no supported hash",
+		);
+	});
+});
@@ -0,0 +1,195 @@
+import { describe, expect, test } from "vitest";
+import { Digest } from "../src/digest.js";
+import { Hashery } from "../src/index.js";
+import {
+	decodeCid,
+	decodeMultihash,
+	encodeCid,
+	encodeMultihash,
+	multihashCodes,
+} from "../src/multihash.js";
+import { fromHex, toHex } from "../src/utils.js";
+
+// CIDv1 of the raw bytes of "hello world", as returned by `ipfs add --cid-version 1`
+const helloCid = "bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e";
+
+describe("encodeMultihash", () => {
+	test("should prefix the digest with the varint code and length", () => {
+		expect(toHex(encodeMultihash(0x12, fromHex("abcd")))).toBe("1202abcd");
+		expect(toHex(encodeMultihash(0xb240, new Uint8Array(64))).slice(0, 8)).toBe(
+			"c0e40240",
+		);
+	});
+
+	test("should store murmur3-32 little-endian", () => {
+		const digest = fromHex("248bfa47");
+
+		expect(toHex(encodeMultihash(0x23, digest))).toBe("230447fa8b24");
+		expect(toHex(digest)).toBe("248bfa47");
+		expect(toHex(decodeMultihash(fromHex("230447fa8b24")).digest)).toBe(
+			"248bfa47",
+		);
+	});
+});
+
+describe("decodeMultihash", () => {
+	test("should read the code and digest", () => {
+		const { code, digest } = decodeMultihash(fromHex("c0e40202abcd"));
+
+		expect(code).toBe(0xb240);
+		expect(toHex(digest)).toBe("abcd");
+	});
+
+	test("should reject truncated multihashes", () => {
+		expect(() => decodeMultihash(fromHex("1203abcd"))).toThrow(
+			"Invalid multihash: expected a 3-byte digest, got 2 bytes",
+		);
+		expect(() => decodeMultihash(fromHex("1202abcdef"))).toThrow(
+			"Invalid multihash: expected a 2-byte digest, got 3 bytes",
+		);
+		expect(() => decodeMultihash(fromHex("c0e4"))).toThrow(
+			"Invalid varint: truncated or too long",
+		);
+		expect(() => decodeMultihash(new Uint8Array(8).fill(0x80))).toThrow(
+			"Invalid varint: truncated or too long",
+		);
+	});
+});
+
+describe("CID", () => {
+	const multihash = fromHex(
+		"1220b94d27b9934d3e08a52e52d7da7dabfac484efe37a5380ee9088f7ace2efcde9",
+	);
+
+	test("should encode CIDv1 and CIDv0", () => {
+		expect(encodeCid(1, 0x55, multihash)).toBe(helloCid);
+		expect(encodeCid(0, 0x70, multihash)).toBe(
+			"QmaozNR7DZHQK1ZcU9p7QdrshMvXqWK6gpu5rmrkPdT3L4",
+		);
+	});
+
+	test("should only encode dag-pb SHA-256 as CIDv0", () => {
+		const message =
+			"CIDv0 only supports the dag-pb codec with SHA-256. Use version 1 instead.";
+
+		expect(() => encodeCid(0, 0x55, multihash)).toThrow(message);
+		expect(() => encodeCid(0, 0x70, fromHex("1302abcd"))).toThrow(message);
+	});
+
+	test("should decode CIDv1 and CIDv0", () => {
+		expect(decodeCid(helloCid)).toEqual({
+			version: 1,
+			codec: 0x55,
+			multihash,
+		});
+		expect(decodeCid("QmaozNR7DZHQK1ZcU9p7QdrshMvXqWK6gpu5rmrkPdT3L4")).toEqual(
+			{
+				version: 0,
+				codec: 0x70,
+				multihash,
+			},
+		);
+	});
+
+	test("should reject invalid CIDs", () => {
+		const message = "Expected a CIDv0 or a base32 CIDv1 starting with 'b'.";
+
+		expect(() =>
+			decodeCid("zdj7WhuEjrB52m1BisYCtmjH1hSKa7yZ3jEZ9JcXaFRD51wVz"),
+		).toThrow(message);
+		expect(() => decodeCid("b1")).toThrow(message);
+		expect(() => decodeCid(`Qm${"0".repeat(44)}`)).toThrow(message);
+		expect(() => decodeCid("bai")).toThrow("Unsupported CID version 2");
+	});
+
+	test("should have a code for the providers in the request", () => {
+		expect(multihashCodes["SHA-256"]).toBe(0x12);
+		expect(multihashCodes["SHA-512"]).toBe(0x13);
+		expect(multihashCodes.murmur).toBe(0x23);
+		expect(multihashCodes.crc32).toBe(0x0132);
+	});
+});
+
+describe("Hashery multihash and CID", () => {
+	test("should hash to a multihash and parse it back", async () => {
+		const hashery = new Hashery();
+		hashery.loadProviders(undefined, { includeLegacy: true });
+
+		for (const algorithm of Object.keys(multihashCodes)) {
+			const multihash = await hashery.toMultihash("abc", {
+				algorithm,
+				input: "raw",
+			});
+			const digest = hashery.parseMultihash(multihash);
+
+			expect(digest.algorithm).toBe(algorithm);
+			expect(digest.toHex()).toBe(
+				await hashery.toHash("abc", { algorithm, input: "raw" }),
+			);
+		}
+	});
+
+	test("should use the multihashCode of custom providers", async () => {
+		const hashery = new Hashery({
+			providers: [
+				{
+					name: "identity",
+					multihashCode: 0x00,
+					toHash: async (data) => toHex(new Uint8Array(data as ArrayBuffer)),
+				},
+			],
+		});
+		const data = new TextEncoder().encode("hi").buffer;
+
+		const multihash = await hashery.toMultihash(data, {
+			algorithm: "identity",
+			input: "raw",
+		});
+		expect(toHex(multihash)).toBe("00026869");
+		expect(hashery.parseMultihash(multihash).algorithm).toBe("identity");
+	});
+
+	test("should throw without a multihash code", async () => {
+		const hashery = new Hashery();
+
+		await expect(
+			hashery.toMultihash("abc", { algorithm: "djb2" }),
+		).rejects.toThrow("Hash provider 'djb2' has no multihash code");
+		expect(() => hashery.parseMultihash(fromHex("d50100"))).toThrow(
+			"No hash provider has the multihash code 0xd5",
+		);
+	});
+
+	test("should return CIDs", async () => {
+		const hashery = new Hashery();
+
+		expect(await hashery.toCid("hello world", { input: "raw" })).toBe(helloCid);
+		expect(
+			await hashery.toCid("hello world", { input: "raw", codec: "dag-json" }),
+		).toBe("baguqeeraxfgspomtju7arjjokll5u7nl7lcij37dpjjyb3uqrd32zyxpzxuq");
+		expect(
+			await hashery.toCid("hello world", {
+				input: "raw",
+				codec: 0x70,
+				version: 0,
+			}),
+		).toBe("QmaozNR7DZHQK1ZcU9p7QdrshMvXqWK6gpu5rmrkPdT3L4");
+	});
+
+	test("should verify content against a CID", async () => {
+		const hashery = new Hashery();
+		const { version, codec, digest } = hashery.parseCid(helloCid);
+
+		expect(version).toBe(1);
+		expect(codec).toBe(0x55);
+		expect(digest).toBeInstanceOf(Digest);
+		expect(
+			digest.equals(
+				await hashery.digest("hello world", {
+					algorithm: digest.algorithm,
+					input: "raw",
+				}),
+			),
+		).toBe(true);
+	});
+});
@@ -0,0 +1,76 @@
+import { describe, expect, test } from "vitest";
+import { Adler32 } from "../../src/providers/adler32.ts";
+import type { HashProvider } from "../../src/types.ts";
+
+const encode = (value: string) => new TextEncoder().encode(value);
+
+describe("Adler32 Hash Provider", () => {
+	test("should implement HashProvider interface", () => {
+		const adler32: HashProvider = new Adler32();
+		expect(adler32.name).toBe("adler32");
+		expect(typeof adler32.toHashSync).toBe("function");
+	});
+
+	// Reference values from zlib's adler32()
+	test.each([
+		["", "00000001"],
+		["a", "00620062"],
+		["abcde", "05c801f0"],
+		["Wikipedia", "11e60398"],
+		["The quick brown fox jumps over the lazy dog", "5bdc0fda"],
+	])("should hash %j to %s", async (input, expected) => {
+		const adler32 = new Adler32();
+		expect(adler32.toHashSync(encode(input))).toBe(expected);
+		expect(await adler32.toHash(encode(input))).toBe(expected);
+	});
+
+	test("should reduce the sums for data longer than a block", () => {
+		const data = new Uint8Array(10240).map((_, index) => index % 256);
+		expect(new Adler32().toHashSync(data)).toBe("f475ed1e");
+		expect(new Adler32().toHashSync(new Uint8Array(20000).fill(0xff))).toBe(
+			"9f51d664",
+		);
+	});
+
+	test("should produce the same hash when fed in chunks", () => {
+		const adler32 = new Adler32();
+		const data = new Uint8Array(10240).map((_, index) => index % 256);
+		const hasher = adler32.createHasher();
+
+		for (let i = 0; i < data.length; i += 1000) {
+			hasher.update(data.subarray(i, i + 1000));
+		}
+
+		expect(hasher.digest()).toBe(adler32.toHashSync(data));
+	});
+
+	describe("combine", () => {
+		test("should combine the checksums of adjacent chunks", () => {
+			const adler32 = new Adler32();
+			const combined = Adler32.combine(
+				adler32.toHashSync(encode("Wiki")),
+				adler32.toHashSync(encode("pedia")),
+				5,
+			);
+
+			expect(combined).toBe("11e60398");
+		});
+
+		test.each([
+			0, 1, 5552, 65521, 100000,
+		])("should match the checksum of the whole data when split at %i", (split) => {
+			const adler32 = new Adler32();
+			const data = new Uint8Array(100000).map((_, index) => (index * 7) % 256);
+			const first = data.subarray(0, split);
+			const second = data.subarray(split);
+
+			expect(
+				Adler32.combine(
+					adler32.toHashSync(first),
+					adler32.toHashSync(second),
+					second.length,
+				),
+			).toBe(adler32.toHashSync(data));
+		});
+	});
+});
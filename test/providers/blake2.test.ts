@@ -0,0 +1,216 @@
+import { describe, expect, test } from "vitest";
+import { Blake2b, Blake2s } from "../../src/providers/blake2.ts";
+
+// Messages of the test vectors: byte i is i % 251
+const message = (length: number) =>
+	Uint8Array.from({ length }, (_, index) => index % 251);
+const key = Uint8Array.from({ length: 64 }, (_, index) => index);
+const encoder = new TextEncoder();
+
+describe("BLAKE2 Hash Providers", () => {
+	describe("name property", () => {
+		test("should include the digest size when it is not the default", () => {
+			expect(new Blake2b().name).toBe("blake2b");
+			expect(new Blake2b({ outputLength: 32 }).name).toBe("blake2b-256");
+			expect(new Blake2s().name).toBe("blake2s");
+			expect(new Blake2s({ outputLength: 16 }).name).toBe("blake2s-128");
+		});
+
+		test("should expose the output length", () => {
+			expect(new Blake2b().outputLength).toBe(64);
+			expect(new Blake2s({ outputLength: 20 }).outputLength).toBe(20);
+		});
+
+		test("should expose the block size", () => {
+			expect(new Blake2b().blockSize).toBe(128);
+			expect(new Blake2s().blockSize).toBe(64);
+		});
+	});
+
+	describe("BLAKE2b vectors", () => {
+		test("should match the RFC 7693 example", () => {
+			expect(new Blake2b().toHashSync(encoder.encode("abc"))).toBe(
+				"ba80a53f981c4d0d6a2797b69f12f6e94c212f14685ac4b74b12bb6fdbffa2d17d87c5392aab792dc252d5de4533cc9518d38aa8dbf1925ab92386edd4009923",
+			);
+		});
+
+		test.each([
+			[
+				0,
+				"786a02f742015903c6c6fd852552d272912f4740e15847618a86e217f71f5419d25e1031afee585313896444934eb04b903a685b1448b755d56f701afe9be2ce",
+				"0e5751c026e543b2e8ab2eb06099daa1d1e5df47778f7787faab45cdf12fe3a8",
+			],
+			[
+				3,
+				"40a374727302d9a4769c17b5f409ff32f58aa24ff122d7603e4fda1509e919d4107a52c57570a6d94e50967aea573b11f86f473f537565c66f7039830a85d186",
+				"3d8c3d594928271f44aad7a04b177154806867bcf918e1549c0bc16f9da2b09b",
+			],
+			[
+				128,
+				"2319e3789c47e2daa5fe807f61bec2a1a6537fa03f19ff32e87eecbfd64b7e0e8ccff439ac333b040f19b0c4ddd11a61e24ac1fe0f10a039806c5dcc0da3d115",
+				"c3582f71ebb2be66fa5dd750f80baae97554f3b015663c8be377cfcb2488c1d1",
+			],
+			[
+				129,
+				"f59711d44a031d5f97a9413c065d1e614c417ede998590325f49bad2fd444d3e4418be19aec4e11449ac1a57207898bc57d76a1bcf3566292c20c683a5c4648f",
+				"f7f3c46ba2564ff4c4c162da1f5b605f9f1c4aa6a20652a9f9a337c1a2f5b9c9",
+			],
+			[
+				1000,
+				"c11e1c0340bd7e5a1b275f1230c962fad215ecb1391486e74e31b960a2f2996381a5fad092da06841d5f26e38f6ecfeaf441acbcd1c2de61aef121e7927175f5",
+				"b372d0608f720c8c3dd41e9c8eecb10143b41abe520b616607e754bf79c08331",
+			],
+		])("should hash %i bytes", async (length, hash512, hash256) => {
+			expect(new Blake2b().toHashSync(message(length))).toBe(hash512);
+			expect(await new Blake2b().toHash(message(length))).toBe(hash512);
+			expect(
+				new Blake2b({ outputLength: 32 }).toHashSync(message(length)),
+			).toBe(hash256);
+		});
+
+		test.each([
+			[
+				0,
+				"10ebb67700b1868efb4417987acf4690ae9d972fb7a590c2f02871799aaa4786b5e996e8f0f4eb981fc214b005f42d2ff4233499391653df7aefcbc13fc51568",
+			],
+			[
+				1,
+				"961f6dd1e4dd30f63901690c512e78e4b45e4742ed197c3c5e45c549fd25f2e4187b0bc9fe30492b16b0d0bc4ef9b0f34c7003fac09a5ef1532e69430234cebd",
+			],
+			[
+				128,
+				"72065ee4dd91c2d8509fa1fc28a37c7fc9fa7d5b3f8ad3d0d7a25626b57b1b44788d4caf806290425f9890a3a2a35a905ab4b37acfd0da6e4517b2525c9651e4",
+			],
+			[
+				129,
+				"64475dfe7600d7171bea0b394e27c9b00d8e74dd1e416a79473682ad3dfdbb706631558055cfc8a40e07bd015a4540dcdea15883cbbf31412df1de1cd4152b91",
+			],
+		])("should hash %i bytes with a key", (length, hash) => {
+			expect(new Blake2b({ key }).toHashSync(message(length))).toBe(hash);
+		});
+
+		test("should use the salt and personalization", () => {
+			const blake2b = new Blake2b({
+				outputLength: 32,
+				salt: encoder.encode("0123456789abcdef"),
+				personalization: encoder.encode("hashery"),
+			});
+			expect(blake2b.toHashSync(encoder.encode("abc"))).toBe(
+				"409287bf967e4e343b99e68f13b4bc55db16ce22ee164a0d3f964d8cd2cc9bc1",
+			);
+		});
+
+		test("should not truncate longer digests for shorter ones", () => {
+			expect(
+				new Blake2b({ outputLength: 1 }).toHashSync(encoder.encode("abc")),
+			).toBe("6b");
+		});
+	});
+
+	describe("BLAKE2s vectors", () => {
+		test("should match the RFC 7693 example", () => {
+			expect(new Blake2s().toHashSync(encoder.encode("abc"))).toBe(
+				"508c5e8c327c14e2e1a72ba34eeb452f37458b209ed63a294d999b4c86675982",
+			);
+		});
+
+		test.each([
+			[0, "69217a3079908094e11121d042354a7c1f55b6482ca1a51e1b250dfd1ed0eef9"],
+			[3, "e8f91c6ef232a041452ab0e149070cdd7dd1769e75b3a5921be37876c45c9900"],
+			[128, "1fa877de67259d19863a2a34bcc6962a2b25fcbf5cbecd7ede8f1fa36688a796"],
+			[129, "5bd169e67c82c2c2e98ef7008bdf261f2ddf30b1c00f9e7f275bb3e8a28dc9a2"],
+			[
+				1000,
+				"1c067a5e746fb0f6734efac9a8cdb0e11061f0077f255184365c690115392501",
+			],
+		])("should hash %i bytes", async (length, hash) => {
+			expect(new Blake2s().toHashSync(message(length))).toBe(hash);
+			expect(await new Blake2s().toHash(message(length))).toBe(hash);
+		});
+
+		test.each([
+			[0, "48a8997da407876b3d79c0d92325ad3b89cbb754d86ab71aee047ad345fd2c49"],
+			[1, "40d15fee7c328830166ac3f918650f807e7e01e177258cdc0a39b11f598066f1"],
+			[128, "0c311f38c35a4fb90d651c289d486856cd1413df9b0677f53ece2cd9e477c60a"],
+			[129, "46a73a8dd3e70f59d3942c01df599def783c9da82fd83222cd662b53dce7dbdf"],
+		])("should hash %i bytes with a key", (length, hash) => {
+			expect(
+				new Blake2s({ key: key.subarray(0, 32) }).toHashSync(message(length)),
+			).toBe(hash);
+		});
+
+		test("should use the salt and personalization", () => {
+			const blake2s = new Blake2s({
+				outputLength: 16,
+				salt: encoder.encode("01234567"),
+				personalization: encoder.encode("hashery"),
+			});
+			expect(blake2s.toHashSync(encoder.encode("abc"))).toBe(
+				"19e4eb8b5ad9afb41cd18d15c6ec5983",
+			);
+			expect(
+				new Blake2s({ outputLength: 1 }).toHashSync(encoder.encode("abc")),
+			).toBe("0d");
+		});
+	});
+
+	describe("createHasher", () => {
+		test("should give the same digest for any chunking", () => {
+			const data = message(1000);
+			for (const provider of [new Blake2b({ key }), new Blake2s()]) {
+				const expected = provider.toHashSync(data);
+				for (const size of [1, 63, 64, 128, 129]) {
+					const hasher = provider.createHasher();
+					for (let offset = 0; offset < data.length; offset += size) {
+						hasher.update(data.subarray(offset, offset + size));
+					}
+
+					expect(hasher.digest()).toBe(expected);
+				}
+			}
+		});
+
+		test("should copy the key", () => {
+			const source = key.slice();
+			const blake2b = new Blake2b({ key: source });
+			const expected = blake2b.toHashSync(message(3));
+			source.fill(0);
+			expect(blake2b.toHashSync(message(3))).toBe(expected);
+		});
+	});
+
+	describe("options validation", () => {
+		test("should reject invalid output lengths", () => {
+			expect(() => new Blake2b({ outputLength: 0 })).toThrow(
+				"BLAKE2b output length must be between 1 and 64 bytes, got 0",
+			);
+			expect(() => new Blake2b({ outputLength: 65 })).toThrow(
+				"BLAKE2b output length must be between 1 and 64 bytes, got 65",
+			);
+			expect(() => new Blake2s({ outputLength: 33 })).toThrow(
+				"BLAKE2s output length must be between 1 and 32 bytes, got 33",
+			);
+			expect(() => new Blake2s({ outputLength: 1.5 })).toThrow(
+				"BLAKE2s output length must be between 1 and 32 bytes, got 1.5",
+			);
+		});
+
+		test("should reject keys that are too long", () => {
+			expect(() => new Blake2b({ key: new Uint8Array(65) })).toThrow(
+				"BLAKE2b key must be at most 64 bytes, got 65",
+			);
+			expect(() => new Blake2s({ key })).toThrow(
+				"BLAKE2s key must be at most 32 bytes, got 64",
+			);
+		});
+
+		test("should reject salts and personalizations that are too long", () => {
+			expect(() => new Blake2b({ salt: new Uint8Array(17) })).toThrow(
+				"BLAKE2b salt must be at most 16 bytes, got 17",
+			);
+			expect(() => new Blake2s({ personalization: new Uint8Array(9) })).toThrow(
+				"BLAKE2s personalization must be at most 8 bytes, got 9",
+			);
+		});
+	});
+});
@@ -0,0 +1,128 @@
+import { describe, expect, test } from "vitest";
+import { Blake3 } from "../../src/providers/blake3.ts";
+
+// Inputs, key and context of the official BLAKE3 test vectors: byte i is i % 251
+const message = (length: number) =>
+	Uint8Array.from({ length }, (_, index) => index % 251);
+const key = new TextEncoder().encode("whats the Elvish word for friend");
+const context = "BLAKE3 2019-12-27 16:29:52 test vectors context";
+
+describe("BLAKE3 Hash Provider", () => {
+	describe("name property", () => {
+		test("should include the digest size when it is not the default", () => {
+			expect(new Blake3().name).toBe("blake3");
+			expect(new Blake3({ outputLength: 64 }).name).toBe("blake3-512");
+			expect(new Blake3({ outputLength: 64 }).outputLength).toBe(64);
+			expect(new Blake3().blockSize).toBe(64);
+		});
+	});
+
+	describe("official test vectors", () => {
+		test.each([
+			[
+				0,
+				"af1349b9f5f9a1a6a0404dea36dcc9499bcb25c9adc112b7cc9a93cae41f3262",
+				"92b2b75604ed3c761f9d6f62392c8a9227ad0ea3f09573e783f1498a4ed60d26",
+				"2cc39783c223154fea8dfb7c1b1660f2ac2dcbd1c1de8277b0b0dd39b7e50d7d",
+			],
+			[
+				1,
+				"2d3adedff11b61f14c886e35afa036736dcd87a74d27b5c1510225d0f592e213",
+				"6d7878dfff2f485635d39013278ae14f1454b8c0a3a2d34bc1ab38228a80c95b",
+				"b3e2e340a117a499c6cf2398a19ee0d29cca2bb7404c73063382693bf66cb06c",
+			],
+			[
+				1023,
+				"10108970eeda3eb932baac1428c7a2163b0e924c9a9e25b35bba72b28f70bd11",
+				"c951ecdf03288d0fcc96ee3413563d8a6d3589547f2c2fb36d9786470f1b9d6e",
+				"74a16c1c3d44368a86e1ca6df64be6a2f64cce8f09220787450722d85725dea5",
+			],
+			[
+				1024,
+				"42214739f095a406f3fc83deb889744ac00df831c10daa55189b5d121c855af7",
+				"75c46f6f3d9eb4f55ecaaee480db732e6c2105546f1e675003687c31719c7ba4",
+				"7356cd7720d5b66b6d0697eb3177d9f8d73a4a5c5e968896eb6a689684302706",
+			],
+			[
+				1025,
+				"d00278ae47eb27b34faecf67b4fe263f82d5412916c1ffd97c8cb7fb814b8444",
+				"357dc55de0c7e382c900fd6e320acc04146be01db6a8ce7210b7189bd664ea69",
+				"effaa245f065fbf82ac186839a249707c3bddf6d3fdda22d1b95a3c970379bcb",
+			],
+			[
+				2048,
+				"e776b6028c7cd22a4d0ba182a8bf62205d2ef576467e838ed6f2529b85fba24a",
+				"879cf1fa2ea0e79126cb1063617a05b6ad9d0b696d0d757cf053439f60a99dd1",
+				"7b2945cb4fef70885cc5d78a87bf6f6207dd901ff239201351ffac04e1088a23",
+			],
+			[
+				3073,
+				"7124b49501012f81cc7f11ca069ec9226cecb8a2c850cfe644e327d22d3e1cd3",
+				"68dede9bef00ba89e43f31a6825f4cf433389fedae75c04ee9f0cf16a427c95a",
+				"72613c9ec9ff7e40f8f5c173784c532ad852e827dba2bf85b2ab4b76f7079081",
+			],
+			[
+				4096,
+				"015094013f57a5277b59d8475c0501042c0b642e531b0a1c8f58d2163229e969",
+				"befc660aea2f1718884cd8deb9902811d332f4fc4a38cf7c7300d597a081bfc0",
+				"1e0d7f3db8c414c97c6307cbda6cd27ac3b030949da8e23be1a1a924ad2f25b9",
+			],
+			[
+				8193,
+				"bab6c09cb8ce8cf459261398d2e7aef35700bf488116ceb94a36d0f5f1b7bc3b",
+				"954a2a75420c8d6547e3ba5b98d963e6fa6491addc8c023189cc519821b4a1f5",
+				"af1e0346e389b17c23200270a64aa4e1ead98c61695d917de7d5b00491c9b0f1",
+			],
+		])("should hash %i bytes", async (length, hash, keyedHash, derivedKey) => {
+			expect(new Blake3().toHashSync(message(length))).toBe(hash);
+			expect(await new Blake3().toHash(message(length))).toBe(hash);
+			expect(new Blake3({ key }).toHashSync(message(length))).toBe(keyedHash);
+			expect(new Blake3({ context }).toHashSync(message(length))).toBe(
+				derivedKey,
+			);
+		});
+
+		test("should produce extendable output", () => {
+			const hash = new Blake3({ outputLength: 131 }).toHashSync(message(1));
+			expect(hash).toBe(
+				"2d3adedff11b61f14c886e35afa036736dcd87a74d27b5c1510225d0f592e213c3a6cb8bf623e20cdb535f8d1a5ffb86342d9c0b64aca3bce1d31f60adfa137b358ad4d79f97b47c3d5e79f179df87a3b9776ef8325f8329886ba42f07fb138bb502f4081cbcec3195c5871e6c23e2cc97d3c69a613eba131e5f1351f3f1da786545e5",
+			);
+			expect(new Blake3({ outputLength: 1 }).toHashSync(message(1))).toBe("2d");
+		});
+	});
+
+	describe("createHasher", () => {
+		test("should give the same digest for any chunking", () => {
+			const data = message(5000);
+			const expected = new Blake3().toHashSync(data);
+			for (const size of [1, 63, 64, 1023, 1024, 1025]) {
+				const hasher = new Blake3().createHasher();
+				for (let offset = 0; offset < data.length; offset += size) {
+					hasher.update(data.subarray(offset, offset + size));
+				}
+
+				expect(hasher.digest()).toBe(expected);
+			}
+		});
+	});
+
+	describe("options validation", () => {
+		test("should reject invalid output lengths", () => {
+			expect(() => new Blake3({ outputLength: 0 })).toThrow(
+				"BLAKE3 output length must be a positive integer, got 0",
+			);
+		});
+
+		test("should reject keys that are not 32 bytes", () => {
+			expect(() => new Blake3({ key: new Uint8Array(16) })).toThrow(
+				"BLAKE3 key must be 32 bytes, got 16",
+			);
+		});
+
+		test("should reject a key together with a context", () => {
+			expect(() => new Blake3({ key, context })).toThrow(
+				"BLAKE3 key and context cannot be used together",
+			);
+		});
+	});
+});
@@ -1,5 +1,10 @@
 import { describe, test, expect } from "vitest";
-import { CRC } from "../../src/providers/crc.ts";
+import {
+	CRC,
+	type CRCOptions,
+	type CRCPreset,
+	crcPresets,
+} from "../../src/providers/crc.ts";
 import type { HashProvider } from "../../src/types.ts";
 
 describe("CRC Hash Provider", () => {
@@ -223,4 +228,155 @@ describe("CRC Hash Provider", () => {
 			expect(hash).toMatch(/^[0-9a-f]{8}$/);
 		});
 	});
+
+	describe("createHasher method", () => {
+		test("should produce the same hash as toHashSync when fed in chunks", () => {
+			const crc = new CRC();
+			const data = new TextEncoder().encode(
+				"The quick brown fox jumps over the lazy dog",
+			);
+			const hasher = crc.createHasher();
+
+			for (let i = 0; i < data.length; i += 5) {
+				hasher.update(data.subarray(i, i + 5));
+			}
+
+			expect(hasher.digest()).toBe(crc.toHashSync(data));
+		});
+
+		test("should support chaining and BufferSource chunks", () => {
+			const crc = new CRC();
+			const hash = crc
+				.createHasher()
+				.update(new TextEncoder().encode("hel").buffer)
+				.update(new DataView(new TextEncoder().encode("lo").buffer))
+				.digest();
+
+			expect(hash).toBe("3610a686");
+		});
+
+		test("should return the empty input hash without updates", () => {
+			const crc = new CRC();
+			expect(crc.createHasher().digest()).toBe(
+				crc.toHashSync(new Uint8Array(0)),
+			);
+		});
+	});
+
+	describe("presets", () => {
+		// Check values (CRC of "123456789") from the CRC RevEng catalogue
+		test.each([
+			["crc32", "cbf43926", "3610a686"],
+			["crc32c", "e3069283", "9a71bb4c"],
+			["crc16-ccitt", "29b1", "d26e"],
+			["crc16-kermit", "2189", "fbca"],
+			["crc16-modbus", "4b37", "34f6"],
+			["crc64-ecma", "6c40df5f0b497347", "40544a306137b6ec"],
+			["crc64-xz", "995dc9bbdf1939fa", "9b1edae5dbb937b1"],
+		] as const)("%s should match the catalogue check value", (preset, check, hello) => {
+			const crc = new CRC(preset);
+			expect(crc.name).toBe(preset);
+			expect(crc.options).toBe(crcPresets[preset]);
+			expect(crc.toHashSync(new TextEncoder().encode("123456789"))).toBe(check);
+			expect(crc.toHashSync(new TextEncoder().encode("hello"))).toBe(hello);
+		});
+
+		test("should default to the crc32 preset", () => {
+			expect(new CRC().options).toBe(crcPresets.crc32);
+		});
+
+		test("should produce the same hash when fed in chunks", async () => {
+			const data = new TextEncoder().encode(
+				"The quick brown fox jumps over the lazy dog",
+			);
+
+			for (const preset of ["crc16-ccitt", "crc64-ecma", "crc64-xz"] as const) {
+				const crc = new CRC(preset);
+				const hasher = crc.createHasher();
+				for (let i = 0; i < data.length; i += 3) {
+					hasher.update(data.subarray(i, i + 3));
+				}
+
+				expect(hasher.digest()).toBe(crc.toHashSync(data));
+				expect(await crc.toHash(data)).toBe(crc.toHashSync(data));
+			}
+		});
+
+		test("should throw for an unknown preset", () => {
+			expect(() => new CRC("crc-unknown" as CRCPreset)).toThrow(
+				"Unknown CRC preset 'crc-unknown'",
+			);
+		});
+	});
+
+	describe("custom parameters", () => {
+		const custom = (
+			width: number,
+			poly: number | bigint,
+			init: number | bigint,
+			refin: boolean,
+			refout: boolean,
+			xorout: number | bigint,
+		): CRCOptions => ({
+			name: "custom",
+			width,
+			poly,
+			init,
+			refin,
+			refout,
+			xorout,
+		});
+
+		test.each([
+			["CRC-3/GSM", custom(3, 0x3, 0, false, false, 0x7), "4"],
+			["CRC-5/USB", custom(5, 0x05, 0x1f, true, true, 0x1f), "19"],
+			["CRC-8/SMBUS", custom(8, 0x07, 0, false, false, 0), "f4"],
+			["CRC-12/UMTS", custom(12, 0x80f, 0, false, true, 0), "daf"],
+			[
+				"CRC-24/OPENPGP",
+				custom(24, 0x864cfb, 0xb704ce, false, false, 0),
+				"21cf02",
+			],
+			[
+				"CRC-32/BZIP2",
+				custom(32, 0x04c11db7, 0xffffffff, false, false, 0xffffffff),
+				"fc891918",
+			],
+			[
+				"CRC-40/GSM",
+				custom(40, 0x0004820009n, 0, false, false, 0xffffffffffn),
+				"d4164fc646",
+			],
+			[
+				"CRC-64/WE",
+				custom(64, 0x42f0e1eba9ea3693n, -1n, false, false, 0xffffffffffffffffn),
+				"62ec59e3f1a4f00a",
+			],
+		])("%s should match the catalogue check value", (_name, options, check) => {
+			const crc = new CRC(options);
+			expect(crc.name).toBe("custom");
+			expect(crc.toHashSync(new TextEncoder().encode("123456789"))).toBe(check);
+		});
+
+		test("should support a reflected input with an unreflected output above 32 bits", () => {
+			const crc = new CRC(custom(64, 0x42f0e1eba9ea3693n, 0, true, false, 0));
+			expect(crc.toHashSync(new TextEncoder().encode("123456789"))).toBe(
+				"51301e47277e39d4",
+			);
+		});
+
+		test("should pad the digest to the width", () => {
+			const crc = new CRC(custom(3, 0x3, 0, false, false, 0x7));
+			expect(crc.toHashSync(new Uint8Array(0))).toBe("7");
+			expect(new CRC("crc16-ccitt").toHashSync(new Uint8Array([0x2a]))).toMatch(
+				/^[0-9a-f]{4}$/,
+			);
+		});
+
+		test.each([0, 65, 1.5])("should throw for width %s", (width) => {
+			expect(() => new CRC(custom(width, 0x07, 0, false, false, 0))).toThrow(
+				`CRC width must be an integer between 1 and 64, got ${width}`,
+			);
+		});
+	});
 });
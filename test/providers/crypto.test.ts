@@ -48,6 +48,14 @@ describe("WebCrypto", () => {
 		});
 	});
 
+	describe("secure property", () => {
+		test("should only be false for SHA-1", () => {
+			expect(new WebCrypto({ algorithm: "SHA-1" }).secure).toBe(false);
+			expect(new WebCrypto().secure).toBe(true);
+			expect(new WebCrypto({ algorithm: "SHA-512" }).secure).toBe(true);
+		});
+	});
+
 	describe("name property", () => {
 		test("should return algorithm as name", () => {
 			const webCrypto = new WebCrypto({ algorithm: "SHA-512" });
@@ -310,4 +318,76 @@ describe("WebCrypto", () => {
 			);
 		});
 	});
+
+	describe("createHasher method", () => {
+		test.each(["SHA-1", "SHA-256", "SHA-384", "SHA-512"] as const)(
+			"should match toHash for %s when fed in chunks",
+			async (algorithm) => {
+				const webCrypto = new WebCrypto({ algorithm });
+				const data = new Uint8Array(1000);
+				for (let i = 0; i < data.length; i++) {
+					data[i] = i % 251;
+				}
+
+				const hasher = webCrypto.createHasher();
+				for (let i = 0; i < data.length; i += 97) {
+					hasher.update(data.subarray(i, i + 97));
+				}
+
+				expect(hasher.digest()).toBe(await webCrypto.toHash(data));
+			},
+		);
+	});
+
+	describe("toHashSync method", () => {
+		test.each(["SHA-1", "SHA-256", "SHA-384", "SHA-512"] as const)(
+			"should match toHash for %s",
+			async (algorithm) => {
+				const webCrypto = new WebCrypto({ algorithm });
+				// Lengths around the padding and block boundaries of both block sizes
+				for (const length of [0, 1, 55, 56, 64, 111, 112, 128, 1000]) {
+					const data = new Uint8Array(length);
+					for (let i = 0; i < data.length; i++) {
+						data[i] = i % 251;
+					}
+
+					expect(webCrypto.toHashSync(data)).toBe(
+						await webCrypto.toHash(data),
+					);
+				}
+			},
+		);
+
+		test("should hash ArrayBuffer and DataView input", () => {
+			const webCrypto = new WebCrypto();
+			const data = new TextEncoder().encode("abc");
+			const expected =
+				"ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad";
+
+			expect(webCrypto.toHashSync(data.buffer)).toBe(expected);
+			expect(webCrypto.toHashSync(new DataView(data.buffer))).toBe(expected);
+		});
+	});
+
+	describe("toHmac method", () => {
+		test("should expose the block size", () => {
+			expect(new WebCrypto({ algorithm: "SHA-1" }).blockSize).toBe(64);
+			expect(new WebCrypto().blockSize).toBe(64);
+			expect(new WebCrypto({ algorithm: "SHA-384" }).blockSize).toBe(128);
+			expect(new WebCrypto({ algorithm: "SHA-512" }).blockSize).toBe(128);
+		});
+
+		test("should sign with crypto.subtle", async () => {
+			const webCrypto = new WebCrypto({ algorithm: "SHA-1" });
+			const encoder = new TextEncoder();
+
+			// RFC 2202 test case 2
+			expect(
+				await webCrypto.toHmac(
+					encoder.encode("Jefe"),
+					encoder.encode("what do ya want for nothing?"),
+				),
+			).toBe("effcdf6ae5eb2fa2d27416d5f184df9c259a7c79");
+		});
+	});
 });
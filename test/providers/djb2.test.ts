@@ -301,4 +301,38 @@ describe("DJB2 Hash Provider", () => {
 			});
 		});
 	});
+
+	describe("createHasher method", () => {
+		test("should produce the same hash as toHashSync when fed in chunks", () => {
+			const djb2 = new DJB2();
+			const data = new TextEncoder().encode(
+				"The quick brown fox jumps over the lazy dog",
+			);
+			const hasher = djb2.createHasher();
+
+			for (let i = 0; i < data.length; i += 5) {
+				hasher.update(data.subarray(i, i + 5));
+			}
+
+			expect(hasher.digest()).toBe(djb2.toHashSync(data));
+		});
+
+		test("should support chaining and BufferSource chunks", () => {
+			const djb2 = new DJB2();
+			const hash = djb2
+				.createHasher()
+				.update(new TextEncoder().encode("hel").buffer)
+				.update(new DataView(new TextEncoder().encode("lo").buffer))
+				.digest();
+
+			expect(hash).toBe("0f923099");
+		});
+
+		test("should return the empty input hash without updates", () => {
+			const djb2 = new DJB2();
+			expect(djb2.createHasher().digest()).toBe(
+				djb2.toHashSync(new Uint8Array(0)),
+			);
+		});
+	});
 });
@@ -0,0 +1,121 @@
+import { describe, expect, test } from "vitest";
+import { Fletcher16, Fletcher32 } from "../../src/providers/fletcher.ts";
+
+const encode = (value: string) => new TextEncoder().encode(value);
+
+describe("Fletcher16 Hash Provider", () => {
+	test("should return correct provider name", () => {
+		expect(new Fletcher16().name).toBe("fletcher16");
+	});
+
+	test.each([
+		["", "0000"],
+		["abcde", "c8f0"],
+		["abcdef", "2057"],
+		["abcdefgh", "0627"],
+	])("should hash %j to %s", async (input, expected) => {
+		const fletcher16 = new Fletcher16();
+		expect(fletcher16.toHashSync(encode(input))).toBe(expected);
+		expect(await fletcher16.toHash(encode(input))).toBe(expected);
+	});
+
+	test("should reduce the sums for data longer than a block", () => {
+		const data = new Uint8Array(10240).map((_, index) => index % 256);
+		expect(new Fletcher16().toHashSync(data)).toBe("5500");
+	});
+
+	test("should produce the same hash when fed in chunks", () => {
+		const fletcher16 = new Fletcher16();
+		const data = encode("The quick brown fox jumps over the lazy dog");
+		const hasher = fletcher16.createHasher();
+
+		for (let i = 0; i < data.length; i += 3) {
+			hasher.update(data.subarray(i, i + 3));
+		}
+
+		expect(hasher.digest()).toBe(fletcher16.toHashSync(data));
+	});
+
+	test.each([
+		0, 1, 2, 21, 43,
+	])("should combine checksums of chunks split at %i", (split) => {
+		const fletcher16 = new Fletcher16();
+		const data = encode("The quick brown fox jumps over the lazy dog");
+		const first = data.subarray(0, split);
+		const second = data.subarray(split);
+
+		expect(
+			Fletcher16.combine(
+				fletcher16.toHashSync(first),
+				fletcher16.toHashSync(second),
+				second.length,
+			),
+		).toBe(fletcher16.toHashSync(data));
+	});
+});
+
+describe("Fletcher32 Hash Provider", () => {
+	test("should return correct provider name", () => {
+		expect(new Fletcher32().name).toBe("fletcher32");
+	});
+
+	test.each([
+		["", "00000000"],
+		["a", "00610061"],
+		["abcde", "f04fc729"],
+		["abcdef", "56502d2a"],
+		["abcdefgh", "ebe19591"],
+	])("should hash %j to %s", async (input, expected) => {
+		const fletcher32 = new Fletcher32();
+		expect(fletcher32.toHashSync(encode(input))).toBe(expected);
+		expect(await fletcher32.toHash(encode(input))).toBe(expected);
+	});
+
+	test("should reduce the sums for data longer than a block", () => {
+		const data = new Uint8Array(10240).map((_, index) => index % 256);
+		expect(new Fletcher32().toHashSync(data)).toBe("3679f609");
+	});
+
+	test.each([
+		1, 2, 3, 7,
+	])("should produce the same hash when fed in chunks of %i bytes", (size) => {
+		const fletcher32 = new Fletcher32();
+		const data = encode("The quick brown fox jumps over the lazy dog");
+		const hasher = fletcher32.createHasher();
+
+		for (let i = 0; i < data.length; i += size) {
+			hasher.update(data.subarray(i, i + size));
+		}
+
+		expect(hasher.digest()).toBe(fletcher32.toHashSync(data));
+	});
+
+	test("should keep an odd byte across empty chunks", () => {
+		const fletcher32 = new Fletcher32();
+		const hash = fletcher32
+			.createHasher()
+			.update(encode("abc"))
+			.update(new Uint8Array(0))
+			.update(encode("de"))
+			.digest();
+
+		expect(hash).toBe("f04fc729");
+	});
+
+	test.each([
+		0, 2, 20, 42,
+	])("should combine checksums of chunks split at %i", (split) => {
+		const fletcher32 = new Fletcher32();
+		const data = encode("The quick brown fox jumps over the lazy dog");
+		const first = data.subarray(0, split);
+		const second = data.subarray(split);
+
+		expect(
+			Fletcher32.combine(
+				fletcher32.toHashSync(first),
+				fletcher32.toHashSync(second),
+				second.length,
+			),
+		).toBe(fletcher32.toHashSync(data));
+	});
+});
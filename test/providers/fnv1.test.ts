@@ -1,5 +1,12 @@
 import { describe, test, expect } from "vitest";
-import { FNV1 } from "../../src/providers/fnv1.ts";
+import {
+    FNV1,
+    FNV1_64,
+    FNV1_128,
+    FNV1a,
+    FNV1a_64,
+    FNV1a_128,
+} from "../../src/providers/fnv1.ts";
 import type { HashProvider } from "../../src/types.ts";
 
 describe("FNV1 Hash Provider", () => {
@@ -267,4 +274,133 @@ describe("FNV1 Hash Provider", () => {
             expect(hash).toBe("811c9dc5");
         });
     });
+
+    describe("createHasher method", () => {
+        test("should produce the same hash as toHashSync when fed in chunks", () => {
+            const fnv1 = new FNV1();
+            const data = new TextEncoder().encode(
+                "The quick brown fox jumps over the lazy dog",
+            );
+            const hasher = fnv1.createHasher();
+
+            for (let i = 0; i < data.length; i += 5) {
+                hasher.update(data.subarray(i, i + 5));
+            }
+
+            expect(hasher.digest()).toBe(fnv1.toHashSync(data));
+        });
+
+        test("should support chaining and BufferSource chunks", () => {
+            const fnv1 = new FNV1();
+            const hash = fnv1
+                .createHasher()
+                .update(new TextEncoder().encode("hel").buffer)
+                .update(new DataView(new TextEncoder().encode("lo").buffer))
+                .digest();
+
+            expect(hash).toBe("a9b7cf6f");
+        });
+
+        test("should return the empty input hash without updates", () => {
+            const fnv1 = new FNV1();
+            expect(fnv1.createHasher().digest()).toBe(
+                fnv1.toHashSync(new Uint8Array(0)),
+            );
+        });
+    });
+});
+
+describe("FNV-1a and wide FNV Hash Providers", () => {
+    // Published vectors from the FNV reference test suite (Landon Curt Noll)
+    const vectors = [
+        {
+            provider: new FNV1a(),
+            name: "fnv1a",
+            hashes: { "": "811c9dc5", a: "e40c292c", foobar: "bf9cf968" },
+        },
+        {
+            provider: new FNV1_64(),
+            name: "fnv1-64",
+            hashes: {
+                "": "cbf29ce484222325",
+                a: "af63bd4c8601b7be",
+                foobar: "340d8765a4dda9c2",
+            },
+        },
+        {
+            provider: new FNV1a_64(),
+            name: "fnv1a-64",
+            hashes: {
+                "": "cbf29ce484222325",
+                a: "af63dc4c8601ec8c",
+                foobar: "85944171f73967e8",
+            },
+        },
+        {
+            provider: new FNV1_128(),
+            name: "fnv1-128",
+            hashes: {
+                "": "6c62272e07bb014262b821756295c58d",
+                a: "d228cb69101a8caf78912b704e4a141e",
+                foobar: "7896bfea9c3c64bf6dc58353d2c293aa",
+            },
+        },
+        {
+            provider: new FNV1a_128(),
+            name: "fnv1a-128",
+            hashes: {
+                "": "6c62272e07bb014262b821756295c58d",
+                a: "d228cb696f1a8caf78912b704e4a8964",
+                foobar: "343e1662793c64bf6f0d3597ba446f18",
+            },
+        },
+    ];
+
+    describe.each(vectors)("$name", ({ provider, name, hashes }) => {
+        test("should return correct provider name", () => {
+            expect(provider.name).toBe(name);
+        });
+
+        test.each(
+            Object.entries(hashes),
+        )("should hash %j to %s", (input, expected) => {
+            expect(provider.toHashSync(new TextEncoder().encode(input))).toBe(
+                expected,
+            );
+        });
+
+        test("should produce same result as async toHash", async () => {
+            const data = new TextEncoder().encode("foobar");
+            expect(await provider.toHash(data)).toBe(provider.toHashSync(data));
+        });
+
+        test("should produce the same hash when fed in chunks", () => {
+            const data = new TextEncoder().encode(
+                "The quick brown fox jumps over the lazy dog",
+            );
+            const hasher = provider.createHasher();
+
+            for (let i = 0; i < data.length; i += 7) {
+                hasher.update(data.subarray(i, i + 7));
+            }
+
+            expect(hasher.digest()).toBe(provider.toHashSync(data));
+        });
+
+        test("should handle ArrayBuffer and DataView input", () => {
+            const data = new TextEncoder().encode("foobar");
+            expect(provider.toHashSync(data.buffer)).toBe(hashes.foobar);
+            expect(provider.toHashSync(new DataView(data.buffer))).toBe(
+                hashes.foobar,
+            );
+        });
+    });
+
+    test("should produce hashes that differ from FNV-1", () => {
+        const data = new TextEncoder().encode("hello");
+        expect(new FNV1a().toHashSync(data)).not.toBe(new FNV1().toHashSync(data));
+        expect(new FNV1a_64().toHashSync(data)).not.toBe(
+            new FNV1_64().toHashSync(data),
+        );
+    });
 });
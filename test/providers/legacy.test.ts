@@ -0,0 +1,78 @@
+import { describe, expect, test } from "vitest";
+import { MD5, RIPEMD160 } from "../../src/providers/legacy.ts";
+
+const encoder = new TextEncoder();
+// Byte i is i % 251, long enough to span several blocks
+const message = (length: number) =>
+	Uint8Array.from({ length }, (_, index) => index % 251);
+
+describe("Legacy Hash Providers", () => {
+	describe("metadata", () => {
+		test("should be named and flagged as not secure", () => {
+			expect(new MD5().name).toBe("md5");
+			expect(new MD5().secure).toBe(false);
+			expect(new RIPEMD160().name).toBe("ripemd160");
+			expect(new RIPEMD160().secure).toBe(false);
+			expect(new MD5().blockSize).toBe(64);
+			expect(new RIPEMD160().blockSize).toBe(64);
+		});
+	});
+
+	describe("MD5", () => {
+		test.each([
+			["", "d41d8cd98f00b204e9800998ecf8427e"],
+			["a", "0cc175b9c0f1b6a831c399e269772661"],
+			["abc", "900150983cd24fb0d6963f7d28e17f72"],
+			["message digest", "f96b697d7cb7938d525a2f31aaf161d0"],
+			// 56 bytes, so the length no longer fits in the last block
+			[
+				"abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq",
+				"8215ef0796a20bcaaae116d3876c664a",
+			],
+			[
+				"12345678901234567890123456789012345678901234567890123456789012345678901234567890",
+				"57edf4a22be3c955ac49da2e2107b67a",
+			],
+		])("should match the reference vector for %j", async (input, hash) => {
+			expect(new MD5().toHashSync(encoder.encode(input))).toBe(hash);
+			expect(await new MD5().toHash(encoder.encode(input))).toBe(hash);
+		});
+	});
+
+	describe("RIPEMD160", () => {
+		test.each([
+			["", "9c1185a5c5e9fc54612808977ee8f548b2258d31"],
+			["a", "0bdc9d2d256b3ee9daae347be6f4dc835a467ffe"],
+			["abc", "8eb208f7e05d987a9b044a8e98c6b087f15a0bfc"],
+			["message digest", "5d0689ef49d2fae572b881b123a85ffa21595f36"],
+			[
+				"abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq",
+				"12a053384a9c0c88e405a06c27dcf49ada62eb2b",
+			],
+			[
+				"12345678901234567890123456789012345678901234567890123456789012345678901234567890",
+				"9b752e45573d4b39f4dbd3323cab82bf63326bfb",
+			],
+		])("should match the reference vector for %j", async (input, hash) => {
+			expect(new RIPEMD160().toHashSync(encoder.encode(input))).toBe(hash);
+			expect(await new RIPEMD160().toHash(encoder.encode(input))).toBe(hash);
+		});
+	});
+
+	describe("createHasher", () => {
+		test("should give the same digest for any chunking", () => {
+			const data = message(1000);
+			for (const provider of [new MD5(), new RIPEMD160()]) {
+				const expected = provider.toHashSync(data);
+				for (const size of [1, 55, 56, 63, 64, 65]) {
+					const hasher = provider.createHasher();
+					for (let offset = 0; offset < data.length; offset += size) {
+						hasher.update(data.subarray(offset, offset + size));
+					}
+
+					expect(hasher.digest()).toBe(expected);
+				}
+			}
+		});
+	});
+});
@@ -1,5 +1,5 @@
 import { describe, test, expect } from "vitest";
-import { Murmur } from "../../src/providers/murmur.ts";
+import { Murmur, Murmur128, Murmur128x86 } from "../../src/providers/murmur.ts";
 import type { HashProvider } from "../../src/types.ts";
 
 describe("Murmur Hash Provider", () => {
@@ -355,4 +355,121 @@ describe("Murmur Hash Provider", () => {
 			});
 		});
 	});
+
+	describe("createHasher method", () => {
+		test("should produce the same hash as toHashSync when fed in chunks", () => {
+			const murmur = new Murmur();
+			const data = new TextEncoder().encode(
+				"The quick brown fox jumps over the lazy dog",
+			);
+			const hasher = murmur.createHasher();
+
+			for (let i = 0; i < data.length; i += 5) {
+				hasher.update(data.subarray(i, i + 5));
+			}
+
+			expect(hasher.digest()).toBe(murmur.toHashSync(data));
+		});
+
+		test("should support chaining and BufferSource chunks", () => {
+			const murmur = new Murmur();
+			const hash = murmur
+				.createHasher()
+				.update(new TextEncoder().encode("hel").buffer)
+				.update(new DataView(new TextEncoder().encode("lo").buffer))
+				.digest();
+
+			expect(hash).toBe("248bfa47");
+		});
+
+		test("should return the empty input hash without updates", () => {
+			const murmur = new Murmur();
+			expect(murmur.createHasher().digest()).toBe(
+				murmur.toHashSync(new Uint8Array(0)),
+			);
+		});
+		test("should use the seed and buffer partial blocks across chunks", () => {
+			const murmur = new Murmur(1);
+			const data = new TextEncoder().encode("hello world!");
+			const hasher = murmur.createHasher();
+
+			// Chunk sizes that split the 4-byte blocks at every offset
+			hasher.update(data.subarray(0, 1));
+			hasher.update(data.subarray(1, 3));
+			hasher.update(data.subarray(3, 8));
+			hasher.update(data.subarray(8));
+
+			expect(hasher.digest()).toBe(murmur.toHashSync(data));
+			expect(hasher.digest()).not.toBe(new Murmur().toHashSync(data));
+		});
+	});
+});
+
+describe("Murmur128 Hash Provider", () => {
+	const fox = new TextEncoder().encode(
+		"The quick brown fox jumps over the lazy dog",
+	);
+
+	test("should have name and seed", () => {
+		expect(new Murmur128().name).toBe("murmur128");
+		expect(new Murmur128().seed).toBe(0);
+		expect(new Murmur128(-1).seed).toBe(0xffffffff);
+	});
+
+	test("should match the reference MurmurHash3_x64_128 digests", async () => {
+		const murmur = new Murmur128();
+		expect(murmur.toHashSync(fox)).toBe("e34bbc7bbc071b6c7a433ca9c49a9347");
+		expect(await murmur.toHash(new Uint8Array(0))).toBe(
+			"00000000000000000000000000000000",
+		);
+		expect(new Murmur128(42).toHashSync(new TextEncoder().encode("hello"))).toBe(
+			"c4b8b3c960af6f082334b875b0efbc7a",
+		);
+	});
+
+	test("should handle every tail length", () => {
+		const murmur = new Murmur128();
+		const hashes = new Set<string>();
+		for (let length = 0; length <= 32; length++) {
+			const hash = murmur.toHashSync(fox.subarray(0, length));
+			expect(hash).toMatch(/^[0-9a-f]{32}$/);
+			hashes.add(hash);
+		}
+
+		expect(hashes.size).toBe(33);
+	});
+});
+
+describe("Murmur128x86 Hash Provider", () => {
+	const fox = new TextEncoder().encode(
+		"The quick brown fox jumps over the lazy dog",
+	);
+
+	test("should have name and seed", () => {
+		expect(new Murmur128x86().name).toBe("murmur128x86");
+		expect(new Murmur128x86(7).seed).toBe(7);
+	});
+
+	test("should match the reference MurmurHash3_x86_128 digests", async () => {
+		const murmur = new Murmur128x86();
+		expect(murmur.toHashSync(fox)).toBe("2f1583c3ecee2c675d7bf66ce5e91d2c");
+		expect(await murmur.toHash(new Uint8Array(0))).toBe(
+			"00000000000000000000000000000000",
+		);
+		expect(
+			new Murmur128x86(42).toHashSync(new TextEncoder().encode("hello")),
+		).toBe("9c4f9a01053404f6886f9b95886f9b95");
+	});
+
+	test("should handle every tail length", () => {
+		const murmur = new Murmur128x86();
+		const hashes = new Set<string>();
+		for (let length = 0; length <= 32; length++) {
+			const hash = murmur.toHashSync(fox.subarray(0, length));
+			expect(hash).toMatch(/^[0-9a-f]{32}$/);
+			hashes.add(hash);
+		}
+
+		expect(hashes.size).toBe(33);
+	});
 });
@@ -0,0 +1,164 @@
+import { describe, expect, test } from "vitest";
+import { createSha2Hasher, SHA2 } from "../../src/providers/sha2.js";
+
+const encoder = new TextEncoder();
+
+// FIPS 180-2 example messages
+const oneBlock = "abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq";
+const twoBlock =
+	"abcdefghbcdefghicdefghijdefghijkefghijklfghijklmghijklmnhijklmnoijklmnopjklmnopqklmnopqrlmnopqrsmnopqrstnopqrstu";
+
+describe("createSha2Hasher", () => {
+	test.each([
+		["SHA-1", "", "da39a3ee5e6b4b0d3255bfef95601890afd80709"],
+		["SHA-1", "abc", "a9993e364706816aba3e25717850c26c9cd0d89d"],
+		["SHA-1", oneBlock, "84983e441c3bd26ebaae4aa1f95129e5e54670f1"],
+		["SHA-224", "", "d14a028c2a3a2bc9476102bb288234c415a2b01f828ea62ac5b3e42f"],
+		[
+			"SHA-224",
+			"abc",
+			"23097d223405d8228642a477bda255b32aadbce4bda0b3f7e36c9da7",
+		],
+		[
+			"SHA-224",
+			oneBlock,
+			"75388b16512776cc5dba5da1fd890150b0c6455cb4f58b1952522525",
+		],
+		[
+			"SHA-256",
+			"",
+			"e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855",
+		],
+		[
+			"SHA-256",
+			"abc",
+			"ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+		],
+		[
+			"SHA-256",
+			oneBlock,
+			"248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1",
+		],
+		[
+			"SHA-384",
+			"",
+			"38b060a751ac96384cd9327eb1b1e36a21fdb71114be07434c0cc7bf63f6e1da274edebfe76f65fbd51ad2f14898b95b",
+		],
+		[
+			"SHA-384",
+			"abc",
+			"cb00753f45a35e8bb5a03d699ac65007272c32ab0eded1631a8b605a43ff5bed8086072ba1e7cc2358baeca134c825a7",
+		],
+		[
+			"SHA-384",
+			twoBlock,
+			"09330c33f71147e83d192fc782cd1b4753111b173b3b05d22fa08086e3b0f712fcc7c71a557e2db966c3e9fa91746039",
+		],
+		[
+			"SHA-512",
+			"",
+			"cf83e1357eefb8bdf1542850d66d8007d620e4050b5715dc83f4a921d36ce9ce47d0d13c5d85f2b0ff8318d2877eec2f63b931bd47417a81a538327af927da3e",
+		],
+		[
+			"SHA-512",
+			"abc",
+			"ddaf35a193617abacc417349ae20413112e6fa4e89a97ea20a9eeee64b55d39a2192992a274fc1a836ba3c23a3feebbd454d4423643ce80e2a9ac94fa54ca49f",
+		],
+		[
+			"SHA-512",
+			twoBlock,
+			"8e959b75dae313da8cf4f72814fc143f8f7779c6eb9f7fa17299aeadb6889018501d289e4900f7e4331b99dec4b5433ac7d329eeb6dd26545e96e55b874be909",
+		],
+		[
+			"SHA-512/224",
+			"abc",
+			"4634270f707b6a54daae7530460842e20e37ed265ceee9a43e8924aa",
+		],
+		[
+			"SHA-512/224",
+			twoBlock,
+			"23fec5bb94d60b23308192640b0c453335d664734fe40e7268674af9",
+		],
+		[
+			"SHA-512/256",
+			"abc",
+			"53048e2681941ef99b2e29b76b4c7dabe4c2d0c634fc6d46e0e2f13107e7af23",
+		],
+		[
+			"SHA-512/256",
+			twoBlock,
+			"3928e184fb8690f840da3988121d31be65cb9d3ef83ee6146feac861e19b563a",
+		],
+	] as const)("%s of %j", (algorithm, message, expected) => {
+		const hash = createSha2Hasher(algorithm)
+			.update(encoder.encode(message))
+			.digest();
+		expect(hash).toBe(expected);
+	});
+
+	test("should hash one million 'a' fed in uneven chunks", () => {
+		const hasher = createSha2Hasher("SHA-256");
+		const chunk = encoder.encode("a".repeat(999));
+		let remaining = 1_000_000;
+		while (remaining > 0) {
+			const size = Math.min(chunk.length, remaining);
+			hasher.update(chunk.subarray(0, size));
+			remaining -= size;
+		}
+
+		expect(hasher.digest()).toBe(
+			"cdc76e5c9914fb9281a1c7e284d73e67f1809a48a497200e046d39ccc7112cd0",
+		);
+	});
+
+	test.each(["SHA-1", "SHA-256", "SHA-384", "SHA-512"] as const)(
+		"%s should match crypto.subtle.digest around block boundaries",
+		async (algorithm) => {
+			for (const length of [55, 56, 63, 64, 65, 111, 112, 127, 128, 129]) {
+				const data = new Uint8Array(length).map((_, index) => index * 7);
+				const expected = new Uint8Array(
+					await crypto.subtle.digest(algorithm, data),
+				);
+				const hex = Array.from(expected, (byte) =>
+					byte.toString(16).padStart(2, "0"),
+				).join("");
+
+				const hasher = createSha2Hasher(algorithm);
+				hasher.update(data.subarray(0, 3)).update(data.subarray(3));
+				expect(hasher.digest()).toBe(hex);
+			}
+		},
+	);
+});
+
+describe("SHA2", () => {
+	test("should default to SHA-256", () => {
+		const sha2 = new SHA2();
+		expect(sha2.name).toBe("SHA-256");
+		expect(sha2.blockSize).toBe(64);
+		expect(new SHA2({ algorithm: "SHA-224" }).blockSize).toBe(64);
+		expect(new SHA2({ algorithm: "SHA-512/256" }).blockSize).toBe(128);
+		expect(sha2.toHashSync(encoder.encode("abc"))).toBe(
+			"ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+		);
+	});
+
+	test("should use the algorithm as name and hash sync and async", async () => {
+		const sha2 = new SHA2({ algorithm: "SHA-512/256" });
+		expect(sha2.name).toBe("SHA-512/256");
+		expect(await sha2.toHash(encoder.encode(""))).toBe(
+			"c672b8d1ef56ed28ab87c3622c5114069bdd3ad7b8f9737498d0c01ecef0967a",
+		);
+		expect(
+			new SHA2({ algorithm: "SHA-512/224" }).toHashSync(encoder.encode("")),
+		).toBe("6ed0dd02806fa89e25de060c19d3ac86cabb87d6a0ddd05c333b84f4");
+	});
+
+	test("should hash incrementally", () => {
+		const hasher = new SHA2({ algorithm: "SHA-224" }).createHasher();
+		hasher.update(encoder.encode("ab")).update(encoder.encode("c"));
+		expect(hasher.digest()).toBe(
+			"23097d223405d8228642a477bda255b32aadbce4bda0b3f7e36c9da7",
+		);
+	});
+});
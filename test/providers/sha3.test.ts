@@ -0,0 +1,126 @@
+import { describe, expect, test } from "vitest";
+import {
+	SHA3,
+	type SHA3Algorithm,
+	SHAKE,
+	SHAKE128,
+	SHAKE256,
+} from "../../src/providers/sha3.ts";
+
+const encoder = new TextEncoder();
+// Longer than the largest rate (168 bytes), so it spans two blocks
+const long = new Uint8Array(200).fill(0xa3);
+
+describe("SHA-3 Hash Providers", () => {
+	describe("SHA3", () => {
+		test("should default to SHA3-256", () => {
+			expect(new SHA3().name).toBe("SHA3-256");
+			expect(new SHA3({ algorithm: "Keccak-256" }).name).toBe("Keccak-256");
+		});
+
+		test("should use the rate as block size", () => {
+			expect(new SHA3({ algorithm: "SHA3-224" }).blockSize).toBe(144);
+			expect(new SHA3().blockSize).toBe(136);
+			expect(new SHA3({ algorithm: "SHA3-512" }).blockSize).toBe(72);
+			expect(new SHA3({ algorithm: "Keccak-256" }).blockSize).toBe(136);
+		});
+
+		test.each<[SHA3Algorithm, string, string, string]>([
+			[
+				"SHA3-224",
+				"6b4e03423667dbb73b6e15454f0eb1abd4597f9a1b078e3f5b5a6bc7",
+				"e642824c3f8cf24ad09234ee7d3c766fc9a3a5168d0c94ad73b46fdf",
+				"9376816aba503f72f96ce7eb65ac095deee3be4bf9bbc2a1cb7e11e0",
+			],
+			[
+				"SHA3-256",
+				"a7ffc6f8bf1ed76651c14756a061d662f580ff4de43b49fa82d80a4b80f8434a",
+				"3a985da74fe225b2045c172d6bd390bd855f086e3e9d525b46bfe24511431532",
+				"79f38adec5c20307a98ef76e8324afbfd46cfd81b22e3973c65fa1bd9de31787",
+			],
+			[
+				"SHA3-384",
+				"0c63a75b845e4f7d01107d852e4c2485c51a50aaaa94fc61995e71bbee983a2ac3713831264adb47fb6bd1e058d5f004",
+				"ec01498288516fc926459f58e2c6ad8df9b473cb0fc08c2596da7cf0e49be4b298d88cea927ac7f539f1edf228376d25",
+				"1881de2ca7e41ef95dc4732b8f5f002b189cc1e42b74168ed1732649ce1dbcdd76197a31fd55ee989f2d7050dd473e8f",
+			],
+			[
+				"SHA3-512",
+				"a69f73cca23a9ac5c8b567dc185a756e97c982164fe25859e0d1dcc1475c80a615b2123af1f5f94c11e3e9402c3ac558f500199d95b6d3e301758586281dcd26",
+				"b751850b1a57168a5693cd924b6b096e08f621827444f70d884f5d0240d2712e10e116e9192af3c91a7ec57647e3934057340b4cf408d5a56592f8274eec53f0",
+				"e76dfad22084a8b1467fcf2ffa58361bec7628edf5f3fdc0e4805dc48caeeca81b7c13c30adf52a3659584739a2df46be589c51ca1a4a8416df6545a1ce8ba00",
+			],
+			[
+				"Keccak-256",
+				"c5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470",
+				"4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45",
+				"3a57666b048777f2c953dc4456f45a2588e1cb6f2da760122d530ac2ce607d4a",
+			],
+		])("should match the %s vectors", async (algorithm, empty, abc, twoBlocks) => {
+			const sha3 = new SHA3({ algorithm });
+			expect(sha3.toHashSync(new Uint8Array())).toBe(empty);
+			expect(sha3.toHashSync(encoder.encode("abc"))).toBe(abc);
+			expect(await sha3.toHash(encoder.encode("abc"))).toBe(abc);
+			expect(sha3.toHashSync(long)).toBe(twoBlocks);
+		});
+
+		test("should give the same digest for any chunking", () => {
+			const sha3 = new SHA3();
+			for (const size of [1, 7, 136, 137]) {
+				const hasher = sha3.createHasher();
+				for (let offset = 0; offset < long.length; offset += size) {
+					hasher.update(long.subarray(offset, offset + size));
+				}
+
+				expect(hasher.digest()).toBe(sha3.toHashSync(long));
+			}
+		});
+	});
+
+	describe("SHAKE", () => {
+		test("should name the providers after the security level and output size", () => {
+			expect(new SHAKE128().name).toBe("SHAKE128");
+			expect(new SHAKE128(16).name).toBe("SHAKE128-128");
+			expect(new SHAKE256().name).toBe("SHAKE256");
+			expect(new SHAKE256().outputLength).toBe(64);
+			expect(new SHAKE().name).toBe("SHAKE256");
+			expect(new SHAKE({ securityLevel: 128 }).outputLength).toBe(32);
+			expect(new SHAKE128().blockSize).toBe(168);
+			expect(new SHAKE256().blockSize).toBe(136);
+		});
+
+		test("should match the SHAKE128 vectors", async () => {
+			expect(new SHAKE128().toHashSync(new Uint8Array())).toBe(
+				"7f9c2ba4e88f827d616045507605853ed73b8093f6efbc88eb1a6eacfa66ef26",
+			);
+			expect(await new SHAKE128().toHash(encoder.encode("abc"))).toBe(
+				"5881092dd818bf5cf8a3ddb793fbcba74097d5c526a6d35f97b83351940f2cc8",
+			);
+		});
+
+		test("should squeeze output longer than the rate", () => {
+			const output = new SHAKE128(200).toHashSync(encoder.encode("abc"));
+			expect(output).toBe(
+				"5881092dd818bf5cf8a3ddb793fbcba74097d5c526a6d35f97b83351940f2cc844c50af32acd3f2cdd066568706f509bc1bdde58295dae3f891a9a0fca5783789a41f8611214ce612394df286a62d1a2252aa94db9c538956c717dc2bed4f232a0294c857c730aa16067ac1062f1201fb0d377cfb9cde4c63599b27f3462bba4a0ed296c801f9ff7f57302bb3076ee145f97a32ae68e76ab66c48d51675bd49acc29082f5647584e6aa01b3f5af057805f973ff8ecb8b226ac32ada6f01c1fcd4818cb006aa5b4cd",
+			);
+		});
+
+		test("should match the SHAKE256 vectors", () => {
+			expect(new SHAKE256().toHashSync(new Uint8Array())).toBe(
+				"46b9dd2b0ba88d13233b3feb743eeb243fcd52ea62b81b82b50c27646ed5762fd75dc4ddd8c0f200cb05019d67b592f6fc821c49479ab48640292eacb3b7c4be",
+			);
+			expect(new SHAKE256().toHashSync(encoder.encode("abc"))).toBe(
+				"483366601360a8771c6863080cc4114d8db44530f8f1e1ee4f94ea37e78b5739d5a15bef186a5386c75744c0527e1faa9f8726e462a12a4feb06bd8801e751e4",
+			);
+			expect(new SHAKE256(16).toHashSync(encoder.encode("abc"))).toBe(
+				"483366601360a8771c6863080cc4114d",
+			);
+		});
+
+		test("should reject invalid output lengths", () => {
+			expect(() => new SHAKE128(0)).toThrow(
+				"SHAKE output length must be a positive integer, got 0",
+			);
+		});
+	});
+});
@@ -0,0 +1,118 @@
+import { describe, expect, test } from "vitest";
+import { SipHash, SipHash13, SipHash24 } from "../../src/providers/siphash.ts";
+
+// Key and messages of the reference test vectors: key = 00..0f, message = 00..(n-1)
+const key = Uint8Array.from({ length: 16 }, (_, index) => index);
+const message = (length: number) =>
+	Uint8Array.from({ length }, (_, index) => index);
+
+describe("SipHash Hash Provider", () => {
+	describe("name property", () => {
+		test("should include the rounds and output size", () => {
+			expect(new SipHash24().name).toBe("siphash24");
+			expect(new SipHash24(key, 128).name).toBe("siphash24-128");
+			expect(new SipHash13().name).toBe("siphash13");
+			expect(new SipHash13(key, 128).name).toBe("siphash13-128");
+			expect(
+				new SipHash(key, { compressionRounds: 4, finalizationRounds: 8 }).name,
+			).toBe("siphash48");
+		});
+	});
+
+	describe("SipHash-2-4 reference vectors", () => {
+		test.each([
+			[0, "310e0edd47db6f72", "a3817f04ba25a8e66df67214c7550293"],
+			[1, "fd67dc93c539f874", "da87c1d86b99af44347659119b22fc45"],
+			[7, "37d1018bf50002ab", "a1f1ebbed8dbc153c0b84aa61ff08239"],
+			[8, "6224939a79f5f593", "3b62a9ba6258f5610f83e264f31497b4"],
+			[15, "e545be4961ca29a1", "5493e99933b0a8117e08ec0f97cfc3d9"],
+			[63, "724506eb4c328a95", "5150d1772f50834a503e069a973fbd7c"],
+		])("should hash %i bytes", async (length, hash64, hash128) => {
+			expect(new SipHash24(key).toHashSync(message(length))).toBe(hash64);
+			expect(new SipHash24(key, 128).toHashSync(message(length))).toBe(hash128);
+			expect(await new SipHash24(key).toHash(message(length))).toBe(hash64);
+		});
+	});
+
+	describe("SipHash-1-3 vectors", () => {
+		test.each([
+			[0, "dcc40f055801acab", "e77ebcb22788a5befd62db6add303001"],
+			[1, "93ca577df39bf4c9", "fc6f370460d3eda85e0573cc2b2ff063"],
+			[8, "8e9a298d11959036", "aa12fee1d5e3dab4724f16ab35f9c799"],
+			[63, "a8b3bbb76290199d", "4c5800e34efe426f079f6b0aa75260ad"],
+		])("should hash %i bytes", (length, hash64, hash128) => {
+			expect(new SipHash13(key).toHashSync(message(length))).toBe(hash64);
+			expect(new SipHash13(key, 128).toHashSync(message(length))).toBe(hash128);
+		});
+	});
+
+	describe("key", () => {
+		test("should default to 16 zero bytes", () => {
+			const siphash = new SipHash24();
+			expect(siphash.key).toEqual(new Uint8Array(16));
+			expect(siphash.toHashSync(new TextEncoder().encode("hello"))).toBe(
+				"b952f7b25d5dc18c",
+			);
+		});
+
+		test("should accept an ArrayBuffer and copy the key", () => {
+			const source = key.slice();
+			const siphash = new SipHash24(source.buffer);
+			source.fill(0);
+
+			expect(siphash.key).toEqual(key);
+			expect(siphash.toHashSync(message(0))).toBe("310e0edd47db6f72");
+		});
+
+		test("should return a copy of the key", () => {
+			const siphash = new SipHash24(key);
+			siphash.key.fill(0);
+			expect(siphash.key).toEqual(key);
+		});
+
+		test("should throw for keys that are not 16 bytes", () => {
+			expect(() => new SipHash24(new Uint8Array(8))).toThrow(
+				"SipHash key must be 16 bytes, got 8",
+			);
+		});
+
+		test("should produce different hashes for different keys", () => {
+			const data = new TextEncoder().encode("hello");
+			expect(new SipHash24(SipHash.generateKey()).toHashSync(data)).not.toBe(
+				new SipHash24().toHashSync(data),
+			);
+		});
+
+		test("should generate random 16-byte keys", () => {
+			const key1 = SipHash.generateKey();
+			const key2 = SipHash24.generateKey();
+
+			expect(key1).toHaveLength(16);
+			expect(key1).not.toEqual(key2);
+		});
+	});
+
+	describe("outputBits property", () => {
+		test("should default to 64 bits", () => {
+			expect(new SipHash24().outputBits).toBe(64);
+			expect(new SipHash(key, { outputBits: 128 }).outputBits).toBe(128);
+		});
+	});
+
+	describe("createHasher method", () => {
+		test.each([
+			1, 3, 8, 9,
+		])("should produce the same hash when fed in chunks of %i bytes", (size) => {
+			const data = message(63);
+
+			for (const siphash of [new SipHash24(key), new SipHash13(key, 128)]) {
+				const hasher = siphash.createHasher();
+				for (let i = 0; i < data.length; i += size) {
+					hasher.update(data.subarray(i, i + size));
+				}
+
+				expect(hasher.digest()).toBe(siphash.toHashSync(data));
+			}
+		});
+	});
+});
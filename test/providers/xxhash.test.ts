@@ -0,0 +1,330 @@
+import { describe, expect, test } from "vitest";
+import { XXH3, XXH32, XXH64, XXH128 } from "../../src/providers/xxhash.js";
+import type { HashProvider } from "../../src/types.js";
+
+// Reference digests from the xxHash C implementation for bytes (i * 31 + 7) & 0xff,
+// as [length, XXH32, XXH64, XXH3_64bits, XXH3_128bits]
+const unseeded: Array<[number, string, string, string, string]> = [
+	[
+		0,
+		"02cc5d05",
+		"ef46db3751d8e999",
+		"2d06800538d394c2",
+		"99aa06d3014798d86001c324468d497f",
+	],
+	[
+		1,
+		"002e0d32",
+		"a96c7f0ce858bbb7",
+		"4c5cca45d0f4811f",
+		"495b62073ef70ca44c5cca45d0f4811f",
+	],
+	[
+		3,
+		"aca17380",
+		"56e6957632a487f9",
+		"15f7093b173d005c",
+		"46f66cb93538156515f7093b173d005c",
+	],
+	[
+		4,
+		"073faa82",
+		"c60d15b1e3ff8f04",
+		"dca012f95811b6b9",
+		"7fefeeffb4d0eab3b987ca5d9241572a",
+	],
+	[
+		8,
+		"b9893c6c",
+		"3da5c7aa269683e0",
+		"dec6a9a43575982e",
+		"803c675a846cc6c256bb836ceb6d4baa",
+	],
+	[
+		9,
+		"ef682a43",
+		"4b17a9ba9e215c09",
+		"cbe393399f17ffbd",
+		"d46556872d230f224376673580310154",
+	],
+	[
+		16,
+		"3f6c9665",
+		"a19ad429b02bc413",
+		"7e484c18d74895d0",
+		"650fe308c566747df853dd94614dfa07",
+	],
+	[
+		17,
+		"e048ecdb",
+		"fe9f0feb7eeedc09",
+		"208bde5ee2bed407",
+		"18217300b5132d5a78c349fe81b2f26c",
+	],
+	[
+		33,
+		"770b5126",
+		"62c9fd21ed857664",
+		"199a362122d71f46",
+		"91a4c56ad1b91d883b25275300c8b44e",
+	],
+	[
+		65,
+		"832b0571",
+		"f3980c34bae65dc1",
+		"fab36b851b94ce20",
+		"5642c5d38e6e787dd0d1d7884590a330",
+	],
+	[
+		100,
+		"75936eb8",
+		"efa0ad2d3e70c151",
+		"8c97158042fbf926",
+		"7f5a1f03462e52b4d61d8dbff22d515f",
+	],
+	[
+		128,
+		"0bf98264",
+		"725a5b9b3bedfe94",
+		"f92b70eaa21a6288",
+		"b4f87b99d2db8a511e04fad9f0cacb4d",
+	],
+	[
+		129,
+		"f2d10021",
+		"28fc8362643627d7",
+		"f8f76713f2bb60fa",
+		"6881633650cd8924c51bc887976aef63",
+	],
+	[
+		200,
+		"bf02ae18",
+		"95d9a0c977b4b6fb",
+		"12fdb864685f344d",
+		"8d8629a1aef9ef9060ea018811f9a437",
+	],
+	[
+		240,
+		"6be3ca8b",
+		"d430520ae3ed2fc6",
+		"ccc7375172c41f03",
+		"de57aab31e77a2ff93e173833f75ab66",
+	],
+	[
+		241,
+		"8c1402a0",
+		"d3f50496d5bf27e0",
+		"0b3b630948ce4a00",
+		"92b991a7192f3f080b3b630948ce4a00",
+	],
+	[
+		1500,
+		"38b9b4c4",
+		"8c84b1882e70b3e7",
+		"486b334c5917c521",
+		"9521dd6c24bb71d0486b334c5917c521",
+	],
+];
+
+const seeded: Array<[number, string, string, string, string]> = [
+	[
+		0,
+		"36b78ae7",
+		"ac75fda2929b17ef",
+		"f702ca3814de2125",
+		"92220ae55e14ab505444f7869c671ab0",
+	],
+	[
+		1,
+		"d40fe509",
+		"84e535b36672440d",
+		"98b2647a1f47f3a7",
+		"ac8a8c4be948669098b2647a1f47f3a7",
+	],
+	[
+		3,
+		"ed8936d0",
+		"d095a9239060f0a3",
+		"1067f4429b2f3d02",
+		"dac0314b2c28e3a61067f4429b2f3d02",
+	],
+	[
+		4,
+		"893f71b0",
+		"d4e4b946fb0bfbb4",
+		"dc5e8ef70a23c40f",
+		"38f9020dadce087708a77b61d182ce0c",
+	],
+	[
+		8,
+		"9b088ffc",
+		"3748218f9083d1c1",
+		"b8216561470c0259",
+		"02ae3be322b9fe9acfb2e966241be071",
+	],
+	[
+		9,
+		"19bd78f4",
+		"6b8304f6e0246c53",
+		"273c21082341b742",
+		"ee5cab843e25a659c8654639ac4541f9",
+	],
+	[
+		16,
+		"17393d4a",
+		"06f2d4c8d982f096",
+		"53f5a2500d18b902",
+		"2eae69d620ab7ca0b24ccfbe9afef3c3",
+	],
+	[
+		17,
+		"5981b004",
+		"ade2a507106baee8",
+		"1bc0cf86eda33cb3",
+		"33ca22187d86eae0381dfd5ebd1704f0",
+	],
+	[
+		33,
+		"1e57dd16",
+		"5a653650552f822c",
+		"e55f45b310c83ee5",
+		"400dd37c1ef7d63d823d557ed3749228",
+	],
+	[
+		65,
+		"5ae16657",
+		"31a55de20688e18d",
+		"45a110805f577279",
+		"a95fcacf15a7dba567219b7fffa4dcc5",
+	],
+	[
+		100,
+		"81d373f5",
+		"4ac13414471c7284",
+		"dd6c778afe2adc91",
+		"2ecccd37ea4d3a511a0d8a7c10ab15b5",
+	],
+	[
+		128,
+		"bd31d8b1",
+		"ecce3e01f99b5f1e",
+		"0868f56a3a848bc0",
+		"d6d651d28aeba00596bfa16bd9f1b80a",
+	],
+	[
+		129,
+		"a7e5d7d8",
+		"0b917cd2c3a674df",
+		"cefc4bea073d6e00",
+		"9d37b91d242458d137e0fead85a8fa28",
+	],
+	[
+		200,
+		"69a83343",
+		"8275004b28979cfe",
+		"6b63ae819e1e4ec9",
+		"f93e9f13c87a81de139ea24fb3918713",
+	],
+	[
+		240,
+		"24cf7e24",
+		"63d1e48bfea978e4",
+		"4725f6766083d823",
+		"f7c038a89d758c40e29a8df146d50a93",
+	],
+	[
+		241,
+		"1fb77e92",
+		"d53f911046f96aeb",
+		"1a1438b40914acb6",
+		"1eab24fc6a0e2be31a1438b40914acb6",
+	],
+	[
+		1500,
+		"697f62f6",
+		"b4ccf504f6e51882",
+		"6e8e696739acd347",
+		"1c1fb99d4125b9156e8e696739acd347",
+	],
+];
+
+function sample(length: number): Uint8Array {
+	return new Uint8Array(length).map((_, index) => (index * 31 + 7) & 0xff);
+}
+
+describe("xxHash Providers", () => {
+	describe("names", () => {
+		test("should expose the registered provider names", () => {
+			expect(new XXH32().name).toBe("xxhash32");
+			expect(new XXH64().name).toBe("xxhash64");
+			expect(new XXH3().name).toBe("xxh3");
+			expect(new XXH128().name).toBe("xxh3-128");
+		});
+
+		test("should implement HashProvider interface", () => {
+			const providers: Array<HashProvider> = [
+				new XXH32(),
+				new XXH64(),
+				new XXH3(),
+				new XXH128(),
+			];
+			for (const provider of providers) {
+				expect(typeof provider.toHash).toBe("function");
+				expect(typeof provider.toHashSync).toBe("function");
+			}
+		});
+	});
+
+	describe("seed property", () => {
+		test("should default to 0", () => {
+			expect(new XXH32().seed).toBe(0);
+			expect(new XXH64().seed).toBe(0n);
+			expect(new XXH3().seed).toBe(0n);
+			expect(new XXH128().seed).toBe(0n);
+		});
+
+		test("should normalize seeds to unsigned integers", () => {
+			expect(new XXH32(-1).seed).toBe(0xffffffff);
+			expect(new XXH64(-1n).seed).toBe(0xffffffffffffffffn);
+			expect(new XXH3(42).seed).toBe(42n);
+		});
+	});
+
+	describe.each([
+		["unseeded", 0, unseeded],
+		["seeded", 0x9e3779b1, seeded],
+	] as const)("%s reference vectors", (_label, seed, vectors) => {
+		test.each(
+			vectors,
+		)("length %i", async (length, expected32, expected64, expected3, expected128) => {
+			const data = sample(length);
+			expect(new XXH32(seed).toHashSync(data)).toBe(expected32);
+			expect(new XXH64(seed).toHashSync(data)).toBe(expected64);
+			expect(new XXH3(seed).toHashSync(data)).toBe(expected3);
+			expect(await new XXH128(seed).toHash(data)).toBe(expected128);
+		});
+	});
+
+	test("should accept 64-bit BigInt seeds", () => {
+		const seed = 0x0123456789abcdefn;
+		const hello = new TextEncoder().encode("hello");
+
+		expect(new XXH64(seed).toHashSync(hello)).toBe("59bb211c8b41ba57");
+		expect(new XXH3(seed).toHashSync(hello)).toBe("8e25786e203e5d15");
+		expect(new XXH128(seed).toHashSync(new Uint8Array(300).fill(1))).toBe(
+			"36d81fab1438a4c8aa9af7758c0c1c52",
+		);
+	});
+
+	test("should produce the same hash for every async variant", async () => {
+		const data = new TextEncoder().encode("hello").buffer;
+		for (const provider of [
+			new XXH32(),
+			new XXH64(),
+			new XXH3(),
+			new XXH128(),
+		]) {
+			expect(await provider.toHash(data)).toBe(provider.toHashSync(data));
+		}
+	});
+});
@@ -0,0 +1,33 @@
+import { describe, expect, test } from "vitest";
+import { canonicalStringify } from "../src/serializers/canonical.js";
+import { canonicalize } from "../src/serializers/jcs.js";
+import { typedStringify } from "../src/serializers/typed.js";
+import { getSerializer } from "../src/serializers.js";
+import type { SerializationMode } from "../src/types.js";
+
+describe("getSerializer", () => {
+	test("should return JSON.stringify for json mode", () => {
+		expect(getSerializer("json")).toBe(JSON.stringify);
+	});
+
+	test("should return canonicalStringify for canonical mode", () => {
+		expect(getSerializer("canonical")).toBe(canonicalStringify);
+	});
+
+	test("should return canonicalize for jcs mode", () => {
+		expect(getSerializer("jcs")).toBe(canonicalize);
+	});
+
+	test("should return typedStringify for typed mode", () => {
+		expect(getSerializer("typed")).toBe(typedStringify);
+	});
+
+	test("should throw for an unknown mode", () => {
+		expect(() => getSerializer("unknown" as SerializationMode)).toThrow(
+			"Unknown serialization mode 'unknown'",
+		);
+		expect(() => getSerializer("toString" as SerializationMode)).toThrow(
+			"Unknown serialization mode 'toString'",
+		);
+	});
+});
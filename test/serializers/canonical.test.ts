@@ -0,0 +1,78 @@
+import { describe, expect, test } from "vitest";
+import { canonicalStringify } from "../../src/serializers/canonical.ts";
+
+describe("canonicalStringify", () => {
+	test("should sort object keys", () => {
+		expect(canonicalStringify({ b: 2, a: 1 })).toBe('{"a":1,"b":2}');
+	});
+
+	test("should produce the same output regardless of key order", () => {
+		const data1 = { name: "test", value: 42, nested: { z: 1, y: 2 } };
+		const data2 = { nested: { y: 2, z: 1 }, value: 42, name: "test" };
+
+		expect(canonicalStringify(data1)).toBe(canonicalStringify(data2));
+	});
+
+	test("should sort keys of nested objects", () => {
+		const data = { outer: { c: 3, a: 1, b: { y: 2, x: 1 } } };
+		expect(canonicalStringify(data)).toBe(
+			'{"outer":{"a":1,"b":{"x":1,"y":2},"c":3}}',
+		);
+	});
+
+	test("should keep array order and sort objects inside arrays", () => {
+		const data = [3, { b: 2, a: 1 }, 1];
+		expect(canonicalStringify(data)).toBe('[3,{"a":1,"b":2},1]');
+	});
+
+	test("should match JSON.stringify for primitives", () => {
+		expect(canonicalStringify("hello")).toBe(JSON.stringify("hello"));
+		expect(canonicalStringify(42)).toBe(JSON.stringify(42));
+		expect(canonicalStringify(true)).toBe(JSON.stringify(true));
+		expect(canonicalStringify(null)).toBe(JSON.stringify(null));
+	});
+
+	test("should unwrap boxed primitives like JSON.stringify", () => {
+		const data = {
+			b: new Boolean(false),
+			a: new String("ab"),
+			c: [new Number(5), new Boolean(true)],
+		};
+		expect(canonicalStringify(data)).toBe('{"a":"ab","b":false,"c":[5,true]}');
+		expect(canonicalStringify({ x: new Boolean(true) })).not.toBe(
+			canonicalStringify({ x: new Boolean(false) }),
+		);
+		expect(canonicalStringify(new Number(5))).toBe("5");
+	});
+
+	test("should follow JSON.stringify rules for undefined and functions", () => {
+		const data = { b: undefined, a: () => 1, c: [undefined] };
+		expect(canonicalStringify(data)).toBe('{"c":[null]}');
+	});
+
+	test("should use toJSON when available", () => {
+		const date = new Date("2024-01-01T00:00:00.000Z");
+		expect(canonicalStringify({ date })).toBe(
+			'{"date":"2024-01-01T00:00:00.000Z"}',
+		);
+
+		const custom = { toJSON: () => ({ y: 2, x: 1 }) };
+		expect(canonicalStringify(custom)).toBe('{"x":1,"y":2}');
+	});
+
+	test("should sort keys of class instances", () => {
+		class Point {
+			public y = 2;
+			public x = 1;
+		}
+
+		expect(canonicalStringify(new Point())).toBe('{"x":1,"y":2}');
+	});
+
+	test("should keep __proto__ as a regular key", () => {
+		const data = JSON.parse('{"b":1,"__proto__":{"polluted":true}}');
+		expect(canonicalStringify(data)).toBe(
+			'{"__proto__":{"polluted":true},"b":1}',
+		);
+	});
+});
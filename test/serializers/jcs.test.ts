@@ -0,0 +1,203 @@
+import { describe, expect, test } from "vitest";
+import { canonicalize } from "../../src/serializers/jcs.ts";
+
+/**
+ * Converts an IEEE 754 double given as 16 hex characters into a number.
+ */
+function fromIeee(hex: string): number {
+	const view = new DataView(new ArrayBuffer(8));
+	view.setBigUint64(0, BigInt(`0x${hex}`));
+	return view.getFloat64(0);
+}
+
+describe("canonicalize (RFC 8785)", () => {
+	describe("RFC 8785 test vectors", () => {
+		test("should canonicalize the sample from section 3.2.2", () => {
+			const input = JSON.parse(`{
+				"numbers": [333333333.33333329, 1E30, 4.50, 2e-3, 0.000000000000000000000000001],
+				"string": "\\u20ac$\\u000F\\u000aA'\\u0042\\u0022\\u005c\\\\\\"\\/",
+				"literals": [null, true, false]
+			}`);
+
+			expect(canonicalize(input)).toBe(
+				'{"literals":[null,true,false],"numbers":[333333333.3333333,1e+30,4.5,0.002,1e-27],"string":"€$\\u000f\\nA\'B\\"\\\\\\\\\\"/"}',
+			);
+		});
+
+		test("should sort properties by UTF-16 code units (section 3.2.3)", () => {
+			const input = {
+				"€": "Euro Sign",
+				"\r": "Carriage Return",
+				דּ: "Hebrew Letter Dalet With Dagesh",
+				"1": "One",
+				"😀": "Emoji: Grinning Face",
+				"\u0080": "Control",
+				ö: "Latin Small Letter O With Diaeresis",
+			};
+
+			expect(canonicalize(input)).toBe(
+				'{"\\r":"Carriage Return","1":"One","\u0080":"Control","ö":"Latin Small Letter O With Diaeresis","€":"Euro Sign","😀":"Emoji: Grinning Face","דּ":"Hebrew Letter Dalet With Dagesh"}',
+			);
+		});
+
+		test("should serialize the number samples from Appendix B", () => {
+			const samples: Array<[string, string]> = [
+				["0000000000000000", "0"],
+				["8000000000000000", "0"],
+				["0000000000000001", "5e-324"],
+				["8000000000000001", "-5e-324"],
+				["7fefffffffffffff", "1.7976931348623157e+308"],
+				["ffefffffffffffff", "-1.7976931348623157e+308"],
+				["4340000000000000", "9007199254740992"],
+				["c340000000000000", "-9007199254740992"],
+				["4430000000000000", "295147905179352830000"],
+				["44b52d02c7e14af5", "9.999999999999997e+22"],
+				["44b52d02c7e14af6", "1e+23"],
+				["44b52d02c7e14af7", "1.0000000000000001e+23"],
+				["444b1ae4d6e2ef4e", "999999999999999700000"],
+				["444b1ae4d6e2ef4f", "999999999999999900000"],
+				["444b1ae4d6e2ef50", "1e+21"],
+				["3eb0c6f7a0b5ed8c", "9.999999999999997e-7"],
+				["3eb0c6f7a0b5ed8d", "0.000001"],
+				["41b3de4355555553", "333333333.3333332"],
+				["41b3de4355555554", "333333333.33333325"],
+				["41b3de4355555555", "333333333.3333333"],
+				["41b3de4355555556", "333333333.3333334"],
+				["41b3de4355555557", "333333333.33333343"],
+				["becbf647612f3696", "-0.0000033333333333333333"],
+				["43143ff3c1cb0959", "1424953923781206.2"],
+			];
+
+			for (const [hex, expected] of samples) {
+				expect(canonicalize(fromIeee(hex))).toBe(expected);
+			}
+		});
+
+		test("should reject NaN and Infinity (Appendix B)", () => {
+			expect(() => canonicalize(fromIeee("7fffffffffffffff"))).toThrow(
+				TypeError,
+			);
+			expect(() => canonicalize(fromIeee("7ff0000000000000"))).toThrow(
+				TypeError,
+			);
+			expect(() => canonicalize({ value: -Infinity })).toThrow(TypeError);
+		});
+	});
+
+	describe("serialization rules", () => {
+		test("should serialize literals", () => {
+			expect(canonicalize(null)).toBe("null");
+			expect(canonicalize(true)).toBe("true");
+			expect(canonicalize(false)).toBe("false");
+		});
+
+		test("should sort nested objects and keep array order", () => {
+			expect(canonicalize({ b: [{ d: 1, c: 2 }, 3], a: {} })).toBe(
+				'{"a":{},"b":[{"c":2,"d":1},3]}',
+			);
+		});
+
+		test("should omit undefined, functions and symbols in objects", () => {
+			expect(
+				canonicalize({ a: undefined, b: () => 1, c: Symbol("c"), d: 1 }),
+			).toBe('{"d":1}');
+		});
+
+		test("should serialize undefined, functions and symbols in arrays as null", () => {
+			expect(canonicalize([undefined, () => 1, Symbol("c")])).toBe(
+				"[null,null,null]",
+			);
+		});
+
+		test("should serialize the holes of sparse arrays as null", () => {
+			const sparse: Array<number> = [];
+			sparse[0] = 1;
+			sparse[2] = 3;
+			expect(canonicalize(sparse)).toBe("[1,null,3]");
+			expect(canonicalize(new Array(2))).toBe(JSON.stringify(new Array(2)));
+		});
+
+		test("should unwrap boxed primitives like JSON.stringify", () => {
+			const boxed = {
+				number: new Number(5),
+				string: new String("a"),
+				boolean: new Boolean(false),
+			};
+			expect(canonicalize(new Number(5))).toBe("5");
+			expect(canonicalize(boxed)).toBe(
+				'{"boolean":false,"number":5,"string":"a"}',
+			);
+			expect(() => canonicalize(new Number(Number.NaN))).toThrow(
+				"JCS cannot serialize the number NaN",
+			);
+		});
+
+		test("should use toJSON when available", () => {
+			const date = new Date("2024-01-01T00:00:00.000Z");
+			expect(canonicalize({ date })).toBe(
+				'{"date":"2024-01-01T00:00:00.000Z"}',
+			);
+
+			const keyed = {
+				toJSON: (key: string) => `key:${key}`,
+			};
+			expect(canonicalize({ item: keyed, list: [keyed] })).toBe(
+				'{"item":"key:item","list":["key:0"]}',
+			);
+		});
+
+		test("should allow repeated references that are not circular", () => {
+			const shared = { value: 1 };
+			expect(canonicalize({ a: shared, b: shared })).toBe(
+				'{"a":{"value":1},"b":{"value":1}}',
+			);
+		});
+	});
+
+	describe("errors", () => {
+		test("should throw for a top level undefined, function or symbol", () => {
+			expect(() => canonicalize(undefined)).toThrow(
+				"JCS cannot serialize a top level undefined",
+			);
+			expect(() => canonicalize(() => 1)).toThrow(
+				"JCS cannot serialize a top level function",
+			);
+			expect(() => canonicalize(Symbol("s"))).toThrow(
+				"JCS cannot serialize a top level symbol",
+			);
+		});
+
+		test("should throw for BigInt values", () => {
+			expect(() => canonicalize({ value: 10n })).toThrow(
+				"JCS cannot serialize a BigInt",
+			);
+		});
+
+		test("should throw for lone surrogates in values and keys", () => {
+			expect(() => canonicalize("\ud800")).toThrow(
+				"JCS cannot serialize a string with a lone surrogate",
+			);
+			expect(() => canonicalize({ "\udc00": 1 })).toThrow(
+				"JCS cannot serialize a string with a lone surrogate",
+			);
+			expect(() => canonicalize("a\ud800b")).toThrow("lone surrogate");
+			expect(() => canonicalize("\udc00\ud800")).toThrow("lone surrogate");
+			expect(canonicalize("😀")).toBe('"😀"');
+			expect(canonicalize("a😀\u00e9😀")).toBe('"a😀é😀"');
+		});
+
+		test("should throw for circular structures", () => {
+			const circular: Record<string, unknown> = { a: 1 };
+			circular.self = circular;
+			expect(() => canonicalize(circular)).toThrow(
+				"JCS cannot serialize a circular structure",
+			);
+
+			const list: Array<unknown> = [];
+			list.push(list);
+			expect(() => canonicalize(list)).toThrow(
+				"JCS cannot serialize a circular structure",
+			);
+		});
+	});
+});
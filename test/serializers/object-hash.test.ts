@@ -0,0 +1,190 @@
+import { createHash } from "node:crypto";
+import objectHash from "object-hash";
+import { describe, expect, test } from "vitest";
+import {
+	createObjectHashStringify,
+	objectHashStringify,
+} from "../../src/serializers/object-hash.ts";
+
+/**
+ * Returns the serialization object-hash feeds into its hash function.
+ */
+function passthrough(value: unknown, options?: objectHash.NormalOption) {
+	return objectHash(value as objectHash.NotUndefined, {
+		...options,
+		algorithm: "passthrough",
+	});
+}
+
+class Point {
+	public x: number;
+	public y: number;
+
+	constructor(x: number, y: number) {
+		this.x = x;
+		this.y = y;
+	}
+}
+
+function namedFunction(a: number) {
+	return a + 1;
+}
+
+const samples: Record<string, unknown> = {
+	string: "hello",
+	emptyString: "",
+	unicode: "€😀",
+	number: 42,
+	float: 1.5,
+	negativeZero: -0,
+	nan: Number.NaN,
+	infinity: Number.POSITIVE_INFINITY,
+	boolean: true,
+	null: null,
+	bigint: 10n,
+	symbol: Symbol("id"),
+	date: new Date("2024-01-01T00:00:00.000Z"),
+	invalidDate: new Date(Number.NaN),
+	regexp: /a+b/gi,
+	error: new TypeError("bad"),
+	url: new URL("https://example.com/path?q=1"),
+	plainObject: { b: 2, a: 1, nested: { z: [1, 2, { y: true }] } },
+	nullPrototype: Object.assign(Object.create(null), { a: 1 }),
+	classInstance: new Point(1, 2),
+	array: [3, 1, 2, "a", null, undefined],
+	sparseArray: (() => {
+		const list = [1];
+		list[2] = 3;
+		return list;
+	})(),
+	emptyArray: [],
+	map: new Map<unknown, unknown>([
+		["b", 2],
+		["a", { c: 1 }],
+	]),
+	set: new Set([3, 1, 2]),
+	uint8Array: new Uint8Array([1, 2, 3]),
+	int16Array: new Int16Array([-1, 2]),
+	float64Array: new Float64Array([1.5]),
+	arrayBuffer: new Uint8Array([4, 5]).buffer,
+	dataView: new DataView(new ArrayBuffer(2)),
+	buffer: Buffer.from("hello"),
+	boxedString: Object("boxed"),
+	boxedNumber: Object(5),
+	boxedBoolean: Object(false),
+	boxedBigInt: Object(10n),
+	boxedSymbol: Object(Symbol("boxed")),
+	xml: {
+		[Symbol.toStringTag]: "XML",
+		toString: () => "<node />",
+	},
+	function: namedFunction,
+	arrowFunction: (a: number) => a * 2,
+	nativeFunction: Math.max,
+	asyncFunction: async () => 1,
+	shared: (() => {
+		const shared = { value: 1 };
+		return { a: shared, b: shared, c: [shared] };
+	})(),
+	circular: (() => {
+		const circular: Record<string, unknown> = { name: "root" };
+		circular.self = circular;
+		circular.list = [circular, { parent: circular }];
+		return circular;
+	})(),
+	nestedCollections: {
+		list: [new Set([{ b: 1 }, { a: 2 }]), new Map([[{ k: 1 }, [2, 1]]])],
+	},
+};
+
+describe("objectHashStringify", () => {
+	for (const [name, value] of Object.entries(samples)) {
+		test(`should match object-hash serialization for ${name}`, () => {
+			expect(objectHashStringify(value)).toBe(passthrough(value));
+		});
+	}
+
+	test("should match object-hash digests for UTF-8 Buffers only", () => {
+		const sha1 = (value: unknown) =>
+			createHash("sha1").update(objectHashStringify(value)).digest("hex");
+		const text = Buffer.from("\ufeffhello €");
+		const binary = Buffer.from([0xff, 0xfe, 0]);
+
+		expect(sha1(text)).toBe(objectHash(text));
+		expect(sha1({ text })).toBe(objectHash({ text }));
+
+		// object-hash hashes the raw bytes, the string output falls back to hex
+		expect(objectHashStringify(binary)).toBe("buffer-hex:fffe00");
+		expect(sha1(binary)).not.toBe(objectHash(binary));
+		expect(objectHashStringify(Buffer.from([0xfe, 0xff, 0]))).not.toBe(
+			objectHashStringify(binary),
+		);
+	});
+
+	test("should throw for undefined like object-hash", () => {
+		expect(() => objectHashStringify(undefined)).toThrow(
+			"Object argument required.",
+		);
+	});
+
+	test("should throw for unknown object types", () => {
+		expect(() => objectHashStringify(new WeakMap())).toThrow(
+			'Unknown object type "weakmap"',
+		);
+		expect(() => objectHashStringify(new Blob(["a"]))).toThrow(
+			"Hashing Blob objects is currently not supported",
+		);
+	});
+});
+
+describe("createObjectHashStringify", () => {
+	const optionSets: Array<objectHash.NormalOption> = [
+		{ unorderedArrays: true },
+		{ unorderedSets: false },
+		{ unorderedObjects: false },
+		{ respectType: false },
+		{ respectFunctionNames: false },
+		{ respectFunctionProperties: false },
+		{ excludeValues: true },
+		{ ignoreUnknown: true },
+		{ excludeKeys: (key: string) => key === "a" },
+		{
+			replacer: (value: unknown) =>
+				typeof value === "number" ? value * 2 : value,
+		},
+		{ unorderedArrays: true, unorderedSets: false, respectType: false },
+	];
+
+	for (const options of optionSets) {
+		test(`should match object-hash with options ${Object.keys(options).join(", ")}`, () => {
+			const stringify = createObjectHashStringify(options);
+			for (const value of Object.values(samples)) {
+				expect(stringify(value)).toBe(passthrough(value, options));
+			}
+		});
+	}
+
+	test("should match unordered arrays with circular references", () => {
+		const options = { unorderedArrays: true };
+		const shared = { id: 1 };
+		const value: Record<string, unknown> = { list: [[shared, 2], [shared]] };
+		value.list = [...(value.list as Array<unknown>), value, { shared }];
+
+		expect(createObjectHashStringify(options)(value)).toBe(
+			passthrough(value, options),
+		);
+	});
+
+	test("should serialize unknown types and blobs with ignoreUnknown", () => {
+		const value = { map: new WeakMap(), blob: new Blob(["a"]) };
+		const stringify = createObjectHashStringify({ ignoreUnknown: true });
+		expect(stringify(value)).toBe(passthrough(value, { ignoreUnknown: true }));
+		expect(stringify(value)).toContain("[weakmap]");
+		expect(stringify(value)).toContain("[blob]");
+	});
+
+	test("should serialize files like object-hash", () => {
+		const file = new File(["content"], "name.txt", { type: "text/plain" });
+		expect(objectHashStringify(file)).toBe(passthrough(file));
+	});
+});
@@ -0,0 +1,250 @@
+import { describe, expect, test } from "vitest";
+import { typedStringify } from "../../src/serializers/typed.ts";
+
+describe("typedStringify", () => {
+	describe("primitives", () => {
+		test("should encode literals", () => {
+			expect(typedStringify(undefined)).toBe("undefined");
+			expect(typedStringify(null)).toBe("null");
+			expect(typedStringify(true)).toBe("true");
+			expect(typedStringify(false)).toBe("false");
+		});
+
+		test("should encode numbers including special values", () => {
+			expect(typedStringify(42)).toBe("42");
+			expect(typedStringify(1.5)).toBe("1.5");
+			expect(typedStringify(0)).toBe("0");
+			expect(typedStringify(-0)).toBe("-0");
+			expect(typedStringify(Number.NaN)).toBe("NaN");
+			expect(typedStringify(Number.POSITIVE_INFINITY)).toBe("Infinity");
+			expect(typedStringify(Number.NEGATIVE_INFINITY)).toBe("-Infinity");
+		});
+
+		test("should encode BigInt with an n suffix", () => {
+			expect(typedStringify(10n)).toBe("10n");
+			expect(typedStringify(-10n)).toBe("-10n");
+		});
+
+		test("should quote strings", () => {
+			expect(typedStringify("abc")).toBe('"abc"');
+			expect(typedStringify("10n")).toBe('"10n"');
+			expect(typedStringify("line\nbreak")).toBe('"line\\nbreak"');
+		});
+
+		test("should encode symbols and functions", () => {
+			expect(typedStringify(Symbol("id"))).toBe('Symbol("id")');
+			expect(typedStringify(Symbol())).toBe("Symbol()");
+			function namedFunction() {}
+			expect(typedStringify(namedFunction)).toBe('Function("namedFunction")');
+		});
+	});
+
+	describe("built-in objects", () => {
+		test("should encode Date", () => {
+			expect(typedStringify(new Date(0))).toBe("Date(0)");
+			expect(typedStringify(new Date(Number.NaN))).toBe("Date(NaN)");
+		});
+
+		test("should encode RegExp", () => {
+			expect(typedStringify(/a+b/gi)).toBe('RegExp("a+b","gi")');
+		});
+
+		test("should encode Error", () => {
+			expect(typedStringify(new TypeError("bad"))).toBe(
+				'Error("TypeError","bad")',
+			);
+		});
+
+		test("should encode ArrayBuffer and views as hex", () => {
+			const bytes = new Uint8Array([1, 2, 255]);
+			expect(typedStringify(bytes.buffer)).toBe("ArrayBuffer(0102ff)");
+			expect(typedStringify(bytes)).toBe("Uint8Array(0102ff)");
+			expect(typedStringify(new DataView(bytes.buffer))).toBe(
+				"DataView(0102ff)",
+			);
+			expect(typedStringify(new Uint16Array([1]))).toBe("Uint16Array(0100)");
+			expect(typedStringify(new Uint8Array(bytes.buffer, 1, 1))).toBe(
+				"Uint8Array(02)",
+			);
+		});
+
+		test("should encode Buffer like Uint8Array", () => {
+			expect(typedStringify(Buffer.from([1, 2]))).toBe("Uint8Array(0102)");
+		});
+
+		test("should encode boxed primitives", () => {
+			expect(typedStringify(Object(1))).toBe("Number(1)");
+			expect(typedStringify(Object("a"))).toBe('String("a")');
+			expect(typedStringify(Object(true))).toBe("Boolean(true)");
+		});
+	});
+
+	describe("collections", () => {
+		test("should encode arrays with undefined entries", () => {
+			expect(typedStringify([1, undefined, "a"])).toBe('[1,undefined,"a"]');
+		});
+
+		test("should encode Map and Set independent of insertion order", () => {
+			expect(typedStringify(new Map([[1, 2]]))).toBe("Map{1=>2}");
+			expect(
+				typedStringify(
+					new Map<string, number>([
+						["b", 2],
+						["a", 1],
+					]),
+				),
+			).toBe(
+				typedStringify(
+					new Map<string, number>([
+						["a", 1],
+						["b", 2],
+					]),
+				),
+			);
+			expect(typedStringify(new Set([1]))).toBe("Set[1]");
+			expect(typedStringify(new Set([2, 1]))).toBe("Set[1,2]");
+		});
+
+		test("should encode objects with sorted keys and undefined values", () => {
+			expect(typedStringify({ b: 2, a: undefined })).toBe(
+				'{"a":undefined,"b":2}',
+			);
+			expect(typedStringify({})).toBe("{}");
+			expect(typedStringify(Object.create(null))).toBe("{}");
+		});
+
+		test("should prefix class instances with the constructor name", () => {
+			class Point {
+				public y = 2;
+				public x = 1;
+			}
+
+			expect(typedStringify(new Point())).toBe('Point{"x":1,"y":2}');
+		});
+
+		test("should fall back to the type tag without a constructor", () => {
+			const prototype = Object.create(null);
+			expect(typedStringify(Object.create(prototype))).toBe("Object{}");
+		});
+
+		test("should encode nested structures", () => {
+			const data = {
+				when: new Date(0),
+				ids: new Set([2, 1]),
+				n: 10n,
+				meta: new Map([["tags", ["a", "b"]]]),
+			};
+			expect(typedStringify(data)).toBe(
+				'{"ids":Set[1,2],"meta":Map{"tags"=>["a","b"]},"n":10n,"when":Date(0)}',
+			);
+		});
+	});
+
+	describe("collisions", () => {
+		test("should keep values distinct that JSON.stringify collapses", () => {
+			const values = [
+				new Map([[1, 2]]),
+				new Set([1]),
+				{},
+				[],
+				undefined,
+				null,
+				Number.NaN,
+				0,
+				-0,
+				1,
+				1n,
+				"1",
+				new Date(1),
+				new Uint8Array([1]),
+				new Int8Array([1]),
+				[undefined],
+				{ a: undefined },
+			];
+
+			const encoded = new Set(values.map((value) => typedStringify(value)));
+			expect(encoded.size).toBe(values.length);
+		});
+	});
+
+	describe("circular references", () => {
+		test("should encode a self reference as a back-reference to the root", () => {
+			const circular: Record<string, unknown> = { id: 1 };
+			circular.self = circular;
+			expect(typedStringify(circular)).toBe('{"id":1,"self":Circular($)}');
+		});
+
+		test("should encode back-references by path", () => {
+			const parent: Record<string, unknown> = { name: "parent" };
+			const child: Record<string, unknown> = { name: "child", parent };
+			parent.children = [child];
+
+			expect(typedStringify(parent)).toBe(
+				'{"children":[{"name":"child","parent":Circular($)}],"name":"parent"}',
+			);
+			expect(typedStringify({ root: parent })).toBe(
+				'{"root":{"children":[{"name":"child","parent":Circular($["root"])}],"name":"parent"}}',
+			);
+			expect(typedStringify(child)).toBe(
+				'{"name":"child","parent":{"children":[Circular($)],"name":"parent"}}',
+			);
+		});
+
+		test("should encode circular arrays", () => {
+			const list: Array<unknown> = [1];
+			list.push([list]);
+			expect(typedStringify(list)).toBe("[1,[Circular($)]]");
+		});
+
+		test("should encode circular Map and Set entries", () => {
+			const map = new Map<unknown, unknown>();
+			map.set("self", map);
+			map.set(map, "key");
+			expect(typedStringify(map)).toBe(
+				'Map{"self"=>Circular($),Circular($)=>"key"}',
+			);
+
+			const nested = new Map<string, unknown>();
+			nested.set("inner", { owner: nested });
+			expect(typedStringify(nested)).toBe(
+				'Map{"inner"=>{"owner":Circular($)}}',
+			);
+
+			const set = new Set<unknown>();
+			set.add({ owner: set });
+			expect(typedStringify({ set })).toBe(
+				'{"set":Set[{"owner":Circular($["set"])}]}',
+			);
+		});
+
+		test("should encode references to deeper ancestors inside Map values", () => {
+			const root: Record<string, unknown> = {};
+			const item: Record<string, unknown> = { root };
+			const map = new Map([["item", { item, back: item }]]);
+			root.map = map;
+			item.map = map;
+
+			expect(typedStringify(root)).toBe(
+				'{"map":Map{"item"=>{"back":{"map":Circular($["map"]),"root":Circular($)},"item":{"map":Circular($["map"]),"root":Circular($)}}}}',
+			);
+		});
+
+		test("should be stable for equivalent graphs", () => {
+			const build = () => {
+				const order: Record<string, unknown> = { id: 7 };
+				const line: Record<string, unknown> = { sku: "abc", order };
+				order.lines = [line];
+				return order;
+			};
+
+			expect(typedStringify(build())).toBe(typedStringify(build()));
+		});
+
+		test("should allow repeated references that are not circular", () => {
+			const shared = [1];
+			expect(typedStringify({ a: shared, b: shared })).toBe(
+				'{"a":[1],"b":[1]}',
+			);
+		});
+	});
+});